@@ -0,0 +1,217 @@
+const store = require('./store');
+const { TOKEN_SCHEMA } = require('./tokenMapper');
+
+class AlertRuleError extends Error {}
+
+const MAX_CONDITIONS = 20;
+
+// Computed Token fields that are plain values and can be matched on
+const COMPUTED_FIELDS = { safetyScore: 'number', securityLevel: 'string' };
+
+// Every Token field a condition may use, with its kind
+const FIELDS = {
+  ...Object.fromEntries(Object.entries(TOKEN_SCHEMA)
+    .filter(([, spec]) => ['string', 'number', 'boolean'].includes(spec.kind))
+    .map(([field, spec]) => [field, spec.kind])),
+  ...COMPUTED_FIELDS
+};
+
+// Comparisons per field kind. Strings compare case-insensitively.
+const OPERATORS = {
+  number: {
+    '>': (a, b) => a > b,
+    '>=': (a, b) => a >= b,
+    '<': (a, b) => a < b,
+    '<=': (a, b) => a <= b,
+    '=': (a, b) => a === b,
+    '!=': (a, b) => a !== b
+  },
+  string: {
+    '=': (a, b) => String(a).toLowerCase() === b.toLowerCase(),
+    '!=': (a, b) => String(a).toLowerCase() !== b.toLowerCase(),
+    contains: (a, b) => String(a).toLowerCase().includes(b.toLowerCase())
+  },
+  boolean: {
+    '=': (a, b) => Boolean(a) === b,
+    '!=': (a, b) => Boolean(a) !== b
+  }
+};
+
+// Validate one { field, op, value } condition, coercing value to the field's kind.
+// label names the condition in error messages, e.g. conditions[0].
+function parseCondition(condition, label) {
+  if (!condition || typeof condition !== 'object') {
+    throw new AlertRuleError(`${label} must be an object`);
+  }
+  const { field, op, value } = condition;
+  const kind = FIELDS[field];
+  if (!kind) {
+    throw new AlertRuleError(`${label}.field is not a matchable Token field: ${field}`);
+  }
+  if (!OPERATORS[kind][op]) {
+    throw new AlertRuleError(`${label}.op must be one of ${Object.keys(OPERATORS[kind]).join(', ')} for ${field}`);
+  }
+
+  if (kind === 'number') {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || Number.isNaN(number)) {
+      throw new AlertRuleError(`${label}.value must be a number for ${field}`);
+    }
+    return { field, op, value: number };
+  }
+  if (kind === 'boolean') {
+    if (typeof value !== 'boolean' && value !== 'true' && value !== 'false') {
+      throw new AlertRuleError(`${label}.value must be true or false for ${field}`);
+    }
+    return { field, op, value: value === true || value === 'true' };
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new AlertRuleError(`${label}.value must be a non-empty string for ${field}`);
+  }
+  return { field, op, value: value.trim() };
+}
+
+// Validate a rule body from the API
+function parseRule(body) {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > 100) {
+    throw new AlertRuleError('name must be a non-empty string of at most 100 characters');
+  }
+  if (!Array.isArray(body.conditions) || body.conditions.length === 0 || body.conditions.length > MAX_CONDITIONS) {
+    throw new AlertRuleError(`conditions must be an array of 1 to ${MAX_CONDITIONS} conditions`);
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    throw new AlertRuleError('enabled must be a boolean');
+  }
+
+  return {
+    name,
+    conditions: body.conditions.map((condition, index) => parseCondition(condition, `conditions[${index}]`)),
+    enabled: body.enabled !== false
+  };
+}
+
+function formatRule(row) {
+  return {
+    id: row.id,
+    name: row.name,
+    conditions: JSON.parse(row.conditions),
+    enabled: Boolean(row.enabled),
+    createdAt: row.created_at
+  };
+}
+
+// Rules are cached for the poll loop and reloaded after every change
+let rules = [];
+
+// Addresses currently matching each rule, so a token only alerts when it starts matching
+const matching = new Map();
+
+async function reloadRules() {
+  rules = (await store.all('SELECT * FROM alert_rules ORDER BY id ASC')).map(formatRule);
+  return rules;
+}
+
+const loaded = reloadRules().then(() => console.log(`Loaded ${rules.length} alert rules`));
+
+async function listRules() {
+  await loaded;
+  return rules;
+}
+
+async function createRule(body) {
+  const rule = parseRule(body);
+  const result = await store.run(
+    'INSERT INTO alert_rules (name, conditions, enabled, created_at) VALUES (?, ?, ?, ?)',
+    [rule.name, JSON.stringify(rule.conditions), rule.enabled ? 1 : 0, Date.now()]
+  );
+  await reloadRules();
+  return rules.find(existing => existing.id === result.lastID);
+}
+
+// Replace a rule, returns null if it does not exist
+async function updateRule(id, body) {
+  const rule = parseRule(body);
+  const result = await store.run(
+    'UPDATE alert_rules SET name = ?, conditions = ?, enabled = ? WHERE id = ?',
+    [rule.name, JSON.stringify(rule.conditions), rule.enabled ? 1 : 0, id]
+  );
+  await reloadRules();
+  return result.changes > 0 ? rules.find(existing => existing.id === id) : null;
+}
+
+async function deleteRule(id) {
+  const result = await store.run('DELETE FROM alert_rules WHERE id = ?', [id]);
+  await reloadRules();
+  matching.delete(id);
+  return result.changes > 0;
+}
+
+// True when the token satisfies every condition
+function conditionsMatch(conditions, token) {
+  return conditions.every(({ field, op, value }) => {
+    const actual = token[field];
+    if (actual === undefined || actual === null) return false;
+    return OPERATORS[FIELDS[field]][op](actual, value);
+  });
+}
+
+// Record which tokens already match without alerting, e.g. after priming or a rule change
+async function primeMatches(tokens) {
+  await loaded;
+  matching.clear();
+  rules.filter(rule => rule.enabled).forEach(rule => {
+    matching.set(rule.id, new Set(tokens
+      .filter(token => conditionsMatch(rule.conditions, token))
+      .map(token => token.address.toLowerCase())));
+  });
+}
+
+// Evaluate new or updated tokens against every enabled rule.
+// Returns one { rule, token } per token that started matching a rule.
+function matchTokens(tokens) {
+  const matches = [];
+
+  rules.filter(rule => rule.enabled).forEach(rule => {
+    if (!matching.has(rule.id)) matching.set(rule.id, new Set());
+    const matched = matching.get(rule.id);
+
+    tokens.forEach(token => {
+      const key = token.address.toLowerCase();
+      if (!conditionsMatch(rule.conditions, token)) {
+        matched.delete(key);
+      } else if (!matched.has(key)) {
+        matched.add(key);
+        matches.push({ rule, token });
+      }
+    });
+  });
+
+  return matches;
+}
+
+// A removed token starts over if it ever comes back
+function forgetToken(address) {
+  matching.forEach(matched => matched.delete(address.toLowerCase()));
+}
+
+// Fields and operators for the rule editor
+function describeFields() {
+  return Object.entries(FIELDS)
+    .map(([field, kind]) => ({ field, kind, operators: Object.keys(OPERATORS[kind]) }))
+    .sort((a, b) => a.field.localeCompare(b.field));
+}
+
+module.exports = {
+  AlertRuleError,
+  parseCondition,
+  conditionsMatch,
+  listRules,
+  createRule,
+  updateRule,
+  deleteRule,
+  primeMatches,
+  matchTokens,
+  forgetToken,
+  describeFields
+};
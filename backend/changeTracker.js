@@ -0,0 +1,156 @@
+const db = require('./db');
+const { getRemovalTables, formatRemovedToken } = require('./graveyard');
+const { logFieldErrors } = require('./tokenMapper');
+
+// Per-address watermark of the last scan we reported
+const watermarks = new Map();
+
+// Latest removal_timestamp seen per removal table
+const removalWatermarks = new Map();
+
+let primed = false;
+
+// Fetch full scan_records rows for the given addresses
+async function getFullRows(addresses) {
+  if (addresses.length === 0) return [];
+  const placeholders = addresses.map(() => '?').join(', ');
+  return db.all(
+    `SELECT * FROM scan_records WHERE token_address IN (${placeholders})`,
+    addresses
+  );
+}
+
+// Removal rows written since the last cycle, grouped by address
+async function getNewRemovals() {
+  const removals = new Map();
+  const tables = await getRemovalTables();
+
+  for (const table of tables) {
+    const since = removalWatermarks.get(table) || '';
+    const rows = await db.all(
+      `SELECT * FROM "${table}" WHERE removal_timestamp > ? ORDER BY removal_timestamp ASC`,
+      [since]
+    );
+
+    rows.forEach(row => {
+      removals.set(row.token_address, formatRemovedToken(row, table));
+      removalWatermarks.set(table, row.removal_timestamp);
+    });
+  }
+
+  return removals;
+}
+
+// Look up a token that disappeared without a fresh removal row
+async function findRemoval(address) {
+  const tables = await getRemovalTables();
+  for (const table of tables) {
+    const row = await db.get(`SELECT * FROM "${table}" WHERE token_address = ?`, [address]);
+    if (row) {
+      return formatRemovedToken(row, table);
+    }
+  }
+  return null;
+}
+
+// Record the current state as the baseline without emitting anything
+async function prime() {
+  const rows = await db.all('SELECT token_address, scan_timestamp, total_scans FROM scan_records');
+  watermarks.clear();
+  rows.forEach(row => {
+    watermarks.set(row.token_address, {
+      scanTimestamp: row.scan_timestamp,
+      totalScans: row.total_scans
+    });
+  });
+
+  removalWatermarks.clear();
+  const tables = await getRemovalTables();
+  for (const table of tables) {
+    const latest = await db.get(`SELECT MAX(removal_timestamp) AS latest FROM "${table}"`);
+    removalWatermarks.set(table, latest?.latest || '');
+  }
+
+  primed = true;
+  return rows.length;
+}
+
+// Compare scan_records against the watermarks and return one event per changed token.
+// Events are { type: 'inserted' | 'updated' | 'removed', address, row, removal }. Inserted and
+// updated events also carry previousScanTimestamp, the scan reported before (null for inserts).
+async function detectChanges() {
+  if (!primed) {
+    await prime();
+    return [];
+  }
+
+  const rows = await db.all('SELECT token_address, scan_timestamp, total_scans FROM scan_records');
+  const currentAddresses = new Set();
+  const changed = [];
+
+  rows.forEach(row => {
+    currentAddresses.add(row.token_address);
+    const watermark = watermarks.get(row.token_address);
+    if (!watermark) {
+      changed.push({ type: 'inserted', address: row.token_address, previousScanTimestamp: null });
+    } else if (watermark.scanTimestamp !== row.scan_timestamp || watermark.totalScans !== row.total_scans) {
+      changed.push({ type: 'updated', address: row.token_address, previousScanTimestamp: watermark.scanTimestamp });
+    }
+  });
+
+  const fullRows = await getFullRows(changed.map(change => change.address));
+  const rowsByAddress = new Map(fullRows.map(row => [row.token_address, row]));
+
+  const events = [];
+  changed.forEach(change => {
+    const row = rowsByAddress.get(change.address);
+    // Row vanished between the two queries, let the removal tables report it
+    if (!row) {
+      currentAddresses.delete(change.address);
+      return;
+    }
+    watermarks.set(change.address, {
+      scanTimestamp: row.scan_timestamp,
+      totalScans: row.total_scans
+    });
+    // Reported here once per scan rather than each time the row is formatted
+    logFieldErrors(row);
+    events.push({ ...change, row, removal: null });
+  });
+
+  const removals = await getNewRemovals();
+  for (const address of [...watermarks.keys()]) {
+    if (currentAddresses.has(address)) continue;
+    watermarks.delete(address);
+    const removal = removals.get(address) || await findRemoval(address);
+    removals.delete(address);
+    events.push({ type: 'removed', address, row: null, removal });
+  }
+
+  // Tokens inserted and demoted between two polls never reached the watermarks
+  removals.forEach((removal, address) => {
+    if (currentAddresses.has(address)) return;
+    events.push({ type: 'removed', address, row: null, removal });
+  });
+
+  events.sort((a, b) => {
+    const timeA = a.row?.scan_timestamp || a.removal?.removalTimestamp || '';
+    const timeB = b.row?.scan_timestamp || b.removal?.removalTimestamp || '';
+    return timeA.localeCompare(timeB);
+  });
+
+  return events;
+}
+
+// Forget all watermarks, the next cycle re-primes
+function reset() {
+  watermarks.clear();
+  removalWatermarks.clear();
+  primed = false;
+}
+
+module.exports = {
+  detectChanges,
+  prime,
+  reset
+};
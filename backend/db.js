@@ -2,81 +2,198 @@ const sqlite3 = require('sqlite3').verbose();
 const path = require('path');
 const fs = require('fs');
 
-// Function to find latest session folder
-const getLatestSessionPath = () => {
-  const monitorPath = path.join(__dirname, '../monitor');
-  const sessionFolders = fs.readdirSync(monitorPath)
-    .filter(f => fs.statSync(path.join(monitorPath, f)).isDirectory() && /^[A-Za-z]+ \d{2} - Session \d+$/.test(f))
+// The monitor's folder of session databases (override with MONITOR_PATH)
+const monitorPath = process.env.MONITOR_PATH || path.join(__dirname, '../monitor');
+const SESSION_FOLDER_PATTERN = /^[A-Za-z]+ \d{2} - Session \d+$/;
+
+class SessionError extends Error {}
+
+// Every "<Month> DD - Session N" folder with a scan database, newest first
+const getSessionFolders = () => {
+  return fs.readdirSync(monitorPath)
+    .filter(f => SESSION_FOLDER_PATTERN.test(f) && fs.statSync(path.join(monitorPath, f)).isDirectory())
     .map(f => ({
       name: f,
-      time: fs.statSync(path.join(monitorPath, f)).mtime.getTime()
+      dbPath: path.join(monitorPath, f, 'SCAN_RECORDS.db'),
+      modifiedAt: fs.statSync(path.join(monitorPath, f)).mtime.getTime()
     }))
-    .sort((a, b) => b.time - a.time);
+    .filter(folder => fs.existsSync(folder.dbPath))
+    .sort((a, b) => b.modifiedAt - a.modifiedAt);
+};
+
+// Function to find latest session folder
+const getLatestSessionPath = () => {
+  const sessionFolders = getSessionFolders();
 
   if (sessionFolders.length === 0) {
     throw new Error('No session folders found in monitor directory');
   }
 
-  return path.join(monitorPath, sessionFolders[0].name, 'SCAN_RECORDS.db');
+  return sessionFolders[0].dbPath;
 };
 
-// Configure database path
-const dbPath = getLatestSessionPath();
-console.log('Database location:', dbPath);
-
-// Create database connection
-const db = new sqlite3.Database(dbPath, sqlite3.OPEN_READWRITE, (err) => {
-  if (err) {
-    console.error('Error connecting to database:', err.message);
-    process.exit(1);
-  } else {
-    console.log('Connected to the SQLite database');
+const findSessionFolder = (name) => {
+  const folder = getSessionFolders().find(f => f.name === name);
+  if (!folder) {
+    throw new SessionError(`Unknown session: ${name}`);
   }
-});
+  return folder;
+};
 
-// Verify database schema
-db.get("PRAGMA table_info(scan_records)", (err, row) => {
-  if (err) {
-    console.error('Error verifying database schema:', err);
-    process.exit(1);
-  }
-  if (!row) {
-    console.error('Database schema verification failed - scan_records table not found');
-    process.exit(1);
+// Promisify database methods for one connection
+const wrapConnection = (connection) => ({
+  all: (query, params = []) => {
+    return new Promise((resolve, reject) => {
+      connection.all(query, params, (err, rows) => {
+        if (err) return reject(err);
+        resolve(rows);
+      });
+    });
+  },
+
+  get: (query, params = []) => {
+    return new Promise((resolve, reject) => {
+      connection.get(query, params, (err, row) => {
+        if (err) return reject(err);
+        resolve(row);
+      });
+    });
+  },
+
+  run: (query, params = []) => {
+    return new Promise((resolve, reject) => {
+      connection.run(query, params, (err) => {
+        if (err) return reject(err);
+        resolve();
+      });
+    });
   }
 });
 
-// Promisify database methods
-const all = (query, params = []) => {
+// Open a session database and verify it has a scan_records table
+const openSession = (dbPath, mode) => {
   return new Promise((resolve, reject) => {
-    db.all(query, params, (err, rows) => {
+    const connection = new sqlite3.Database(dbPath, mode, (err) => {
       if (err) return reject(err);
-      resolve(rows);
+      connection.get("PRAGMA table_info(scan_records)", (err, row) => {
+        if (err || !row) {
+          connection.close();
+          return reject(err || new Error(`scan_records table not found in ${dbPath}`));
+        }
+        resolve(connection);
+      });
     });
   });
 };
 
-const get = (query, params = []) => {
-  return new Promise((resolve, reject) => {
-    db.get(query, params, (err, row) => {
-      if (err) return reject(err);
-      resolve(row);
-    });
+// Configure database path
+const dbPath = getLatestSessionPath();
+console.log('Database location:', dbPath);
+
+// The live session the poller and the default endpoints read.
+// Its query helpers are filled in once the connection is open.
+let activeSession = {
+  name: path.basename(path.dirname(dbPath)),
+  connection: null
+};
+
+// Read-only connections to other sessions, opened on first use
+const readOnlySessions = new Map();
+
+const ready = openSession(dbPath, sqlite3.OPEN_READWRITE)
+  .then(connection => {
+    activeSession = { name: activeSession.name, connection, ...wrapConnection(connection) };
+    console.log('Connected to the SQLite database');
+  })
+  .catch(err => {
+    console.error('Error connecting to database:', err.message);
+    process.exit(1);
   });
+
+// Queries against the active session wait for the startup connection
+const all = (query, params) => ready.then(() => activeSession.all(query, params));
+const get = (query, params) => ready.then(() => activeSession.get(query, params));
+const run = (query, params) => ready.then(() => activeSession.run(query, params));
+
+const getActiveSession = () => activeSession.name;
+
+// Query helpers for a named session. The active session uses the live
+// connection, any other session gets its own read-only connection.
+const forSession = async (name) => {
+  await ready;
+  if (!name || name === activeSession.name) {
+    return activeSession;
+  }
+
+  if (!readOnlySessions.has(name)) {
+    const folder = findSessionFolder(name);
+    const connection = openSession(folder.dbPath, sqlite3.OPEN_READONLY)
+      .then(wrapConnection);
+    readOnlySessions.set(name, connection);
+    connection.catch(() => readOnlySessions.delete(name));
+  }
+
+  return readOnlySessions.get(name);
 };
 
-const run = (query, params = []) => {
-  return new Promise((resolve, reject) => {
-    db.run(query, params, (err) => {
-      if (err) return reject(err);
-      resolve();
-    });
+// Point the live connection at another session folder
+const setActiveSession = async (name) => {
+  await ready;
+  if (name === activeSession.name) {
+    return activeSession.name;
+  }
+
+  const folder = findSessionFolder(name);
+  const connection = await openSession(folder.dbPath, sqlite3.OPEN_READWRITE);
+  const previous = activeSession.connection;
+
+  activeSession = { name, connection, ...wrapConnection(connection) };
+  console.log('Database location:', folder.dbPath);
+
+  previous.close(err => {
+    if (err) console.error('Error closing previous session database:', err.message);
   });
+  return activeSession.name;
+};
+
+// All session folders with their token counts and scan time ranges
+const listSessions = async () => {
+  const folders = getSessionFolders();
+
+  return Promise.all(folders.map(async folder => {
+    const session = {
+      name: folder.name,
+      active: folder.name === activeSession.name,
+      modifiedAt: folder.modifiedAt,
+      tokenCount: null,
+      firstScan: null,
+      lastScan: null,
+      error: null
+    };
+
+    try {
+      const sessionDb = await forSession(folder.name);
+      const stats = await sessionDb.get(`
+        SELECT COUNT(*) AS tokenCount, MIN(scan_timestamp) AS firstScan, MAX(scan_timestamp) AS lastScan
+        FROM scan_records
+      `);
+      Object.assign(session, stats);
+    } catch (err) {
+      session.error = err.message;
+    }
+
+    return session;
+  }));
 };
 
 module.exports = {
   all,
   get,
   run,
-  db
+  SessionError,
+  getSessionFolders,
+  getActiveSession,
+  setActiveSession,
+  forSession,
+  listSessions
 };
@@ -0,0 +1,65 @@
+const crypto = require('crypto');
+
+// Events kept for clients resuming after a dropped connection
+const DEFAULT_CAPACITY = Number(process.env.EVENT_BUFFER_SIZE) || 1000;
+
+// How long a new client's live events are held waiting for its RESUME
+const RESUME_GRACE_MS = 2000;
+
+// Sequence broadcast events and keep the latest ones in a ring buffer. Sequence
+// numbers restart with the process, so each log has its own streamId and a client
+// resuming another stream is told to resync.
+function createEventLog(capacity = DEFAULT_CAPACITY) {
+  const streamId = crypto.randomUUID();
+  const buffer = new Array(capacity);
+  let seq = 0;
+
+  // Stamp an event with the next sequence number. subject is what subscriptions
+  // routed it by, kept so a replay routes it the same way.
+  function record(data, subject) {
+    seq++;
+    const event = { ...data, seq };
+    buffer[seq % capacity] = { event, subject };
+    return event;
+  }
+
+  // Why a RESUME can't be served from the buffer, or null if it can
+  function resyncReason(request) {
+    if (request.streamId !== streamId) return 'The server restarted since the last event received';
+    if (!Number.isInteger(request.lastSeq) || request.lastSeq < 0 || request.lastSeq > seq) {
+      return 'lastSeq is not a sequence number of this stream';
+    }
+    if (seq - request.lastSeq > capacity) return `More than ${capacity} events were missed`;
+    return null;
+  }
+
+  // Messages answering a client's RESUME: the buffered events after its lastSeq
+  // as routed to it and a closing RESUMED, or RESYNC_REQUIRED when the gap is no
+  // longer buffered. route(event, subject) returns the client's message or null.
+  function resume(request, route) {
+    const reason = resyncReason(request);
+    if (reason) {
+      return [{ type: 'RESYNC_REQUIRED', streamId, seq, reason }];
+    }
+
+    const missed = [];
+    for (let next = request.lastSeq + 1; next <= seq; next++) {
+      const { event, subject } = buffer[next % capacity];
+      const message = route(event, subject);
+      if (message) missed.push(message);
+    }
+    return [...missed, { type: 'RESUMED', streamId, seq, replayed: missed.length }];
+  }
+
+  return {
+    streamId,
+    lastSeq: () => seq,
+    record,
+    resume
+  };
+}
+
+module.exports = {
+  RESUME_GRACE_MS,
+  createEventLog
+};
@@ -0,0 +1,134 @@
+const db = require('./db');
+
+// Tables the monitor moves demoted tokens into, see GX_Scan.py
+const REMOVAL_TABLES = ['HONEYPOTS', 'xHoneypot_removed'];
+
+class GraveyardQueryError extends Error {}
+
+const toNumber = (value) => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isNaN(number) ? null : number;
+};
+
+// Which of the removal tables exist in a session database
+async function getRemovalTables(sessionDb = db) {
+  const placeholders = REMOVAL_TABLES.map(() => '?').join(', ');
+  const rows = await sessionDb.all(
+    `SELECT name FROM sqlite_master WHERE type='table' AND name IN (${placeholders})`,
+    REMOVAL_TABLES
+  );
+  return REMOVAL_TABLES.filter(table => rows.some(row => row.name === table));
+}
+
+// Map a HONEYPOTS / xHoneypot_removed row to a graveyard entry
+function formatRemovedToken(row, table) {
+  return {
+    address: row.token_address,
+    name: row.token_name || 'Unknown',
+    symbol: row.token_symbol || 'UNKNOWN',
+    table,
+    removalTimestamp: row.removal_timestamp,
+    originalScanTimestamp: row.original_scan_timestamp || null,
+    reason: row.removal_reason || row.hp_honeypot_reason || null,
+    honeypotReason: row.hp_honeypot_reason || null,
+    pairAddress: row.token_pair_address || null,
+    ageHours: toNumber(row.token_age_hours),
+    buyTax: toNumber(row.hp_buy_tax),
+    sellTax: toNumber(row.hp_sell_tax),
+    liquidity: toNumber(row.hp_liquidity_amount),
+    holderCount: toNumber(row.hp_holder_count),
+    totalScans: toNumber(row.total_scans),
+    honeypotFailures: toNumber(row.honeypot_failures),
+    lastError: row.last_error || null
+  };
+}
+
+// Validate ?table=&q=&limit=&before= for the graveyard list
+function parseGraveyardQuery(params) {
+  const query = {
+    tables: REMOVAL_TABLES,
+    q: typeof params.q === 'string' ? params.q.trim().toLowerCase() : '',
+    limit: 100,
+    before: null
+  };
+
+  if (params.table !== undefined) {
+    if (!REMOVAL_TABLES.includes(params.table)) {
+      throw new GraveyardQueryError(`table must be one of ${REMOVAL_TABLES.join(', ')}`);
+    }
+    query.tables = [params.table];
+  }
+
+  if (params.limit !== undefined) {
+    const limit = Number(params.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      throw new GraveyardQueryError('limit must be an integer between 1 and 1000');
+    }
+    query.limit = limit;
+  }
+
+  if (params.before !== undefined) {
+    if (typeof params.before !== 'string' || !params.before) {
+      throw new GraveyardQueryError('before must be a removal timestamp');
+    }
+    query.before = params.before;
+  }
+
+  return query;
+}
+
+// Removed tokens from one session, most recently removed first.
+// `before` pages by removal timestamp, pass the last entry's removalTimestamp.
+async function listRemovedTokens(sessionDb, query) {
+  const tables = (await getRemovalTables(sessionDb)).filter(table => query.tables.includes(table));
+  let tokens = [];
+
+  for (const table of tables) {
+    const rows = await sessionDb.all(`SELECT * FROM "${table}" ORDER BY removal_timestamp DESC`);
+    tokens.push(...rows.map(row => formatRemovedToken(row, table)));
+  }
+
+  if (query.q) {
+    tokens = tokens.filter(token => (
+      token.address.toLowerCase().includes(query.q) ||
+      token.name.toLowerCase().includes(query.q) ||
+      token.symbol.toLowerCase().includes(query.q)
+    ));
+  }
+
+  tokens.sort((a, b) => (b.removalTimestamp || '').localeCompare(a.removalTimestamp || ''));
+  const total = tokens.length;
+  const counts = Object.fromEntries(tables.map(table => [
+    table,
+    tokens.filter(token => token.table === table).length
+  ]));
+
+  if (query.before) {
+    tokens = tokens.filter(token => token.removalTimestamp < query.before);
+  }
+
+  return { tokens: tokens.slice(0, query.limit), total, counts };
+}
+
+// One removed token, or null if it is in neither table
+async function findRemovedToken(sessionDb, address) {
+  for (const table of await getRemovalTables(sessionDb)) {
+    const row = await sessionDb.get(
+      `SELECT * FROM "${table}" WHERE LOWER(token_address) = LOWER(?)`,
+      [address]
+    );
+    if (row) return formatRemovedToken(row, table);
+  }
+  return null;
+}
+
+module.exports = {
+  REMOVAL_TABLES,
+  GraveyardQueryError,
+  getRemovalTables,
+  formatRemovedToken,
+  parseGraveyardQuery,
+  listRemovedTokens,
+  findRemovedToken
+};
@@ -0,0 +1,95 @@
+// Concentration and LP lock metrics derived from the GoPlus holder lists.
+// GoPlus only lists the largest holders, so every figure describes those
+// holders and percentages are of the total supply (0-100).
+
+// LP sent to these addresses can never be withdrawn
+const BURN_ADDRESS_PATTERN = /^0x(0{40}|0{36}dead)$/i;
+
+const isBurnAddress = (address) => typeof address === 'string' && BURN_ADDRESS_PATTERN.test(address);
+
+// GoPlus reports percent as a fraction of supply
+function toPercent(value) {
+  const fraction = Number(value);
+  return Number.isFinite(fraction) ? fraction * 100 : 0;
+}
+
+function toBalance(value) {
+  const balance = Number(value);
+  return Number.isFinite(balance) && balance > 0 ? balance : 0;
+}
+
+// locked_detail end_time is either unix seconds or a date string, returns ms or null
+function parseUnlockTime(value) {
+  if (value === null || value === undefined || value === '') return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+// 0 when every listed holder has the same balance, approaching 1 when one holds everything
+function giniCoefficient(balances) {
+  const sorted = balances.filter(balance => balance > 0).sort((a, b) => a - b);
+  const total = sorted.reduce((sum, balance) => sum + balance, 0);
+  if (sorted.length < 2 || total === 0) return 0;
+
+  const weighted = sorted.reduce((sum, balance, index) => sum + (index + 1) * balance, 0);
+  return (2 * weighted) / (sorted.length * total) - (sorted.length + 1) / sorted.length;
+}
+
+// Every locked_detail entry of the LP holders, earliest unlock first. Burned LP
+// stays out of reach whatever its lock says, so its entries are skipped.
+function collectLpLocks(lpHolders) {
+  return lpHolders
+    .filter(holder => !isBurnAddress(holder.address))
+    .flatMap(holder => (Array.isArray(holder.locked_detail) ? holder.locked_detail : []).map(detail => ({
+      holder: holder.address,
+      holderPercent: toPercent(holder.percent),
+      amount: detail.amount,
+      unlockAt: parseUnlockTime(detail.end_time)
+    })))
+    .filter(lock => lock.unlockAt !== null)
+    .sort((a, b) => a.unlockAt - b.unlockAt);
+}
+
+// Holder analytics of a mapped Token. now decides which LP locks still count as upcoming.
+function analyzeHolders(token, now = Date.now()) {
+  const holders = Array.isArray(token.gpHolders) ? token.gpHolders : [];
+  const lpHolders = Array.isArray(token.gpLpHolders) ? token.gpLpHolders : [];
+
+  const byPercent = holders
+    .map(holder => ({ percent: toPercent(holder.percent), isContract: Boolean(holder.is_contract) }))
+    .sort((a, b) => b.percent - a.percent);
+  const listedPercent = byPercent.reduce((sum, holder) => sum + holder.percent, 0);
+  const contractPercent = byPercent
+    .filter(holder => holder.isContract)
+    .reduce((sum, holder) => sum + holder.percent, 0);
+
+  const lpShares = lpHolders.map(holder => ({
+    percent: toPercent(holder.percent),
+    burned: isBurnAddress(holder.address),
+    locked: Boolean(holder.is_locked)
+  }));
+  const sumLp = (shares) => shares.reduce((sum, share) => sum + share.percent, 0);
+  const upcomingLocks = collectLpLocks(lpHolders).filter(lock => lock.unlockAt > now);
+
+  return {
+    listedHolders: holders.length,
+    top10Percent: byPercent.slice(0, 10).reduce((sum, holder) => sum + holder.percent, 0),
+    gini: giniCoefficient(holders.map(holder => toBalance(holder.balance))),
+    contractPercent,
+    eoaPercent: listedPercent - contractPercent,
+    contractHolders: byPercent.filter(holder => holder.isContract).length,
+    lpLockedPercent: sumLp(lpShares.filter(share => share.locked && !share.burned)),
+    lpBurnedPercent: sumLp(lpShares.filter(share => share.burned)),
+    // Absolute time of the next LP unlock so the value only changes when the lock set does
+    nextLpUnlockAt: upcomingLocks.length > 0 ? upcomingLocks[0].unlockAt : null
+  };
+}
+
+module.exports = {
+  isBurnAddress,
+  parseUnlockTime,
+  collectLpLocks,
+  analyzeHolders
+};
@@ -1,6 +1,24 @@
 const express = require('express');
 const db = require('./db');
-const cors = require('cors');
+const changeTracker = require('./changeTracker');
+const { buildToken, diffTokens } = require('./tokenBuilder');
+const security = require('./security');
+const { recordScores, getScoreHistory } = require('./scoreHistory');
+const { QueryError, parseTokenQuery, queryTokens } = require('./tokenQuery');
+const sessionIndex = require('./sessionIndex');
+const { HistoryQueryError, parseMetrics, parseHistoryBatch, getTokenHistory, getTokenHistories, readNewHistoryPoints } = require('./tokenHistory');
+const { getSecurityHistory } = require('./securityHistory');
+const graveyard = require('./graveyard');
+const reputation = require('./reputation');
+const { checkForRugs, listRugAlerts, describeChecks } = require('./rugDetector');
+const alertRules = require('./alertRules');
+const webhooks = require('./webhooks');
+const watchlist = require('./watchlist');
+const lpUnlocks = require('./lpUnlocks');
+const { summarizeDisagreements } = require('./reconciliation');
+const { localhostCors, alertRulesRouter } = require('./sharedApi');
+const subscriptions = require('./subscriptions');
+const { RESUME_GRACE_MS, createEventLog } = require('./eventLog');
 const WebSocket = require('ws');
 const http = require('http');
 const util = require('util');
@@ -25,9 +43,14 @@ const PORT = 3002;
 const HEARTBEAT_INTERVAL = 30000; // 30 seconds
 const CLIENT_TIMEOUT = 35000; // 35 seconds
 
-// Track connected clients with their last heartbeat time
+// Track connected clients with their last heartbeat time and topic subscriptions
+// (null until the client subscribes, which keeps it on every event). heldSince is
+// the seq a new client connected at while its live events wait for its RESUME.
 const clients = new Map();
 
+// Sequence numbers and recent events for clients resuming after a drop
+const eventLog = createEventLog();
+
 function heartbeat() {
   this.isAlive = true;
   this.lastHeartbeat = Date.now();
@@ -60,7 +83,10 @@ wss.on('connection', (ws) => {
   
   ws.isAlive = true;
   ws.lastHeartbeat = Date.now();
-  clients.set(ws, { connectedAt: Date.now() });
+  const client = { connectedAt: Date.now(), subscriptions: null, heldSince: eventLog.lastSeq() };
+  clients.set(ws, client);
+  // Clients that never send RESUME get what they missed once the grace period ends
+  client.holdTimer = setTimeout(() => handleResume(ws, {}), RESUME_GRACE_MS);
   
   // Set up ping-pong
   ws.on('pong', heartbeat);
@@ -69,7 +95,9 @@ wss.on('connection', (ws) => {
   console.log('Sending connection confirmation...');
   ws.send(JSON.stringify({ 
     type: 'CONNECTED',
-    timestamp: Date.now()
+    timestamp: Date.now(),
+    streamId: eventLog.streamId,
+    seq: eventLog.lastSeq()
   }));
   
   ws.on('message', (message) => {
@@ -86,6 +114,16 @@ wss.on('connection', (ws) => {
         }));
         return;
       }
+
+      if (data.type === 'SUBSCRIBE' || data.type === 'UNSUBSCRIBE') {
+        handleSubscription(ws, data);
+        return;
+      }
+
+      if (data.type === 'RESUME') {
+        handleResume(ws, data);
+        return;
+      }
       
       console.log('Message processed successfully');
     } catch (err) {
@@ -97,6 +135,7 @@ wss.on('connection', (ws) => {
     console.log('\n=== WebSocket Connection Closed ===');
     connectedClients--;
     console.log('Remaining connections:', wss.clients.size - 1);
+    clearTimeout(client.holdTimer);
     clients.delete(ws);
   });
   
@@ -104,24 +143,86 @@ wss.on('connection', (ws) => {
     console.error('\n=== WebSocket Error ===');
     console.error(error);
     connectedClients--;
+    clearTimeout(client.holdTimer);
     clients.delete(ws);
   });
 });
 
-// Helper function to broadcast to all connected clients
-function broadcastToAll(data) {
+// Apply a SUBSCRIBE or UNSUBSCRIBE message and answer with the client's topics
+function handleSubscription(ws, data) {
+  const client = clients.get(ws);
+  if (!client) return;
+  try {
+    const updated = subscriptions.applySubscriptionMessage(new Map(client.subscriptions || []), data);
+    client.subscriptions = updated;
+    ws.send(JSON.stringify({
+      type: 'SUBSCRIBED',
+      topics: subscriptions.describeSubscriptions(updated)
+    }));
+  } catch (err) {
+    if (!(err instanceof subscriptions.SubscriptionError)) throw err;
+    ws.send(JSON.stringify({
+      type: 'SUBSCRIPTION_ERROR',
+      error: err.message
+    }));
+  }
+}
+
+// Send a client the events it missed, per its current subscriptions, and start
+// sending it live events. Without a streamId it missed those since it connected.
+function handleResume(ws, data) {
+  const client = clients.get(ws);
+  if (!client) return;
+  const request = data.streamId === undefined
+    ? { streamId: eventLog.streamId, lastSeq: client.heldSince !== null ? client.heldSince : eventLog.lastSeq() }
+    : data;
+  clearTimeout(client.holdTimer);
+  client.heldSince = null;
+  const replies = eventLog.resume(request, (event, subject) => subscriptions.messageFor(client.subscriptions, event, subject));
+  const summary = replies[replies.length - 1];
+  console.log(summary.type === 'RESUMED'
+    ? `Client resumed from seq ${request.lastSeq}, replaying ${summary.replayed} events`
+    : `Client must resync: ${summary.reason}`);
+  replies.forEach(reply => ws.send(JSON.stringify(reply)));
+}
+
+// Helper function to broadcast to the clients subscribed to an event. token is the
+// Token subscription filters are matched against, by default the tracked one, and
+// previous the token before a TOKEN_UPDATED. Every event gets the next sequence
+// number and is kept for RESUME.
+function broadcastToAll(data, { token, previous } = {}) {
   console.log('\n=== Broadcasting to All Clients ===');
   console.log('Number of clients:', wss.clients.size);
   console.log('Message type:', data.type);
   
-  const message = JSON.stringify(data);
+  const address = subscriptions.eventAddress(data);
+  const subject = {
+    token: token || (address && knownTokens.get(address)) || null,
+    previous: previous || null,
+    watched: watchlist.isWatched(address)
+  };
+  const event = eventLog.record(data, subject);
+  const message = JSON.stringify(event);
   let successCount = 0;
   let errorCount = 0;
+  let skippedCount = 0;
+  let heldCount = 0;
   
   wss.clients.forEach(client => {
+    const state = clients.get(client);
+    // Replayed to the client once it resumes
+    if (state && state.heldSince !== null) {
+      heldCount++;
+      return;
+    }
+    const routed = state ? subscriptions.messageFor(state.subscriptions, event, subject) : event;
+    if (!routed) {
+      skippedCount++;
+      return;
+    }
     if (client.readyState === WebSocket.OPEN) {
       try {
-        client.send(message);
+        client.send(routed === event ? message : JSON.stringify(routed));
         successCount++;
       } catch (err) {
         console.error('Error broadcasting to client:', err);
@@ -131,7 +232,7 @@ function broadcastToAll(data) {
     }
   });
   
-  console.log(`Broadcast complete - Success: ${successCount}, Errors: ${errorCount}`);
+  console.log(`Broadcast complete - Success: ${successCount}, Errors: ${errorCount}, Not subscribed: ${skippedCount}, Held: ${heldCount}`);
 }
 
 // Clean up dead connections periodically
@@ -160,11 +261,13 @@ const colors = {
 // Track connected clients
 let connectedClients = 0;
 
-// Keep track of the last token we've seen
-let lastKnownToken = null;
 let checkCounter = 0;
 let countdownValue = 10;
 
+// Formatted tokens the frontend already holds, keyed by address
+const knownTokens = new Map();
+let trackerPrimed = false;
+
 // Function to show countdown
 function showCountdown(seconds) {
   const spinChars = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
@@ -173,53 +276,171 @@ function showCountdown(seconds) {
   process.stdout.write(`\r${colors.cyan}${spinner} Next DB check in ${seconds}s${colors.reset}`);
 }
 
-// Function to check for new tokens
+// Load every current record into the known token map
+async function primeKnownTokens() {
+  const rows = await db.all('SELECT * FROM scan_records');
+  knownTokens.clear();
+  rows.forEach(row => knownTokens.set(row.token_address, buildToken(row)));
+  console.log(`Primed ${knownTokens.size} known tokens`);
+  await recordScores(db.getActiveSession(), [...knownTokens.values()]);
+  await alertRules.primeMatches([...knownTokens.values()]);
+}
+
+// Queue an event for the webhook targets subscribed to it, delivery happens in the background
+function dispatchWebhook(event, data) {
+  webhooks.dispatch(event, data).catch(err => console.error(`Error queueing ${event} webhooks:`, err));
+}
+
+// Log and broadcast a token the frontend hasn't seen yet
+function announceNewToken(row, formatted) {
+  console.log('\n' + '='.repeat(50));
+  console.log(`${colors.bright}${colors.green}🔔 TOKEN DETECTED SENDING NOTIFICATION TO FRONT END${colors.reset}`);
+  console.log('='.repeat(50));
+  console.log(`${colors.cyan}Token Address:${colors.reset} ${row.token_address}`);
+  console.log(`${colors.cyan}Token Name:${colors.reset}   ${row.token_name}`);
+  console.log(`${colors.cyan}Timestamp:${colors.reset}    ${row.scan_timestamp}`);
+  console.log('='.repeat(50));
+  console.log(`${colors.bright}${colors.yellow}📡 BROADCASTING TO FRONTEND...${colors.reset}`);
+  console.log('='.repeat(50) + '\n');
+
+  broadcastToAll({
+    type: 'NEW_TOKEN',
+    token: formatted
+  });
+  dispatchWebhook('NEW_TOKEN', { token: formatted });
+}
+
+// Turn one change tracker event into the matching WebSocket message
+function handleTokenChange(change) {
+  if (change.type === 'removed') {
+    // Subscription filters still match against the token as it was last scanned
+    const removed = knownTokens.get(change.address);
+    knownTokens.delete(change.address);
+    alertRules.forgetToken(change.address);
+    console.log(`${colors.yellow}Token removed from scan_records:${colors.reset} ${change.address}` +
+      (change.removal ? ` (moved to ${change.removal.table})` : ''));
+    broadcastToAll({
+      type: 'TOKEN_REMOVED',
+      address: change.address,
+      removal: change.removal && {
+        table: change.removal.table,
+        removalTimestamp: change.removal.removalTimestamp,
+        originalScanTimestamp: change.removal.originalScanTimestamp,
+        reason: change.removal.reason
+      }
+    }, { token: removed });
+    // Demotions also feed the graveyard view
+    if (change.removal) {
+      broadcastToAll({
+        type: 'TOKEN_DEMOTED',
+        token: change.removal
+      }, { token: removed });
+    }
+    return;
+  }
+
+  const formatted = buildToken(change.row);
+  const previous = knownTokens.get(change.address);
+  knownTokens.set(change.address, formatted);
+
+  if (!previous) {
+    announceNewToken(change.row, formatted);
+    return;
+  }
+
+  if (previous.securityLevel !== formatted.securityLevel) {
+    dispatchWebhook('SECURITY_LEVEL_CHANGED', {
+      token: formatted,
+      previousLevel: previous.securityLevel
+    });
+  }
+
+  // A rescan of a token the frontend already has only needs the changed fields
+  const changes = diffTokens(previous, formatted);
+  if (Object.keys(changes).length === 0) return;
+
+  console.log(`${colors.cyan}Token updated:${colors.reset} ${change.address} (${Object.keys(changes).join(', ')})`);
+  broadcastToAll({
+    type: 'TOKEN_UPDATED',
+    address: change.address,
+    changes,
+    scanTimestamp: change.row.scan_timestamp
+  }, { token: formatted, previous });
+}
+
+// Push the history rows each inserted or updated token gained this poll, so open
+// charts can append them without refetching
+async function publishHistoryPoints(session, changes) {
+  for (const change of changes.filter(change => change.type !== 'removed')) {
+    try {
+      const points = await readNewHistoryPoints(session, change.address, change.previousScanTimestamp);
+      points.forEach(point => broadcastToAll({
+        type: 'HISTORY_POINT',
+        address: change.address,
+        point
+      }));
+    } catch (err) {
+      console.error(`Error reading new history for ${change.address}:`, err.message);
+    }
+  }
+}
+
+// Function to check for new, updated and removed tokens
 async function checkForNewTokens() {
   try {
     checkCounter++;
     console.log('\n'); // Clear line before status
-    updateStatus('Checking for new tokens...', 'blue');
-    const latestToken = await db.get(`
-      SELECT * FROM scan_records 
-      ORDER BY scan_timestamp DESC 
-      LIMIT 1
-    `);
-
-    if (!latestToken) {
-      updateStatus('No tokens found', 'yellow');
+    updateStatus('Checking for token changes...', 'blue');
+
+    // First check records the baseline
+    if (!trackerPrimed) {
+      const count = await changeTracker.prime();
+      await primeKnownTokens();
+      trackerPrimed = true;
+      await checkLpUnlocks();
+      updateStatus(count > 0 ? `Initial ${count} tokens recorded` : 'No tokens found', count > 0 ? 'green' : 'yellow');
       return;
     }
 
-    // If this is our first check, just store the token
-    if (!lastKnownToken) {
-      lastKnownToken = latestToken;
-      updateStatus('Initial token recorded', 'green');
+    const session = db.getActiveSession();
+    const changes = await changeTracker.detectChanges();
+    if (session !== db.getActiveSession()) {
+      // The active session was switched mid-check, these changes belong to the old one
+      return;
+    }
+    if (changes.length === 0) {
+      updateStatus('No token changes', 'yellow');
       return;
     }
 
-    // Check if we have a new token by comparing timestamps
-    if (latestToken.scan_timestamp !== lastKnownToken.scan_timestamp) {
-      console.log('\n' + '='.repeat(50));
-      console.log(`${colors.bright}${colors.green}🔔 TOKEN DETECTED SENDING NOTIFICATION TO FRONT END${colors.reset}`);
-      console.log('='.repeat(50));
-      console.log(`${colors.cyan}Token Address:${colors.reset} ${latestToken.token_address}`);
-      console.log(`${colors.cyan}Token Name:${colors.reset}   ${latestToken.token_name}`);
-      console.log(`${colors.cyan}Timestamp:${colors.reset}    ${latestToken.scan_timestamp}`);
-      console.log('='.repeat(50));
-      console.log(`${colors.bright}${colors.yellow}📡 BROADCASTING TO FRONTEND...${colors.reset}`);
-      console.log('='.repeat(50) + '\n');
+    changes.forEach(handleTokenChange);
+    const changedTokens = changes
+      .filter(change => change.type !== 'removed')
+      .map(change => knownTokens.get(change.address));
+    await recordScores(session, changedTokens);
+    await publishHistoryPoints(session, changes);
 
-      // Broadcast the new token
+    // Tokens that started matching a saved alert rule
+    alertRules.matchTokens(changedTokens).forEach(({ rule, token }) => {
+      console.log(`${colors.green}Alert rule matched:${colors.reset} ${rule.name} -> ${token.address}`);
       broadcastToAll({
-        type: 'NEW_TOKEN',
-        token: latestToken
+        type: 'ALERT_MATCH',
+        rule,
+        token
       });
+    });
 
-      // Update our last known token
-      lastKnownToken = latestToken;
-    } else {
-      updateStatus('No new tokens', 'yellow');
-    }
+    // New history rows are checked for liquidity drains once their scores are stored
+    const rugAlerts = await checkForRugs(session, changes);
+    rugAlerts.forEach(alert => {
+      console.log(`${colors.red}Rug alert:${colors.reset} ${alert.address} (${alert.checks.map(check => check.id).join(', ')})`);
+      broadcastToAll({
+        type: 'RUG_ALERT',
+        alert
+      });
+      dispatchWebhook('RUG_ALERT', { alert, token: knownTokens.get(alert.address) || null });
+    });
+    updateStatus(`Processed ${changes.length} token change${changes.length !== 1 ? 's' : ''}`, 'green');
   } catch (err) {
     console.error('Error checking for new tokens:', err);
     updateStatus('Error checking tokens', 'red');
@@ -239,6 +460,47 @@ const tokenCheckInterval = setInterval(checkForNewTokens, CHECK_INTERVAL);
 // Run initial check
 checkForNewTokens();
 
+// Rebuild the cross-session index, then the wallet reputations derived from it
+async function refreshSessionIndex() {
+  const reindexed = await sessionIndex.refreshIndex();
+  if (reindexed > 0 || !reputation.isLoaded()) {
+    await reputation.refresh();
+  }
+}
+
+// Keep the cross-session index current, unchanged sessions are skipped
+const INDEX_INTERVAL = 60000; // 1 minute
+refreshSessionIndex().catch(err => console.error('Error building session index:', err));
+const indexInterval = setInterval(() => {
+  refreshSessionIndex().catch(err => console.error('Error refreshing session index:', err));
+}, INDEX_INTERVAL);
+
+// Retry webhook deliveries whose backoff has elapsed
+const WEBHOOK_INTERVAL = 5000; // 5 seconds
+const webhookInterval = setInterval(() => {
+  webhooks.processDue().catch(err => console.error('Error delivering webhooks:', err));
+}, WEBHOOK_INTERVAL);
+
+// Re-collect LP lock end times from the tracked tokens and warn about unlocks
+// that entered a lead time window
+async function checkLpUnlocks() {
+  if (!trackerPrimed) return;
+  lpUnlocks.refresh(knownTokens.values());
+  const warnings = await lpUnlocks.checkWarnings();
+  warnings.forEach(warning => {
+    console.log(`${colors.yellow}LP unlock in ${warning.minutesLeft} min:${colors.reset} ${warning.address} (${warning.holder})`);
+    broadcastToAll({
+      type: 'LP_UNLOCK_WARNING',
+      warning
+    });
+  });
+}
+
+const UNLOCK_INTERVAL = 60000; // 1 minute
+const unlockInterval = setInterval(() => {
+  checkLpUnlocks().catch(err => console.error('Error checking LP unlocks:', err));
+}, UNLOCK_INTERVAL);
+
 // Update status display
 function updateStatus(status, color = 'yellow') {
   const timestamp = new Date().toLocaleTimeString();
@@ -250,155 +512,19 @@ function updateStatus(status, color = 'yellow') {
 updateStatus('Starting server...', 'yellow');
 
 // Middleware
-app.use(cors({
-  origin: function(origin, callback) {
-    // Allow any localhost connection or no origin (like direct HTTP requests)
-    if (!origin || origin.startsWith('http://localhost:') || origin.startsWith('https://localhost:')) {
-      callback(null, true);
-    } else {
-      callback(new Error('Not allowed by CORS'));
-    }
-  },
-  methods: ['GET', 'POST', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
-  credentials: true
-}));
+app.use(localhostCors());
 app.use(express.json());
 
 // Broadcast new token to all connected clients
 function broadcastNewToken(token) {
   updateStatus('Broadcasting new token...', 'cyan');
-  console.log('Broadcasting new token:', token);
+  console.log('Broadcasting new token:', token.token_address);
   broadcastToAll({
     type: 'NEW_TOKEN',
-    token: {
-      // Basic token info
-      address: token.token_address,
-      name: token.token_name || `Token ${token.token_address?.slice(0, 6)}`,
-      symbol: token.token_symbol || 'TOKEN',
-      decimals: token.token_decimals,
-      totalSupply: token.token_total_supply,
-      ageHours: token.token_age_hours,
-      
-      // Pair info
-      pairAddress: token.pair_address,
-      reservesToken0: token.hp_pair_reserves0,
-      reservesToken1: token.hp_pair_reserves1,
-      creationTx: token.hp_creation_tx,
-      creationTime: token.hp_creation_time,
-      
-      // Honeypot analysis
-      isHoneypot: token.hp_is_honeypot === 1,
-      honeypotReason: token.hp_honeypot_reason,
-      riskLevel: token.hp_risk_level,
-      riskType: token.hp_risk_type,
-      
-      // Contract info
-      isOpenSource: token.hp_is_open_source === 1,
-      isProxy: token.hp_is_proxy === 1,
-      isMintable: token.hp_is_mintable === 1,
-      canBeMinted: token.hp_can_be_minted === 1,
-      hasProxyCalls: token.hp_has_proxy_calls === 1,
-      
-      // Tax and gas info
-      buyTax: token.hp_buy_tax,
-      sellTax: token.hp_sell_tax,
-      transferTax: token.hp_transfer_tax,
-      buyGas: token.hp_buy_gas_used,
-      sellGas: token.hp_sell_gas_used,
-      
-      // Ownership info
-      ownerAddress: token.hp_owner_address,
-      creatorAddress: token.hp_creator_address,
-      deployerAddress: token.hp_deployer_address,
-      
-      // GoPlus security info
-      gpIsOpenSource: token.gp_is_open_source === 1,
-      gpIsProxy: token.gp_is_proxy === 1,
-      gpIsMintable: token.gp_is_mintable === 1,
-      gpOwnerAddress: token.gp_owner_address,
-      gpCreatorAddress: token.gp_creator_address,
-      gpCanTakeBackOwnership: token.gp_can_take_back_ownership === 1,
-      gpOwnerChangeBalance: token.gp_owner_change_balance === 1,
-      gpHiddenOwner: token.gp_hidden_owner === 1,
-      gpSelfDestruct: token.gp_selfdestruct === 1,
-      gpExternalCall: token.gp_external_call === 1,
-      gpBuyTax: token.gp_buy_tax,
-      gpSellTax: token.gp_sell_tax,
-      gpIsAntiWhale: token.gp_is_anti_whale === 1,
-      gpAntiWhaleModifiable: token.gp_anti_whale_modifiable === 1,
-      gpCannotBuy: token.gp_cannot_buy === 1,
-      gpCannotSellAll: token.gp_cannot_sell_all === 1,
-      gpSlippageModifiable: token.gp_slippage_modifiable === 1,
-      gpPersonalSlippageModifiable: token.gp_personal_slippage_modifiable === 1,
-      gpTradingCooldown: token.gp_trading_cooldown === 1,
-      gpIsBlacklisted: token.gp_is_blacklisted === 1,
-      gpIsWhitelisted: token.gp_is_whitelisted === 1,
-      gpIsInDex: token.gp_is_in_dex === 1,
-      gpTransferPausable: token.gp_transfer_pausable === 1,
-      gpCanBeMinted: token.gp_can_be_minted === 1,
-      gpTotalSupply: token.gp_total_supply,
-      gpHolderCount: token.gp_holder_count,
-      gpOwnerPercent: token.gp_owner_percent,
-      gpOwnerBalance: token.gp_owner_balance,
-      gpCreatorPercent: token.gp_creator_percent,
-      gpCreatorBalance: token.gp_creator_balance,
-      gpLpHolderCount: token.gp_lp_holder_count,
-      gpLpTotalSupply: token.gp_lp_total_supply,
-      gpIsTrueToken: token.gp_is_true_token === 1,
-      gpIsAirdropScam: token.gp_is_airdrop_scam === 1,
-      gpHoneypotWithSameCreator: token.gp_honeypot_with_same_creator === 1,
-      gpFakeToken: token.gp_fake_token === 1,
-      
-      // Parse JSON fields
-      gpHolders: tryParseJSON(token.gp_holders, []),
-      gpLpHolders: tryParseJSON(token.gp_lp_holders, []),
-      gpDexInfo: tryParseJSON(token.gp_dex_info, []),
-      
-      // Additional metadata
-      totalScans: token.total_scans,
-      honeypotFailures: token.honeypot_failures,
-      lastError: token.last_error,
-      status: token.status,
-      
-      // Liquidity history
-      liq10: token.liq10,
-      liq20: token.liq20,
-      liq30: token.liq30,
-      liq40: token.liq40,
-      liq50: token.liq50,
-      liq60: token.liq60,
-      liq70: token.liq70,
-      liq80: token.liq80,
-      liq90: token.liq90,
-      liq100: token.liq100,
-      liq110: token.liq110,
-      liq120: token.liq120,
-      liq130: token.liq130,
-      liq140: token.liq140,
-      liq150: token.liq150,
-      liq160: token.liq160,
-      liq170: token.liq170,
-      liq180: token.liq180,
-      liq190: token.liq190,
-      liq200: token.liq200,
-      
-      // Scan info
-      scanTimestamp: token.scan_timestamp
-    }
+    token: buildToken(token)
   });
 }
 
-// Helper function to safely parse JSON
-function tryParseJSON(str, defaultValue = null) {
-  try {
-    return str ? JSON.parse(str) : defaultValue;
-  } catch (e) {
-    console.error('Error parsing JSON:', e);
-    return defaultValue;
-  }
-}
-
 // Test endpoint to simulate new token
 app.post('/api/test/new-token', async (req, res) => {
   try {
@@ -431,215 +557,403 @@ app.post('/api/test/new-token', async (req, res) => {
 
 // API Endpoints
 
-// Get all tokens
+// Get a filtered, sorted page of tokens
+// Query: minHolders, minLiquidity, minSafetyScore, securityLevels (danger,warning,safe), honeypot (any|hide|only),
+// q (name/symbol/address search), sortBy, sortDirection, limit, cursor, session
 app.get('/api/tokens', async (req, res) => {
   try {
     console.log('\n--- /api/tokens endpoint hit ---');
-    
-    // Debug database connection
-    if (!db) {
-      console.error('Database connection is not initialized');
-      throw new Error('Database connection not available');
-    }
-    
-    console.log('Querying database at:', db?.config?.connection?.filename || 'unknown location');
-    
-    const tokens = await db.all(`
+    const query = parseTokenQuery(req.query);
+    const sessionDb = await db.forSession(req.query.session);
+
+    const rows = await sessionDb.all(`
       SELECT *
       FROM scan_records
       ORDER BY scan_timestamp DESC
     `);
-    
-    console.log(`Found ${tokens.length} token records`);
-    
-    // Debug: Print full raw token data
-    console.log('\nFull raw token records:');
-    console.log(JSON.stringify(tokens, null, 2));
-    
-    // Also print first token with all fields
-    if (tokens.length > 0) {
-      console.log('\nFirst token record with all fields:');
-      Object.entries(tokens[0]).forEach(([key, value]) => {
-        console.log(`${key}: ${value}`);
-      });
-    } else {
-      console.log('No token records found in database');
-    }
+    console.log(`Found ${rows.length} token records`);
 
-    const formattedTokens = tokens.map(token => {
-      try {
-        // Parse JSON data with better error handling
-        let tokenData = {};
-        let honeypotData = {};
-        let goplusData = {};
-        
-        try {
-          tokenData = JSON.parse(token.token_data || '{}');
-        } catch (e) {
-          console.error(`Error parsing token_data for ${token.token_address}:`, e);
-        }
-        
-        try {
-          honeypotData = JSON.parse(token.honeypot_data || '{}');
-        } catch (e) {
-          console.error(`Error parsing honeypot_data for ${token.token_address}:`, e);
-        }
-        
-        try {
-          goplusData = JSON.parse(token.goplus_data || '{}');
-        } catch (e) {
-          console.error(`Error parsing goplus_data for ${token.token_address}:`, e);
-        }
+    const result = queryTokens(rows.map(buildToken), query);
+    console.log(`Returning ${result.tokens.length} of ${result.total} matching tokens`);
 
-        // Extract and normalize all data fields
-        const hpSimulation = honeypotData.simulation || {};
-        const hpPair = honeypotData.pair || {};
-        const hpContract = honeypotData.contract || {};
-        const gpSecurity = goplusData.security || {};
-        const gpTaxes = goplusData.taxes || {};
-        const gpHolders = goplusData.holders || {};
-        const gpDex = goplusData.dex || {};
-        const gpLiquidity = goplusData.liquidity || {};
-        const gpOwnership = goplusData.ownership || {};
-
-        // Create complete token object preserving original values
-        const tokenObject = {
-          // Basic token info
-          address: token.token_address,
-          name: token.token_name || `Token ${token.token_address?.slice(0, 6)}`,
-          symbol: token.token_symbol || 'TOKEN',
-          decimals: token.token_decimals,
-          totalSupply: token.token_total_supply,
-          ageHours: token.token_age_hours,
-          
-          // Pair info
-          pairAddress: token.pair_address,
-          reservesToken0: token.hp_pair_reserves0,
-          reservesToken1: token.hp_pair_reserves1,
-          creationTx: token.hp_creation_tx,
-          creationTime: token.hp_creation_time,
-          
-          // Honeypot analysis
-          isHoneypot: token.hp_is_honeypot === 1,
-          honeypotReason: token.hp_honeypot_reason,
-          riskLevel: token.hp_risk_level,
-          riskType: token.hp_risk_type,
-          
-          // Contract info
-          isOpenSource: token.hp_is_open_source === 1,
-          isProxy: token.hp_is_proxy === 1,
-          isMintable: token.hp_is_mintable === 1,
-          canBeMinted: token.hp_can_be_minted === 1,
-          hasProxyCalls: token.hp_has_proxy_calls === 1,
-          
-          // Tax and gas info
-          buyTax: token.hp_buy_tax,
-          sellTax: token.hp_sell_tax,
-          transferTax: token.hp_transfer_tax,
-          buyGas: token.hp_buy_gas_used,
-          sellGas: token.hp_sell_gas_used,
-          
-          // Ownership info
-          ownerAddress: token.hp_owner_address,
-          creatorAddress: token.hp_creator_address,
-          deployerAddress: token.hp_deployer_address,
-          
-          // GoPlus security info
-          gpIsOpenSource: token.gp_is_open_source === 1,
-          gpIsProxy: token.gp_is_proxy === 1,
-          gpIsMintable: token.gp_is_mintable === 1,
-          gpOwnerAddress: token.gp_owner_address,
-          gpCreatorAddress: token.gp_creator_address,
-          gpCanTakeBackOwnership: token.gp_can_take_back_ownership === 1,
-          gpOwnerChangeBalance: token.gp_owner_change_balance === 1,
-          gpHiddenOwner: token.gp_hidden_owner === 1,
-          gpSelfDestruct: token.gp_selfdestruct === 1,
-          gpExternalCall: token.gp_external_call === 1,
-          gpBuyTax: token.gp_buy_tax,
-          gpSellTax: token.gp_sell_tax,
-          gpIsAntiWhale: token.gp_is_anti_whale === 1,
-          gpAntiWhaleModifiable: token.gp_anti_whale_modifiable === 1,
-          gpCannotBuy: token.gp_cannot_buy === 1,
-          gpCannotSellAll: token.gp_cannot_sell_all === 1,
-          gpSlippageModifiable: token.gp_slippage_modifiable === 1,
-          gpPersonalSlippageModifiable: token.gp_personal_slippage_modifiable === 1,
-          gpTradingCooldown: token.gp_trading_cooldown === 1,
-          gpIsBlacklisted: token.gp_is_blacklisted === 1,
-          gpIsWhitelisted: token.gp_is_whitelisted === 1,
-          gpIsInDex: token.gp_is_in_dex === 1,
-          gpTransferPausable: token.gp_transfer_pausable === 1,
-          gpCanBeMinted: token.gp_can_be_minted === 1,
-          gpTotalSupply: token.gp_total_supply,
-          gpHolderCount: token.gp_holder_count,
-          gpOwnerPercent: token.gp_owner_percent,
-          gpOwnerBalance: token.gp_owner_balance,
-          gpCreatorPercent: token.gp_creator_percent,
-          gpCreatorBalance: token.gp_creator_balance,
-          gpLpHolderCount: token.gp_lp_holder_count,
-          gpLpTotalSupply: token.gp_lp_total_supply,
-          gpIsTrueToken: token.gp_is_true_token === 1,
-          gpIsAirdropScam: token.gp_is_airdrop_scam === 1,
-          gpHoneypotWithSameCreator: token.gp_honeypot_with_same_creator === 1,
-          gpFakeToken: token.gp_fake_token === 1,
-          
-          // Holders and LP info
-          gpHolders: JSON.parse(token.gp_holders || '[]'),
-          gpLpHolders: JSON.parse(token.gp_lp_holders || '[]'),
-          
-          // DEX info
-          gpDexInfo: JSON.parse(token.gp_dex_info || '[]'),
-          
-          // Additional metadata
-          totalScans: token.total_scans,
-          honeypotFailures: token.honeypot_failures,
-          lastError: token.last_error,
-          status: token.status,
-          
-          // Liquidity history
-          liq10: token.liq10,
-          liq20: token.liq20,
-          liq30: token.liq30,
-          liq40: token.liq40,
-          liq50: token.liq50,
-          liq60: token.liq60,
-          liq70: token.liq70,
-          liq80: token.liq80,
-          liq90: token.liq90,
-          liq100: token.liq100,
-          liq110: token.liq110,
-          liq120: token.liq120,
-          liq130: token.liq130,
-          liq140: token.liq140,
-          liq150: token.liq150,
-          liq160: token.liq160,
-          liq170: token.liq170,
-          liq180: token.liq180,
-          liq190: token.liq190,
-          liq200: token.liq200,
-          
-          // Scan info
-          scanTimestamp: token.scan_timestamp
-        };
-
-        return tokenObject;
-      } catch (error) {
-        console.error('Error parsing token data:', error);
-        return null;
-      }
-    }).filter(Boolean);
-    res.setHeader('Content-Type', 'application/json');
-    res.send(JSON.stringify({ tokens: formattedTokens }, null, 2));
+    res.json(result);
   } catch (err) {
+    if (err instanceof QueryError) {
+      return res.status(400).json({ error: err.message });
+    }
+    if (err instanceof db.SessionError) {
+      return res.status(404).json({ error: err.message });
+    }
     console.error('Error fetching tokens:', err);
     res.status(500).json({ error: 'Failed to fetch tokens' });
   }
 });
 
+// Tokens the monitor moved out of scan_records, most recently removed first
+// Query: table (HONEYPOTS|xHoneypot_removed), q, limit, before (removal timestamp), session
+app.get('/api/graveyard', async (req, res) => {
+  try {
+    const query = graveyard.parseGraveyardQuery(req.query);
+    const sessionDb = await db.forSession(req.query.session);
+    const result = await graveyard.listRemovedTokens(sessionDb, query);
+    res.json(result);
+  } catch (err) {
+    if (err instanceof graveyard.GraveyardQueryError) {
+      return res.status(400).json({ error: err.message });
+    }
+    if (err instanceof db.SessionError) {
+      return res.status(404).json({ error: err.message });
+    }
+    console.error('Error fetching graveyard:', err);
+    res.status(500).json({ error: 'Failed to fetch graveyard' });
+  }
+});
+
+// One removed token with its removal details
+app.get('/api/graveyard/:address', async (req, res) => {
+  try {
+    const sessionDb = await db.forSession(req.query.session);
+    const token = await graveyard.findRemovedToken(sessionDb, req.params.address);
+    if (!token) {
+      return res.status(404).json({ error: 'Token not found in graveyard' });
+    }
+    res.json(token);
+  } catch (err) {
+    if (err instanceof db.SessionError) {
+      return res.status(404).json({ error: err.message });
+    }
+    console.error('Error fetching removed token:', err);
+    res.status(500).json({ error: 'Failed to fetch removed token' });
+  }
+});
+
+// How often Honeypot.is and GoPlus disagree on each compared field across a session's tokens
+app.get('/api/reconciliation', async (req, res) => {
+  try {
+    const sessionDb = await db.forSession(req.query.session);
+    const rows = await sessionDb.all('SELECT * FROM scan_records');
+    res.json(summarizeDisagreements(rows));
+  } catch (err) {
+    if (err instanceof db.SessionError) {
+      return res.status(404).json({ error: err.message });
+    }
+    console.error('Error summarizing provider disagreements:', err);
+    res.status(500).json({ error: 'Failed to summarize provider disagreements' });
+  }
+});
+
+// Stored rug alerts from every session, newest first, with the active checks
+app.get('/api/rug-alerts', async (req, res) => {
+  const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+    return res.status(400).json({ error: 'limit must be an integer between 1 and 1000' });
+  }
+
+  try {
+    const alerts = await listRugAlerts(limit);
+    res.json({ alerts, checks: describeChecks() });
+  } catch (err) {
+    console.error('Error fetching rug alerts:', err);
+    res.status(500).json({ error: 'Failed to fetch rug alerts' });
+  }
+});
+
+// Upcoming LP unlocks of the tracked tokens, earliest first
+app.get('/api/lp-unlocks', (req, res) => {
+  const limit = req.query.limit === undefined ? 200 : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+    return res.status(400).json({ error: 'limit must be an integer between 1 and 1000' });
+  }
+  const withinHours = req.query.withinHours === undefined ? null : Number(req.query.withinHours);
+  if (withinHours !== null && !(withinHours > 0)) {
+    return res.status(400).json({ error: 'withinHours must be a positive number' });
+  }
+
+  res.json({
+    unlocks: lpUnlocks.listUpcoming({ withinMs: withinHours === null ? null : withinHours * 3600000, limit }),
+    leadTimesMinutes: lpUnlocks.leadTimes
+  });
+});
+
+// Search every session for tokens by address, name or symbol
+app.get('/api/search', async (req, res) => {
+  const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  const limit = req.query.limit === undefined ? 50 : Number(req.query.limit);
+
+  if (q.length < 2) {
+    return res.status(400).json({ error: 'q must be at least 2 characters' });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    return res.status(400).json({ error: 'limit must be an integer between 1 and 500' });
+  }
+
+  try {
+    await refreshSessionIndex();
+    const results = await sessionIndex.searchTokens(q, limit);
+    res.json({ results });
+  } catch (err) {
+    console.error('Error searching tokens:', err);
+    res.status(500).json({ error: 'Failed to search tokens' });
+  }
+});
+
+// Every token a wallet created or deployed, across all sessions, with honeypot/rug/survivor counts
+app.get('/api/creators/:address', async (req, res) => {
+  try {
+    const report = await reputation.getCreatorReport(req.params.address);
+    if (!report) {
+      return res.status(404).json({ error: 'No launches found for wallet' });
+    }
+    res.json(report);
+  } catch (err) {
+    console.error('Error fetching creator report:', err);
+    res.status(500).json({ error: 'Failed to fetch creator report' });
+  }
+});
+
+// Session folders in the monitor directory with token counts and scan time ranges
+app.get('/api/sessions', async (req, res) => {
+  try {
+    const sessions = await db.listSessions();
+    res.json({ active: db.getActiveSession(), sessions });
+  } catch (err) {
+    console.error('Error listing sessions:', err);
+    res.status(500).json({ error: 'Failed to list sessions' });
+  }
+});
+
+// Switch the live session without restarting. The tracker is re-primed
+// against the new database and clients are told to reload.
+app.post('/api/sessions/active', async (req, res) => {
+  const { name } = req.body || {};
+  if (typeof name !== 'string' || !name) {
+    return res.status(400).json({ error: 'name is required' });
+  }
+
+  try {
+    const previous = db.getActiveSession();
+    const active = await db.setActiveSession(name);
+    if (active !== previous) {
+      changeTracker.reset();
+      knownTokens.clear();
+      trackerPrimed = false;
+      await checkForNewTokens();
+      updateStatus(`Switched to session ${active}`, 'cyan');
+      broadcastToAll({
+        type: 'SESSION_CHANGED',
+        session: active
+      });
+    }
+    res.json({ active });
+  } catch (err) {
+    if (err instanceof db.SessionError) {
+      return res.status(404).json({ error: err.message });
+    }
+    console.error('Error switching session:', err);
+    res.status(500).json({ error: 'Failed to switch session' });
+  }
+});
+
+// Effective security rules after the rules file is applied
+app.get('/api/security/rules', (req, res) => {
+  res.json({ rules: security.describeRules() });
+});
+
+// Re-read the security rules file without restarting
+app.post('/api/security/rules/reload', async (req, res) => {
+  try {
+    const rules = security.reloadRules();
+    await primeKnownTokens();
+    res.json({ rules });
+  } catch (err) {
+    console.error('Error reloading security rules:', err);
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.use('/api/alert-rules', alertRulesRouter(() => knownTokens.values()));
+
+// Webhook targets (secrets omitted) and the events they can subscribe to
+app.get('/api/webhooks', async (req, res) => {
+  try {
+    const targets = await webhooks.listTargets();
+    res.json({ targets, events: webhooks.EVENT_TYPES });
+  } catch (err) {
+    console.error('Error fetching webhooks:', err);
+    res.status(500).json({ error: 'Failed to fetch webhooks' });
+  }
+});
+
+// Delivery log across targets, newest first
+app.get('/api/webhooks/deliveries', async (req, res) => {
+  try {
+    const deliveries = await webhooks.listDeliveries(webhooks.parseDeliveryQuery(req.query));
+    res.json({ deliveries });
+  } catch (err) {
+    if (err instanceof webhooks.WebhookError) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error('Error fetching webhook deliveries:', err);
+    res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+  }
+});
+
+// The response is the only place the signing secret is returned
+app.post('/api/webhooks', async (req, res) => {
+  try {
+    const target = await webhooks.createTarget(req.body);
+    res.status(201).json(target);
+  } catch (err) {
+    if (err instanceof webhooks.WebhookError) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error('Error creating webhook:', err);
+    res.status(500).json({ error: 'Failed to create webhook' });
+  }
+});
+
+app.put('/api/webhooks/:id', async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ error: 'id must be an integer' });
+  }
+
+  try {
+    const target = await webhooks.updateTarget(id, req.body);
+    if (!target) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    res.json(target);
+  } catch (err) {
+    if (err instanceof webhooks.WebhookError) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error('Error updating webhook:', err);
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+app.delete('/api/webhooks/:id', async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ error: 'id must be an integer' });
+  }
+
+  try {
+    if (!await webhooks.deleteTarget(id)) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    res.status(204).end();
+  } catch (err) {
+    console.error('Error deleting webhook:', err);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+// Queue a signed TEST event for one target, check the delivery log for the outcome
+app.post('/api/webhooks/:id/test', async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ error: 'id must be an integer' });
+  }
+
+  try {
+    const deliveryId = await webhooks.sendTest(id);
+    if (deliveryId === null) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    res.status(202).json({ deliveryId });
+  } catch (err) {
+    console.error('Error sending test webhook:', err);
+    res.status(500).json({ error: 'Failed to send test webhook' });
+  }
+});
+
+// Watched tokens with their note, tags and current state in the session
+app.get('/api/watchlist', async (req, res) => {
+  try {
+    const sessionDb = await db.forSession(req.query.session);
+    const entries = await watchlist.listWatchlist(sessionDb);
+    res.json({ entries });
+  } catch (err) {
+    if (err instanceof db.SessionError) {
+      return res.status(404).json({ error: err.message });
+    }
+    console.error('Error fetching watchlist:', err);
+    res.status(500).json({ error: 'Failed to fetch watchlist' });
+  }
+});
+
+// Watch a token, or update the note and tags of a watched one
+app.put('/api/watchlist/:address', async (req, res) => {
+  try {
+    const { entry, created } = await watchlist.saveEntry(req.params.address, req.body);
+    broadcastToAll({
+      type: 'WATCHLIST_CHANGED',
+      address: entry.address,
+      entry
+    });
+    res.status(created ? 201 : 200).json(entry);
+  } catch (err) {
+    if (err instanceof watchlist.WatchlistError) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error('Error saving watchlist entry:', err);
+    res.status(500).json({ error: 'Failed to save watchlist entry' });
+  }
+});
+
+app.delete('/api/watchlist/:address', async (req, res) => {
+  try {
+    if (!await watchlist.removeEntry(req.params.address)) {
+      return res.status(404).json({ error: 'Token is not on the watchlist' });
+    }
+    broadcastToAll({
+      type: 'WATCHLIST_CHANGED',
+      address: req.params.address,
+      entry: null
+    });
+    res.status(204).end();
+  } catch (err) {
+    console.error('Error removing watchlist entry:', err);
+    res.status(500).json({ error: 'Failed to remove watchlist entry' });
+  }
+});
+
+// Stored model scores for a token, one point per scan
+app.get('/api/tokens/:address/scores', async (req, res) => {
+  try {
+    const history = await getScoreHistory(req.params.address);
+    res.json({ history });
+  } catch (err) {
+    console.error('Error fetching token scores:', err);
+    res.status(500).json({ error: 'Failed to fetch token scores' });
+  }
+});
+
+// Security classification of every stored scan, reduced to the scans where it changed
+app.get('/api/tokens/:address/security-history', async (req, res) => {
+  try {
+    const { timeline, scanCount, sources } = await getSecurityHistory(req.params.address, req.query.session);
+    if (sources.length === 0) {
+      return res.status(404).json({ error: 'No history table found for token' });
+    }
+    res.json({ timeline, scanCount, sessions: sources.map(source => source.session) });
+  } catch (err) {
+    if (err instanceof db.SessionError) {
+      return res.status(404).json({ error: err.message });
+    }
+    console.error('Error fetching security history:', err);
+    res.status(500).json({ error: 'Failed to fetch security history' });
+  }
+});
+
 // Get token details
 app.get('/api/tokens/:address', async (req, res) => {
   const { address } = req.params;
   try {
-    const token = await db.get(`
+    const sessionDb = await db.forSession(req.query.session);
+    const token = await sessionDb.get(`
       SELECT * FROM scan_records
       WHERE token_address = ?
     `, [address]);
@@ -650,6 +964,9 @@ app.get('/api/tokens/:address', async (req, res) => {
       res.status(404).json({ error: 'Token not found' });
     }
   } catch (err) {
+    if (err instanceof db.SessionError) {
+      return res.status(404).json({ error: err.message });
+    }
     console.error('Error fetching token:', err);
     res.status(500).json({ error: 'Failed to fetch token' });
   }
@@ -658,150 +975,87 @@ app.get('/api/tokens/:address', async (req, res) => {
 // Debug endpoint to show raw database records
 app.get('/api/debug/records', async (req, res) => {
   try {
-    const records = await db.all('SELECT * FROM scan_records');
+    const sessionDb = await db.forSession(req.query.session);
+    const records = await sessionDb.all('SELECT * FROM scan_records');
     res.setHeader('Content-Type', 'application/json');
     res.send(JSON.stringify(records, null, 2));
   } catch (err) {
+    if (err instanceof db.SessionError) {
+      return res.status(404).json({ error: err.message });
+    }
     console.error('Error fetching debug records:', err);
     res.status(500).json({ error: 'Failed to fetch debug records' });
   }
 });
 
-// Get token history
+// Get token history, stitched across every session unless ?session= picks one.
+// ?metrics= picks the chart groups, liquidity and holders by default.
 app.get('/api/tokens/:address/history', async (req, res) => {
   const address = req.params.address;
-  console.log('\n=== Token History Request ===');
-  console.log('Token address:', address);
 
   try {
-    // Find token in scan_records
-    const token = await db.get(
-      'SELECT token_name, token_address FROM scan_records WHERE LOWER(token_address) = LOWER(?)',
-      [address]
-    );
-    console.log('Token found in scan_records:', token);
+    const metrics = parseMetrics(req.query.metrics);
+    const { history, sources } = await getTokenHistory(address, req.query.session, metrics);
 
-    if (!token) {
-      return res.status(404).json({ error: 'Token not found' });
-    }
-
-    // Find matching history table
-    const tables = await db.all(
-      "SELECT name FROM sqlite_master WHERE type='table' AND name LIKE ?",
-      [`%${address.toLowerCase()}%`]
-    );
-    console.log('Found tables with matching address:', tables);
-
-    if (tables.length === 0) {
+    if (sources.length === 0) {
       return res.status(404).json({ error: 'No history table found for token' });
     }
 
-    const historyTable = tables[0].name;
-    console.log('Using history table:', historyTable);
-
-    // First get table info to see what columns exist
-    const tableInfo = await db.all(`PRAGMA table_info("${historyTable}")`);
-    console.log('Table structure:', tableInfo);
-
-    // Build query based on available columns
-    const hasHPLiquidity = tableInfo.some(col => col.name === 'hp_liquidity_amount');
-    const hasGPLiquidity = tableInfo.some(col => col.name === 'gp_dex_info');
-    const hasTimestamp = tableInfo.some(col => col.name === 'scan_timestamp');
-    const hasHolderCount = tableInfo.some(col => col.name === 'gp_holder_count');
-    const hasLpHolderCount = tableInfo.some(col => col.name === 'gp_lp_holder_count');
-
-    if (!hasTimestamp) {
-      throw new Error('Table is missing required timestamp column');
-    }
-
-    let selectClauses = ['scan_timestamp'];
-    if (hasHPLiquidity) selectClauses.push('hp_liquidity_amount');
-    if (hasGPLiquidity) selectClauses.push('gp_dex_info');
-    if (hasHolderCount) selectClauses.push('gp_holder_count');
-    if (hasLpHolderCount) selectClauses.push('gp_lp_holder_count');
-
-    // Query history data
-    const query = `
-      SELECT ${selectClauses.join(', ')}
-      FROM "${historyTable}"
-      ORDER BY scan_timestamp ASC
-    `;
-    console.log('Executing query:', query);
-
-    const history = await db.all(query);
-    console.log('Raw history data:', history);
-    
-    if (!history || history.length === 0) {
+    if (history.length === 0) {
       return res.status(404).json({ error: 'No liquidity history available' });
     }
 
-    // Transform data for chart
-    const chartData = history.map(record => {
-      const timestamp = new Date(record.scan_timestamp).getTime(); // Convert to Unix timestamp in ms
-      let hpLiquidity = 0;
-      let gpLiquidity = 0;
-      let holderCount = record.gp_holder_count || 0;
-      let lpHolderCount = record.gp_lp_holder_count || 0;
-
-      if (record.hp_liquidity_amount) {
-        hpLiquidity = parseFloat(record.hp_liquidity_amount);
-      }
-
-      if (record.gp_dex_info) {
-        try {
-          const dexInfo = JSON.parse(record.gp_dex_info);
-          if (Array.isArray(dexInfo) && dexInfo[0] && dexInfo[0].liquidity) {
-            gpLiquidity = parseFloat(dexInfo[0].liquidity);
-          }
-        } catch (e) {
-          console.error('Error parsing gp_dex_info:', e);
-        }
-      }
-
-      return {
-        timestamp,
-        hpLiquidity,
-        gpLiquidity,
-        totalLiquidity: hpLiquidity + gpLiquidity,
-        holderCount,
-        lpHolderCount
-      };
-    }).filter(point => !isNaN(point.hpLiquidity) || !isNaN(point.gpLiquidity));
-
-    console.log('Transformed chart data:', chartData);
-
     // Add debug info to the response
     const debugInfo = {
-      tableName: historyTable,
+      tableName: [...new Set(sources.map(source => source.table))].join(', '),
+      sessions: sources.map(source => source.session),
       recordCount: history.length,
-      highestLiquidity: Math.max(...chartData.map(d => d.totalLiquidity)),
-      lowestLiquidity: Math.min(...chartData.map(d => d.totalLiquidity)),
+      highestLiquidity: metrics.includes('liquidity') ? Math.max(...history.map(d => d.totalLiquidity)) : null,
+      lowestLiquidity: metrics.includes('liquidity') ? Math.min(...history.map(d => d.totalLiquidity)) : null,
       timeRange: {
-        start: new Date(Math.min(...chartData.map(d => d.timestamp))).toLocaleString(),
-        end: new Date(Math.max(...chartData.map(d => d.timestamp))).toLocaleString()
+        start: new Date(history[0].timestamp).toLocaleString(),
+        end: new Date(history[history.length - 1].timestamp).toLocaleString()
       }
     };
-
-    console.log('\n=== Chart Debug Info ===');
-    console.log('Table name:', debugInfo.tableName);
-    console.log('Number of records:', debugInfo.recordCount);
-    console.log('Highest liquidity:', debugInfo.highestLiquidity);
-    console.log('Lowest liquidity:', debugInfo.lowestLiquidity);
-    console.log('Time range:', debugInfo.timeRange);
-    console.log('First 3 records:', chartData.slice(0, 3));
-    console.log('Last 3 records:', chartData.slice(-3));
+    console.log(`History for ${address}: ${history.length} points from ${debugInfo.sessions.length} session(s)`);
 
     res.json({ 
-      history: chartData,
+      history,
+      metrics,
       debug: debugInfo
     });
 
   } catch (err) {
+    if (err instanceof HistoryQueryError) {
+      return res.status(400).json({ error: err.message });
+    }
+    if (err instanceof db.SessionError) {
+      return res.status(404).json({ error: err.message });
+    }
     console.error('Error fetching token history:', err);
     res.status(500).json({ error: 'Failed to fetch token history' });
   }
 });
 
+// History of many tokens at once. Body: { addresses, since (unix ms), metrics, session }.
+// With since only later points are returned, so clients can top up what they hold.
+app.post('/api/history', async (req, res) => {
+  try {
+    const batch = parseHistoryBatch(req.body);
+    const histories = await getTokenHistories(batch);
+    res.json({ histories, metrics: batch.metrics, since: batch.since });
+  } catch (err) {
+    if (err instanceof HistoryQueryError) {
+      return res.status(400).json({ error: err.message });
+    }
+    if (err instanceof db.SessionError) {
+      return res.status(404).json({ error: err.message });
+    }
+    console.error('Error fetching token histories:', err);
+    res.status(500).json({ error: 'Failed to fetch token histories' });
+  }
+});
+
 // Add this before starting the server
 async function printLatestRecord() {
   try {
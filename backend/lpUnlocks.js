@@ -0,0 +1,77 @@
+const fs = require('fs');
+const path = require('path');
+const store = require('./store');
+const { collectLpLocks } = require('./holderAnalytics');
+
+const CONFIG_PATH = process.env.LP_UNLOCK_CONFIG_PATH || path.join(__dirname, 'config', 'lpUnlocks.json');
+
+// Warning lead times in minutes, widest first
+function loadLeadTimes(configPath = CONFIG_PATH) {
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  const leadTimes = config.leadTimesMinutes;
+
+  if (!Array.isArray(leadTimes) || leadTimes.some(lead => !Number.isInteger(lead) || lead <= 0)) {
+    throw new Error(`leadTimesMinutes must be an array of positive integers in ${configPath}`);
+  }
+  return [...new Set(leadTimes)].sort((a, b) => b - a);
+}
+
+const leadTimes = loadLeadTimes();
+console.log(`Loaded LP unlock lead times ${leadTimes.join(', ')} minutes from ${CONFIG_PATH}`);
+
+// Upcoming unlocks of the tracked tokens, earliest first, rebuilt by refresh
+let unlocks = [];
+
+// Collect the future LP lock end times of the given Tokens
+function refresh(tokens, now = Date.now()) {
+  unlocks = [...tokens]
+    .flatMap(token => collectLpLocks(Array.isArray(token.gpLpHolders) ? token.gpLpHolders : [])
+      .filter(lock => lock.unlockAt > now)
+      .map(lock => ({
+        address: token.address,
+        name: token.name || 'Unknown',
+        symbol: token.symbol || 'UNKNOWN',
+        ...lock
+      })))
+    .sort((a, b) => a.unlockAt - b.unlockAt);
+  return unlocks.length;
+}
+
+// Unlocks still ahead, optionally only those within `withinMs`
+function listUpcoming({ withinMs = null, limit = 200 } = {}, now = Date.now()) {
+  return unlocks
+    .filter(unlock => unlock.unlockAt > now && (withinMs === null || unlock.unlockAt - now <= withinMs))
+    .slice(0, limit);
+}
+
+// Warnings for locks that entered a lead time window since the last check.
+// Only the tightest window a lock is in fires, so a token first seen an hour
+// before its unlock is not warned about the day-ahead window as well.
+async function checkWarnings(now = Date.now()) {
+  const warnings = [];
+
+  for (const unlock of listUpcoming({ limit: Infinity }, now)) {
+    const minutesLeft = (unlock.unlockAt - now) / 60000;
+    const crossed = leadTimes.filter(lead => minutesLeft <= lead);
+    if (crossed.length === 0) continue;
+
+    const leadMinutes = crossed[crossed.length - 1];
+    const result = await store.run(`
+      INSERT OR IGNORE INTO lp_unlock_warnings (token_address, holder_address, unlock_at, lead_minutes, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `, [unlock.address, unlock.holder, unlock.unlockAt, leadMinutes, now]);
+
+    if (result.changes > 0) {
+      warnings.push({ ...unlock, leadMinutes, minutesLeft: Math.ceil(minutesLeft) });
+    }
+  }
+
+  return warnings;
+}
+
+module.exports = {
+  leadTimes,
+  refresh,
+  listUpcoming,
+  checkWarnings
+};
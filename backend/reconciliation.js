@@ -0,0 +1,126 @@
+const fs = require('fs');
+const path = require('path');
+const { TOKEN_SCHEMA, mapTokenRow } = require('./tokenMapper');
+
+const CONFIG_PATH = process.env.RECONCILIATION_CONFIG_PATH || path.join(__dirname, 'config', 'reconciliation.json');
+
+const sameAddress = (a, b) => String(a).toLowerCase() === String(b).toLowerCase();
+
+// Token fields both providers report: the Honeypot.is field, its GoPlus twin and
+// how to compare them. Tolerances come from the config file.
+const PAIR_DEFINITIONS = [
+  { field: 'isOpenSource', gpField: 'gpIsOpenSource', label: 'Open source', kind: 'boolean' },
+  { field: 'isProxy', gpField: 'gpIsProxy', label: 'Proxy', kind: 'boolean' },
+  { field: 'isMintable', gpField: 'gpIsMintable', label: 'Mintable', kind: 'boolean' },
+  { field: 'canBeMinted', gpField: 'gpCanBeMinted', label: 'Can be minted', kind: 'boolean' },
+  { field: 'buyTax', gpField: 'gpBuyTax', label: 'Buy tax', kind: 'number' },
+  { field: 'sellTax', gpField: 'gpSellTax', label: 'Sell tax', kind: 'number' },
+  { field: 'ownerAddress', gpField: 'gpOwnerAddress', label: 'Owner address', kind: 'address' },
+  { field: 'creatorAddress', gpField: 'gpCreatorAddress', label: 'Creator address', kind: 'address' }
+];
+
+const DISAGREES = {
+  boolean: (hp, gp) => hp !== gp,
+  number: (hp, gp, tolerance) => Math.abs(hp - gp) > tolerance,
+  address: (hp, gp) => !sameAddress(hp, gp)
+};
+
+// Merge the config file over the definitions. Pairs missing from the file are
+// not compared, like the security rules.
+function loadPairs(configPath = CONFIG_PATH) {
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  const overrides = config.fields || {};
+
+  Object.keys(overrides).forEach(field => {
+    if (!PAIR_DEFINITIONS.some(pair => pair.field === field)) {
+      throw new Error(`Unknown reconciliation field in ${configPath}: ${field}`);
+    }
+  });
+
+  return PAIR_DEFINITIONS
+    .filter(pair => overrides[pair.field] && overrides[pair.field].enabled !== false)
+    .map(pair => {
+      const tolerance = overrides[pair.field].tolerance === undefined ? 0 : overrides[pair.field].tolerance;
+      if (typeof tolerance !== 'number' || tolerance < 0) {
+        throw new Error(`Reconciliation field ${pair.field} needs a non-negative tolerance in ${configPath}`);
+      }
+      return { ...pair, tolerance };
+    });
+}
+
+const activePairs = loadPairs();
+console.log(`Loaded ${activePairs.length} provider field pairs from ${CONFIG_PATH}`);
+
+// A provider that left the column empty did not report it. The mapped Token can't
+// tell, since empty flags map to false, so reported-ness is read from the row.
+const reported = (row, field) => {
+  const value = row[TOKEN_SCHEMA[field].column];
+  return value !== null && value !== undefined && value !== '';
+};
+
+// Compare every configured pair both providers reported. Returns
+// { compared, disagreements } with the field names compared and the ones that differ.
+function comparePairs(token, row, pairs = activePairs) {
+  const compared = [];
+  const disagreements = [];
+
+  pairs.forEach(pair => {
+    if (!reported(row, pair.field) || !reported(row, pair.gpField)) return;
+    compared.push(pair.field);
+
+    const hpValue = token[pair.field];
+    const gpValue = token[pair.gpField];
+    if (DISAGREES[pair.kind](hpValue, gpValue, pair.tolerance)) {
+      disagreements.push({
+        field: pair.field,
+        gpField: pair.gpField,
+        label: pair.label,
+        hpValue,
+        gpValue,
+        tolerance: pair.tolerance
+      });
+    }
+  });
+
+  return { compared, disagreements };
+}
+
+// Fields where Honeypot.is and GoPlus disagree for one token
+function reconcileToken(token, row) {
+  return comparePairs(token, row).disagreements;
+}
+
+// How often each configured pair disagrees across scan_records rows, most disputed first
+function summarizeDisagreements(rows) {
+  const counts = new Map(activePairs.map(pair => [pair.field, { compared: 0, disagreements: 0 }]));
+  let tokensWithDisagreements = 0;
+
+  rows.forEach(row => {
+    const { compared, disagreements } = comparePairs(mapTokenRow(row).token, row);
+    compared.forEach(field => counts.get(field).compared++);
+    disagreements.forEach(disagreement => counts.get(disagreement.field).disagreements++);
+    if (disagreements.length > 0) tokensWithDisagreements++;
+  });
+
+  const fields = activePairs
+    .map(pair => {
+      const { compared, disagreements } = counts.get(pair.field);
+      return {
+        field: pair.field,
+        gpField: pair.gpField,
+        label: pair.label,
+        tolerance: pair.tolerance,
+        compared,
+        disagreements,
+        rate: compared > 0 ? disagreements / compared : 0
+      };
+    })
+    .sort((a, b) => b.disagreements - a.disagreements || b.rate - a.rate);
+
+  return { tokens: rows.length, tokensWithDisagreements, fields };
+}
+
+module.exports = {
+  reconcileToken,
+  summarizeDisagreements
+};
@@ -0,0 +1,303 @@
+const fs = require('fs');
+const path = require('path');
+
+const LOGS_PATH = process.env.API_LOGS_PATH || path.join(__dirname, '../monitor/api_logs');
+const LOG_NAME_PATTERN = /^api_calls_\d{8}_\d{6}\.json$/;
+
+// Playback speeds. max sends every scan without waiting between them.
+const SPEEDS = { '1x': 1, '10x': 10, max: Infinity };
+
+class ReplayError extends Error {}
+
+// Recorded API logs, newest first
+function listLogs() {
+  if (!fs.existsSync(LOGS_PATH)) return [];
+
+  return fs.readdirSync(LOGS_PATH)
+    .filter(name => LOG_NAME_PATTERN.test(name))
+    .map(name => {
+      const stat = fs.statSync(path.join(LOGS_PATH, name));
+      return { name, size: stat.size, modifiedAt: stat.mtime.getTime() };
+    })
+    .sort((a, b) => b.name.localeCompare(a.name));
+}
+
+function parseSpeed(value) {
+  const speed = value === undefined ? 'max' : String(value);
+  if (!SPEEDS[speed]) {
+    throw new ReplayError(`speed must be one of ${Object.keys(SPEEDS).join(', ')}`);
+  }
+  return speed;
+}
+
+// The calls of one log in recorded order. The monitor leaves an empty file
+// when it stops before its first call.
+function readLog(name) {
+  if (typeof name !== 'string' || !LOG_NAME_PATTERN.test(name)) {
+    throw new ReplayError('log must be an api_calls_<date>_<time>.json file name');
+  }
+  const logPath = path.join(LOGS_PATH, name);
+  if (!fs.existsSync(logPath)) {
+    throw new ReplayError(`Unknown log: ${name}`);
+  }
+
+  const text = fs.readFileSync(logPath, 'utf8').trim();
+  if (!text) return [];
+
+  let calls;
+  try {
+    calls = JSON.parse(text);
+  } catch (err) {
+    throw new ReplayError(`${name} is not valid JSON`);
+  }
+  if (!Array.isArray(calls)) {
+    throw new ReplayError(`${name} is not a list of API calls`);
+  }
+  return calls.sort((a, b) => a.id - b.id);
+}
+
+// Value conversions of the monitor's prepare_goplus_values
+const intBool = (value) => (value === true || String(value).trim() === '1' ? 1 : 0);
+const toFloat = (value) => {
+  if (value === null || value === undefined) return 0;
+  const number = parseFloat(String(value).replace('%', ''));
+  return Number.isNaN(number) ? 0 : number;
+};
+const toInt = (value) => Math.trunc(toFloat(value));
+const toText = (value, fallback = '') => (value === null || value === undefined ? fallback : String(value));
+
+// Log timestamps are local ISO times with microseconds, scan_records uses 'YYYY-MM-DD HH:MM:SS'
+const toScanTimestamp = (timestamp) => timestamp.replace('T', ' ').slice(0, 19);
+
+const parseBody = (call) => {
+  if (call.response_code !== 200 || !call.response_body) return null;
+  try {
+    return JSON.parse(call.response_body);
+  } catch (err) {
+    return null;
+  }
+};
+
+// gp_* columns from a GoPlus token_security response, as the monitor stores them
+function goplusColumns(body, address) {
+  const result = (body && body.result) || {};
+  const data = result[address.toLowerCase()] || result[address] || {};
+
+  return {
+    gp_is_open_source: intBool(data.is_open_source),
+    gp_is_proxy: intBool(data.is_proxy),
+    gp_is_mintable: intBool(data.is_mintable),
+    gp_owner_address: toText(data.owner_address),
+    gp_creator_address: toText(data.creator_address),
+    gp_can_take_back_ownership: intBool(data.can_take_back_ownership),
+    gp_owner_change_balance: intBool(data.owner_change_balance),
+    gp_hidden_owner: intBool(data.hidden_owner),
+    gp_selfdestruct: intBool(data.selfdestruct),
+    gp_external_call: intBool(data.external_call),
+    gp_buy_tax: toFloat(data.buy_tax),
+    gp_sell_tax: toFloat(data.sell_tax),
+    gp_is_anti_whale: intBool(data.is_anti_whale),
+    gp_anti_whale_modifiable: intBool(data.anti_whale_modifiable),
+    gp_cannot_buy: intBool(data.cannot_buy),
+    gp_cannot_sell_all: intBool(data.cannot_sell_all),
+    gp_slippage_modifiable: intBool(data.slippage_modifiable),
+    gp_personal_slippage_modifiable: intBool(data.personal_slippage_modifiable),
+    gp_trading_cooldown: intBool(data.trading_cooldown),
+    gp_is_blacklisted: intBool(data.is_blacklisted),
+    gp_is_whitelisted: intBool(data.is_whitelisted),
+    gp_is_in_dex: intBool(data.is_in_dex),
+    gp_transfer_pausable: intBool(data.transfer_pausable),
+    gp_can_be_minted: intBool(data.can_be_minted),
+    gp_total_supply: toText(data.total_supply, '0'),
+    gp_holder_count: toInt(data.holder_count),
+    gp_owner_percent: toFloat(data.owner_percent),
+    gp_owner_balance: toText(data.owner_balance, '0'),
+    gp_creator_percent: toFloat(data.creator_percent),
+    gp_creator_balance: toText(data.creator_balance, '0'),
+    gp_lp_holder_count: toInt(data.lp_holder_count),
+    gp_lp_total_supply: toText(data.lp_total_supply, '0'),
+    gp_is_true_token: intBool(data.is_true_token),
+    gp_is_airdrop_scam: intBool(data.is_airdrop_scam),
+    gp_trust_list: JSON.stringify(data.trust_list || {}),
+    gp_other_potential_risks: JSON.stringify(data.other_potential_risks || []),
+    gp_note: toText(data.note),
+    gp_honeypot_with_same_creator: intBool(data.honeypot_with_same_creator),
+    gp_fake_token: intBool(data.fake_token),
+    gp_holders: JSON.stringify(data.holders || []),
+    gp_lp_holders: JSON.stringify(data.lp_holders || []),
+    gp_dex_info: JSON.stringify(data.dex || [])
+  };
+}
+
+// Token, hp_* and pair columns from a Honeypot.is response. Token age is taken
+// at the recorded scan time so replays match what the monitor saw.
+function honeypotColumns(body, address, scannedAt) {
+  const token = body.token || {};
+  const simulation = body.simulationResult || {};
+  const contract = body.contractCode || {};
+  const pair = body.pair || {};
+  const pairDetails = pair.pair || {};
+  const honeypotResult = body.honeypotResult || {};
+
+  const createdAt = Number(pair.createdAtTimestamp);
+  const tokenAgeHours = pair.createdAtTimestamp && Number.isFinite(createdAt)
+    ? (scannedAt - createdAt * 1000) / 3600000
+    : null;
+
+  return {
+    token_address: address,
+    pair_address: toText(body.pairAddress || pairDetails.address),
+    token_name: toText(token.name, 'Unknown'),
+    token_symbol: toText(token.symbol, 'Unknown'),
+    token_decimals: token.decimals === undefined ? 18 : token.decimals,
+    token_total_supply: toText(token.totalSupply, '0'),
+    token_age_hours: tokenAgeHours,
+    hp_simulation_success: body.simulationSuccess ? 1 : 0,
+    hp_buy_tax: toFloat(simulation.buyTax),
+    hp_sell_tax: toFloat(simulation.sellTax),
+    hp_transfer_tax: toFloat(simulation.transferTax),
+    hp_liquidity_amount: toFloat(pair.liquidity),
+    hp_pair_reserves0: toText(pair.reserves0),
+    hp_pair_reserves1: toText(pair.reserves1),
+    hp_buy_gas_used: toInt(simulation.buyGas),
+    hp_sell_gas_used: toInt(simulation.sellGas),
+    hp_creation_time: toText(pair.createdAtTimestamp),
+    hp_holder_count: toInt(token.totalHolders),
+    hp_is_honeypot: honeypotResult.isHoneypot === false ? 0 : 1,
+    hp_honeypot_reason: toText(honeypotResult.honeypotReason),
+    hp_is_open_source: contract.openSource ? 1 : 0,
+    hp_is_proxy: contract.isProxy ? 1 : 0,
+    hp_is_mintable: contract.isMintable ? 1 : 0,
+    hp_can_be_minted: contract.canBeMinted ? 1 : 0,
+    hp_owner_address: toText(token.owner),
+    hp_creator_address: toText(token.creator),
+    hp_deployer_address: toText(token.deployer),
+    hp_has_proxy_calls: contract.hasProxyCalls ? 1 : 0,
+    hp_pair_liquidity: toFloat(pair.liquidity),
+    hp_pair_liquidity_token0: toFloat(pair.liquidityToken0),
+    hp_pair_liquidity_token1: toFloat(pair.liquidityToken1),
+    hp_pair_token0_symbol: toText(pairDetails.token0Symbol),
+    hp_pair_token1_symbol: toText(pairDetails.token1Symbol),
+    hp_flags: JSON.stringify(body.flags || [])
+  };
+}
+
+// Rebuild the scan_records rows the monitor wrote from a log's calls. The monitor
+// calls GoPlus then Honeypot.is for each scan, so every Honeypot.is response ends
+// a scan and is paired with the latest GoPlus response for the same token.
+// Returns [{ at, row }] in scan order, at in unix ms.
+function buildScans(calls) {
+  const goplusByToken = new Map();
+  const previousRows = new Map();
+  const failures = new Map();
+  const scans = [];
+
+  calls.forEach(call => {
+    if (call.endpoint === 'goplus') {
+      const address = call.params && call.params.contract_addresses;
+      const body = parseBody(call);
+      if (address && body) goplusByToken.set(address.toLowerCase(), body);
+      return;
+    }
+    if (call.endpoint !== 'honeypot') return;
+
+    const address = call.params && call.params.address;
+    if (!address) return;
+    const key = address.toLowerCase();
+
+    const body = parseBody(call);
+    if (!body) {
+      failures.set(key, (failures.get(key) || 0) + 1);
+      return;
+    }
+
+    const at = new Date(call.timestamp).getTime();
+    const previous = previousRows.get(key);
+    const totalScans = previous ? previous.total_scans + 1 : 1;
+    const liquidity = toFloat((body.pair || {}).liquidity);
+
+    const row = {
+      ...honeypotColumns(body, address, at),
+      scan_timestamp: toScanTimestamp(call.timestamp),
+      ...goplusColumns(goplusByToken.get(key), address),
+      total_scans: totalScans,
+      honeypot_failures: failures.get(key) || 0,
+      last_error: '',
+      status: 'active'
+    };
+    // liqN holds the liquidity seen on the Nth scan
+    for (let scan = 10; scan <= 200; scan += 10) {
+      row[`liq${scan}`] = scan === totalScans ? liquidity : (previous ? previous[`liq${scan}`] : null);
+    }
+
+    previousRows.set(key, row);
+    scans.push({ at, row });
+  });
+
+  return scans;
+}
+
+// Play scans back in recorded time divided by the speed. onScan gets each
+// { at, row } in order, onEnd runs once the last one was played.
+// Returns { stop, status }.
+function createPlayer(scans, { speed, onScan, onEnd }) {
+  const speedName = parseSpeed(speed);
+  const factor = SPEEDS[speedName];
+  let position = 0;
+  let timeout = null;
+  let immediate = null;
+  let stopped = false;
+
+  const scheduleNext = () => {
+    if (stopped) return;
+    if (position >= scans.length) {
+      stopped = true;
+      if (onEnd) onEnd();
+      return;
+    }
+
+    const wait = position === 0 || factor === Infinity
+      ? 0
+      : (scans[position].at - scans[position - 1].at) / factor;
+    // setImmediate at max speed so queued WebSocket sends flush between scans
+    const play = () => {
+      timeout = null;
+      immediate = null;
+      onScan(scans[position]);
+      position++;
+      scheduleNext();
+    };
+    if (wait > 0) {
+      timeout = setTimeout(play, wait);
+    } else {
+      immediate = setImmediate(play);
+    }
+  };
+
+  scheduleNext();
+
+  return {
+    stop: () => {
+      stopped = true;
+      if (timeout) clearTimeout(timeout);
+      if (immediate) clearImmediate(immediate);
+    },
+    status: () => ({
+      speed: speedName,
+      position,
+      total: scans.length,
+      finished: position >= scans.length,
+      playedUntil: position > 0 ? scans[position - 1].at : null
+    })
+  };
+}
+
+module.exports = {
+  ReplayError,
+  SPEEDS,
+  listLogs,
+  parseSpeed,
+  readLog,
+  buildScans,
+  createPlayer
+};
@@ -0,0 +1,277 @@
+const express = require('express');
+const WebSocket = require('ws');
+const http = require('http');
+const { buildToken, diffTokens } = require('./tokenBuilder');
+const { QueryError, parseTokenQuery, queryTokens } = require('./tokenQuery');
+const alertRules = require('./alertRules');
+const reputation = require('./reputation');
+const replay = require('./replay');
+const { localhostCors, alertRulesRouter } = require('./sharedApi');
+const subscriptions = require('./subscriptions');
+const { RESUME_GRACE_MS, createEventLog } = require('./eventLog');
+
+// Stand-in for index.js that rebuilds tokens from a recorded monitor/api_logs file
+// instead of polling a session database. The frontend connects to it unchanged.
+// Usage: node replayServer.js [log file name] [1x|10x|max]
+
+const app = express();
+const server = http.createServer(app);
+const wss = new WebSocket.Server({ server });
+
+const PORT = 3002;
+
+// Latest formatted token and scan_records row per address, as of the replay position
+const knownTokens = new Map();
+const latestRows = new Map();
+
+// The running replay. Each start is its own session so clients reload.
+let current = null;
+let replayCount = 0;
+
+// Topic subscriptions per socket, absent until the client subscribes
+const clientSubscriptions = new Map();
+// The seq each new socket connected at, while its live events wait for its RESUME
+const heldSince = new Map();
+// One stream for the server's lifetime; restarting a replay is a SESSION_CHANGED event in it
+const eventLog = createEventLog();
+
+// previous is the token before a TOKEN_UPDATED, for clients whose filters it moves
+// in or out of. The replay has no watchlist, so no event skips the filters.
+function broadcastToAll(data, previous = null) {
+  const address = subscriptions.eventAddress(data);
+  const subject = { token: (address && knownTokens.get(address)) || null, previous, watched: false };
+  const event = eventLog.record(data, subject);
+  const message = JSON.stringify(event);
+  wss.clients.forEach(client => {
+    if (heldSince.has(client)) return;
+    const routed = subscriptions.messageFor(clientSubscriptions.get(client) || null, event, subject);
+    if (!routed) return;
+    if (client.readyState === WebSocket.OPEN) {
+      try {
+        client.send(routed === event ? message : JSON.stringify(routed));
+      } catch (err) {
+        console.error('Error broadcasting to client:', err);
+        client.terminate();
+      }
+    }
+  });
+}
+
+// Broadcast one replayed scan the way the live poller reports a scan_records change
+function playScan({ row }) {
+  const address = row.token_address;
+  const formatted = buildToken(row);
+  const previous = knownTokens.get(address);
+  knownTokens.set(address, formatted);
+  latestRows.set(address, row);
+
+  if (!previous) {
+    console.log(`Replayed new token: ${address} (${row.token_name})`);
+    broadcastToAll({ type: 'NEW_TOKEN', token: formatted });
+  } else {
+    const changes = diffTokens(previous, formatted);
+    if (Object.keys(changes).length > 0) {
+      broadcastToAll({
+        type: 'TOKEN_UPDATED',
+        address,
+        changes,
+        scanTimestamp: row.scan_timestamp
+      }, previous);
+    }
+  }
+
+  alertRules.matchTokens([formatted]).forEach(({ rule, token }) => {
+    console.log(`Alert rule matched: ${rule.name} -> ${token.address}`);
+    broadcastToAll({ type: 'ALERT_MATCH', rule, token });
+  });
+}
+
+// Stop any running replay and play a log from the start. Throws ReplayError for
+// unknown logs or speeds.
+async function startReplay(log, speed) {
+  const speedName = replay.parseSpeed(speed);
+  const scans = replay.buildScans(replay.readLog(log));
+
+  if (current) current.player.stop();
+  knownTokens.clear();
+  latestRows.clear();
+  await alertRules.primeMatches([]);
+
+  replayCount++;
+  const session = `Replay ${replayCount}: ${log}`;
+  const startedAt = Date.now();
+  current = {
+    log,
+    session,
+    startedAt,
+    firstScan: scans.length > 0 ? scans[0].row.scan_timestamp : null,
+    lastScan: scans.length > 0 ? scans[scans.length - 1].row.scan_timestamp : null,
+    player: replay.createPlayer(scans, {
+      speed: speedName,
+      onScan: playScan,
+      onEnd: () => console.log(`Replay of ${log} finished after ${Math.round((Date.now() - startedAt) / 1000)}s`)
+    })
+  };
+
+  console.log(`Replaying ${scans.length} scans from ${log} at ${speedName}`);
+  broadcastToAll({ type: 'SESSION_CHANGED', session });
+  return describeReplay();
+}
+
+function describeReplay() {
+  if (!current) return null;
+  return {
+    log: current.log,
+    session: current.session,
+    startedAt: current.startedAt,
+    firstScan: current.firstScan,
+    lastScan: current.lastScan,
+    tokens: knownTokens.size,
+    ...current.player.status()
+  };
+}
+
+// Replay what the client missed, since it connected when there's no streamId, and
+// start sending it live events
+function resumeClient(ws, data) {
+  const request = data.streamId === undefined
+    ? { streamId: eventLog.streamId, lastSeq: heldSince.has(ws) ? heldSince.get(ws) : eventLog.lastSeq() }
+    : data;
+  heldSince.delete(ws);
+  const subscribed = clientSubscriptions.get(ws) || null;
+  eventLog.resume(request, (event, subject) => subscriptions.messageFor(subscribed, event, subject))
+    .forEach(reply => ws.send(JSON.stringify(reply)));
+}
+
+wss.on('connection', (ws) => {
+  ws.send(JSON.stringify({ type: 'CONNECTED', timestamp: Date.now(), streamId: eventLog.streamId, seq: eventLog.lastSeq() }));
+  heldSince.set(ws, eventLog.lastSeq());
+  const holdTimer = setTimeout(() => resumeClient(ws, {}), RESUME_GRACE_MS);
+
+  ws.on('message', (message) => {
+    try {
+      const data = JSON.parse(message);
+      if (data.type === 'PING') {
+        ws.send(JSON.stringify({ type: 'PONG', timestamp: Date.now() }));
+      } else if (data.type === 'SUBSCRIBE' || data.type === 'UNSUBSCRIBE') {
+        const updated = subscriptions.applySubscriptionMessage(new Map(clientSubscriptions.get(ws) || []), data);
+        clientSubscriptions.set(ws, updated);
+        ws.send(JSON.stringify({ type: 'SUBSCRIBED', topics: subscriptions.describeSubscriptions(updated) }));
+      } else if (data.type === 'RESUME') {
+        clearTimeout(holdTimer);
+        resumeClient(ws, data);
+      }
+    } catch (err) {
+      if (err instanceof subscriptions.SubscriptionError) {
+        ws.send(JSON.stringify({ type: 'SUBSCRIPTION_ERROR', error: err.message }));
+        return;
+      }
+      console.error('Error processing message:', err);
+    }
+  });
+
+  ws.on('close', () => {
+    clearTimeout(holdTimer);
+    clientSubscriptions.delete(ws);
+    heldSince.delete(ws);
+  });
+  ws.on('error', (error) => console.error('WebSocket error:', error));
+});
+
+app.use(localhostCors());
+
+app.use(express.json());
+
+// Tokens replayed so far, with the live server's filters, sorting and paging
+app.get('/api/tokens', (req, res) => {
+  try {
+    const query = parseTokenQuery(req.query);
+    res.json(queryTokens([...knownTokens.values()], query));
+  } catch (err) {
+    if (err instanceof QueryError) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error('Error fetching tokens:', err);
+    res.status(500).json({ error: 'Failed to fetch tokens' });
+  }
+});
+
+app.get('/api/tokens/:address', (req, res) => {
+  const row = latestRows.get(req.params.address);
+  if (!row) {
+    return res.status(404).json({ error: 'Token not found' });
+  }
+  res.json(row);
+});
+
+// The running replay presented as the only, live session
+app.get('/api/sessions', (req, res) => {
+  if (!current) {
+    return res.json({ active: null, sessions: [] });
+  }
+  res.json({
+    active: current.session,
+    sessions: [{
+      name: current.session,
+      active: true,
+      modifiedAt: current.startedAt,
+      tokenCount: knownTokens.size,
+      firstScan: current.firstScan,
+      lastScan: current.lastScan,
+      error: null
+    }]
+  });
+});
+
+app.get('/api/replay', (req, res) => {
+  res.json({ replay: describeReplay(), speeds: Object.keys(replay.SPEEDS) });
+});
+
+app.get('/api/replay/logs', (req, res) => {
+  res.json({ logs: replay.listLogs() });
+});
+
+// Restart with another log or speed. Body: { log, speed }
+app.post('/api/replay', async (req, res) => {
+  const { log, speed } = req.body || {};
+  try {
+    res.json(await startReplay(log, speed));
+  } catch (err) {
+    if (err instanceof replay.ReplayError) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error('Error starting replay:', err);
+    res.status(500).json({ error: 'Failed to start replay' });
+  }
+});
+
+// Alert rules are shared with the live server, so rules tuned against a replay
+// apply to live scans too
+app.use('/api/alert-rules', alertRulesRouter(() => knownTokens.values()));
+
+// Replay the log named on the command line, or the newest one with calls in it
+async function start() {
+  const [log, speed = 'max'] = process.argv.slice(2);
+  const chosen = log || (replay.listLogs().find(entry => entry.size > 0) || {}).name;
+  if (!chosen) {
+    throw new Error('No recorded API logs to replay');
+  }
+
+  // Creator reputation comes from the session index the live server built
+  await reputation.refresh().catch(err => console.error('Error loading reputation:', err));
+
+  server.listen(PORT, async () => {
+    console.log(`Replay server running on port ${PORT}`);
+    try {
+      await startReplay(chosen, speed);
+    } catch (err) {
+      console.error(err.message);
+      process.exit(1);
+    }
+  });
+}
+
+start().catch(err => {
+  console.error(err.message);
+  process.exit(1);
+});
@@ -0,0 +1,127 @@
+const store = require('./store');
+
+// A wallet with at least this many launches gets the serial deployer badge
+const SERIAL_DEPLOYER_MIN_LAUNCHES = 3;
+
+// When a token's sessions disagree, the worst outcome wins
+const OUTCOME_RANK = { survivor: 0, rugged: 1, honeypot: 2 };
+
+const isZeroAddress = (address) => /^0x0*$/i.test(address);
+
+// Wallet summaries keyed by lowercased address, rebuilt after each index refresh
+let summaries = new Map();
+let loaded = false;
+
+// Outcome of one token in one session
+function sessionOutcome(row) {
+  if (row.is_honeypot || row.location === 'HONEYPOTS') return 'honeypot';
+  if (row.location === 'xHoneypot_removed') return 'rugged';
+  return 'survivor';
+}
+
+// Index rows with a creator or deployer, optionally for one wallet only
+async function loadLaunchRows(wallet) {
+  const filter = wallet ? 'AND (LOWER(creator_address) = LOWER(?) OR LOWER(deployer_address) = LOWER(?))' : '';
+  return store.all(`
+    SELECT session, token_address, token_name, token_symbol, first_scan, last_scan,
+           location, is_honeypot, creator_address, deployer_address
+    FROM session_index
+    WHERE (creator_address IS NOT NULL OR deployer_address IS NOT NULL) ${filter}
+  `, wallet ? [wallet, wallet] : []);
+}
+
+// Group index rows into one launch per token per wallet
+function groupLaunches(rows) {
+  const wallets = new Map();
+
+  rows.forEach(row => {
+    const roles = [['creator', row.creator_address], ['deployer', row.deployer_address]]
+      .filter(([, wallet]) => wallet && !isZeroAddress(wallet));
+
+    roles.forEach(([role, wallet]) => {
+      const walletKey = wallet.toLowerCase();
+      if (!wallets.has(walletKey)) wallets.set(walletKey, new Map());
+      const launches = wallets.get(walletKey);
+
+      const tokenKey = row.token_address.toLowerCase();
+      if (!launches.has(tokenKey)) {
+        launches.set(tokenKey, {
+          address: row.token_address,
+          name: row.token_name,
+          symbol: row.token_symbol,
+          firstSeen: row.first_scan,
+          lastSeen: row.last_scan,
+          outcome: 'survivor',
+          roles: [],
+          sessions: []
+        });
+      }
+
+      const launch = launches.get(tokenKey);
+      if (!launch.roles.includes(role)) launch.roles.push(role);
+      if (launch.sessions.includes(row.session)) return;
+
+      launch.sessions.push(row.session);
+      const outcome = sessionOutcome(row);
+      if (OUTCOME_RANK[outcome] > OUTCOME_RANK[launch.outcome]) launch.outcome = outcome;
+      if (row.first_scan && (!launch.firstSeen || row.first_scan < launch.firstSeen)) launch.firstSeen = row.first_scan;
+      if (row.last_scan && (!launch.lastSeen || row.last_scan > launch.lastSeen)) launch.lastSeen = row.last_scan;
+    });
+  });
+
+  return wallets;
+}
+
+function summarize(address, launches) {
+  const count = (outcome) => launches.filter(launch => launch.outcome === outcome).length;
+  return {
+    address,
+    launches: launches.length,
+    honeypots: count('honeypot'),
+    rugs: count('rugged'),
+    survivors: count('survivor'),
+    serialDeployer: launches.length >= SERIAL_DEPLOYER_MIN_LAUNCHES
+  };
+}
+
+// Recompute every wallet summary from the session index
+async function refresh() {
+  const wallets = groupLaunches(await loadLaunchRows());
+  summaries = new Map([...wallets].map(([key, launches]) => [key, summarize(key, [...launches.values()])]));
+  loaded = true;
+  console.log(`Reputation loaded for ${summaries.size} wallets`);
+}
+
+function isLoaded() {
+  return loaded;
+}
+
+// Reputation of the wallet behind a token. Creator and deployer are both
+// checked and the one with the longer track record is reported.
+function getTokenReputation(token) {
+  const candidates = [token.creatorAddress, token.gpCreatorAddress, token.deployerAddress]
+    .filter(address => address && !isZeroAddress(address))
+    .map(address => summaries.get(address.toLowerCase()))
+    .filter(Boolean);
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, summary) => (summary.launches > best.launches ? summary : best));
+}
+
+// Full report for one wallet: the summary plus every launch, newest first.
+// Returns null when the wallet has no indexed launches.
+async function getCreatorReport(address) {
+  const launches = groupLaunches(await loadLaunchRows(address)).get(address.toLowerCase());
+  if (!launches) return null;
+
+  const tokens = [...launches.values()]
+    .sort((a, b) => (b.firstSeen || '').localeCompare(a.firstSeen || ''));
+  return { ...summarize(address, tokens), tokens };
+}
+
+module.exports = {
+  refresh,
+  isLoaded,
+  getTokenReputation,
+  getCreatorReport
+};
@@ -0,0 +1,229 @@
+const fs = require('fs');
+const path = require('path');
+const db = require('./db');
+const store = require('./store');
+const { findHistoryTable } = require('./tokenHistory');
+
+const CONFIG_PATH = process.env.RUG_DETECTOR_CONFIG_PATH || path.join(__dirname, 'config', 'rugDetector.json');
+
+const toNumber = (value) => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isNaN(number) ? null : number;
+};
+
+const percentDrop = (previous, current) => (previous > 0 ? ((previous - current) / previous) * 100 : 0);
+
+// Liquidity of the first GoPlus DEX pool, null when GoPlus reported none
+const goPlusLiquidity = (row) => {
+  try {
+    const dexInfo = JSON.parse(row.gp_dex_info);
+    return Array.isArray(dexInfo) && dexInfo[0] ? toNumber(dexInfo[0].liquidity) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Liquidity of both rows from the same provider. Honeypot.is is used whenever
+// both rows have it, 0 included since a drained pool reads 0. GoPlus only stands
+// in when Honeypot.is is missing from both; a mix of sources isn't compared.
+const liquidityPair = (previousRow, row) => {
+  const previousHp = toNumber(previousRow.hp_liquidity_amount);
+  const currentHp = toNumber(row.hp_liquidity_amount);
+  if (previousHp !== null && currentHp !== null) return [previousHp, currentHp];
+  if (previousHp !== null || currentHp !== null) return [null, null];
+  return [goPlusLiquidity(previousRow), goPlusLiquidity(row)];
+};
+
+// Read the same metric from both rows
+const eachRow = (metric) => (previousRow, row) => [metric(previousRow), metric(row)];
+
+// Every check the detector knows about. Each compares one metric between a
+// history row and the scan before it, read by values(previousRow, row).
+// Thresholds and enabled/disabled come from the config file, the comparison lives here.
+const CHECK_DEFINITIONS = [
+  {
+    id: 'liquidity_drop',
+    params: ['dropPercent', 'minLiquidity'],
+    values: liquidityPair,
+    triggered: (previous, current, params) => (
+      previous >= params.minLiquidity && percentDrop(previous, current) >= params.dropPercent
+    ),
+    description: (previous, current) => (
+      `Liquidity fell ${percentDrop(previous, current).toFixed(1)}% ` +
+      `from $${previous.toLocaleString()} to $${current.toLocaleString()}`
+    )
+  },
+  {
+    id: 'lp_holder_collapse',
+    params: ['dropPercent', 'minHolders'],
+    values: eachRow(row => toNumber(row.gp_lp_holder_count)),
+    triggered: (previous, current, params) => (
+      previous >= params.minHolders && percentDrop(previous, current) >= params.dropPercent
+    ),
+    description: (previous, current) => `LP holder count collapsed from ${previous} to ${current}`
+  },
+  {
+    id: 'owner_spike',
+    params: ['increasePoints'],
+    values: eachRow(row => toNumber(row.gp_owner_percent)),
+    triggered: (previous, current, params) => current - previous >= params.increasePoints,
+    description: (previous, current) => `Owner share jumped from ${previous.toFixed(2)}% to ${current.toFixed(2)}%`
+  }
+];
+
+// Merge the config file over the definitions. Checks missing from the file
+// stay disabled, like the security rules.
+function loadChecks(configPath = CONFIG_PATH) {
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  const overrides = config.checks || {};
+
+  Object.keys(overrides).forEach(id => {
+    if (!CHECK_DEFINITIONS.some(check => check.id === id)) {
+      throw new Error(`Unknown rug check in ${configPath}: ${id}`);
+    }
+  });
+
+  return CHECK_DEFINITIONS
+    .filter(check => overrides[check.id] && overrides[check.id].enabled !== false)
+    .map(check => {
+      const { enabled, ...params } = overrides[check.id];
+      check.params.forEach(name => {
+        if (typeof params[name] !== 'number' || params[name] < 0) {
+          throw new Error(`Rug check ${check.id} needs a non-negative ${name} in ${configPath}`);
+        }
+      });
+      return { ...check, params };
+    });
+}
+
+const activeChecks = loadChecks();
+console.log(`Loaded ${activeChecks.length} rug checks from ${CONFIG_PATH}`);
+
+// Compare one history row with the previous one, returning every check that fired
+function evaluateRow(previousRow, row, checks = activeChecks) {
+  const fired = [];
+
+  checks.forEach(check => {
+    const [previous, current] = check.values(previousRow, row);
+    if (previous === null || current === null) return;
+
+    if (check.triggered(previous, current, check.params)) {
+      fired.push({
+        id: check.id,
+        description: check.description(previous, current, check.params),
+        previous,
+        current
+      });
+    }
+  });
+
+  return fired;
+}
+
+// History rows written since the last reported scan, each paired with the row before it
+async function readNewRows(session, sessionDb, address, since) {
+  const table = await findHistoryTable(session, address);
+  if (!table) return [];
+
+  const baseline = since
+    ? await sessionDb.get(`SELECT * FROM "${table}" WHERE scan_timestamp <= ? ORDER BY scan_timestamp DESC LIMIT 1`, [since])
+    : null;
+  const rows = await sessionDb.all(
+    `SELECT * FROM "${table}" WHERE scan_timestamp > ? ORDER BY scan_timestamp ASC`,
+    [since || '']
+  );
+
+  let previous = baseline;
+  return rows.map(row => {
+    const pair = { previous, row };
+    previous = row;
+    return pair;
+  });
+}
+
+function formatAlert(row) {
+  return {
+    session: row.session,
+    address: row.token_address,
+    name: row.token_name || 'Unknown',
+    symbol: row.token_symbol || 'UNKNOWN',
+    scanTimestamp: row.scan_timestamp,
+    previousScanTimestamp: row.previous_scan_timestamp,
+    checks: JSON.parse(row.checks),
+    createdAt: row.created_at
+  };
+}
+
+// Evaluate the history rows behind a poll's inserted and updated events.
+// Alerts are stored once per history row; returns only the ones not seen before.
+async function checkForRugs(session, changes) {
+  const sessionDb = await db.forSession(session);
+  const alerts = [];
+
+  for (const change of changes.filter(change => change.type !== 'removed')) {
+    try {
+      const pairs = await readNewRows(session, sessionDb, change.address, change.previousScanTimestamp);
+      pairs.filter(pair => pair.previous).forEach(({ previous, row }) => {
+        const checks = evaluateRow(previous, row);
+        if (checks.length === 0) return;
+        alerts.push({
+          session,
+          token_address: change.address,
+          token_name: row.token_name || change.row.token_name,
+          token_symbol: row.token_symbol || change.row.token_symbol,
+          scan_timestamp: row.scan_timestamp,
+          previous_scan_timestamp: previous.scan_timestamp,
+          checks: JSON.stringify(checks),
+          created_at: Date.now()
+        });
+      });
+    } catch (err) {
+      console.error(`Error checking ${change.address} for rugs:`, err.message);
+    }
+  }
+
+  if (alerts.length === 0) return [];
+
+  return store.transaction(async () => {
+    const stored = [];
+    for (const alert of alerts) {
+      const result = await store.run(`
+        INSERT OR IGNORE INTO rug_alerts
+          (session, token_address, scan_timestamp, previous_scan_timestamp, token_name, token_symbol, checks, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        alert.session,
+        alert.token_address,
+        alert.scan_timestamp,
+        alert.previous_scan_timestamp,
+        alert.token_name,
+        alert.token_symbol,
+        alert.checks,
+        alert.created_at
+      ]);
+      if (result.changes > 0) stored.push(formatAlert(alert));
+    }
+    return stored;
+  });
+}
+
+// Stored alerts from every session, newest first
+async function listRugAlerts(limit = 100) {
+  const rows = await store.all(`
+    SELECT * FROM rug_alerts
+    ORDER BY created_at DESC, scan_timestamp DESC
+    LIMIT ?
+  `, [limit]);
+  return rows.map(formatAlert);
+}
+
+function describeChecks() {
+  return activeChecks.map(check => ({ id: check.id, params: check.params }));
+}
+
+module.exports = {
+  checkForRugs,
+  listRugAlerts,
+  describeChecks
+};
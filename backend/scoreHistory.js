@@ -0,0 +1,56 @@
+const store = require('./store');
+
+// Persist the model scores of each token's current scan, once per scan
+async function recordScores(session, tokens) {
+  if (tokens.length === 0) return;
+
+  await store.transaction(async () => {
+    for (const token of tokens) {
+      const { models, combined } = token.scores;
+      const factors = Object.fromEntries(
+        Object.entries(models).map(([id, model]) => [id, model.factors])
+      );
+      await store.run(`
+        INSERT OR IGNORE INTO token_scores
+          (session, token_address, scan_timestamp, market, security, liquidity, growth, combined, factors)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        session,
+        token.address,
+        token.scanTimestamp,
+        models.market.score,
+        models.security.score,
+        models.liquidity.score,
+        models.growth.score,
+        combined,
+        JSON.stringify(factors)
+      ]);
+    }
+  });
+}
+
+// Stored scores for one token across every session, oldest first
+async function getScoreHistory(address) {
+  const rows = await store.all(`
+    SELECT session, scan_timestamp, market, security, liquidity, growth, combined
+    FROM token_scores
+    WHERE LOWER(token_address) = LOWER(?)
+    ORDER BY scan_timestamp ASC
+  `, [address]);
+
+  return rows.map(row => ({
+    session: row.session,
+    scanTimestamp: row.scan_timestamp,
+    timestamp: new Date(row.scan_timestamp).getTime(),
+    market: row.market,
+    security: row.security,
+    liquidity: row.liquidity,
+    growth: row.growth,
+    combined: row.combined
+  }));
+}
+
+module.exports = {
+  recordScores,
+  getScoreHistory
+};
@@ -0,0 +1,157 @@
+const fs = require('fs');
+const path = require('path');
+
+const SCORING_PATH = process.env.SCORING_CONFIG_PATH || path.join(__dirname, 'config', 'scoring.json');
+
+// Pick the points for the first bucket whose bound the value exceeds
+function tiered(value, tiers, fallback) {
+  const tier = tiers.find(([bound]) => value > bound);
+  return tier ? tier[1] : fallback;
+}
+
+// Each model is four 25-point factors, so every model scores 0-100
+const MODELS = [
+  {
+    id: 'market',
+    label: 'Market Behavior',
+    factors: [
+      {
+        id: 'txSuccess',
+        label: 'Scan success rate',
+        points: token => (((token.totalScans || 0) - (token.honeypotFailures || 0)) / Math.max(token.totalScans || 0, 1)) * 25
+      },
+      {
+        id: 'gasBalance',
+        label: 'Buy/sell gas balance',
+        points: token => (token.buyGas && token.sellGas && Math.abs(token.buyGas - token.sellGas) < 50000 ? 25 : 0)
+      },
+      {
+        id: 'distribution',
+        label: 'Holder distribution',
+        points: token => tiered(token.gpHolderCount || 0, [[100, 25], [50, 15], [20, 10]], 5)
+      },
+      {
+        id: 'taxPattern',
+        label: 'Buy/sell tax symmetry',
+        points: token => (token.gpBuyTax === token.gpSellTax ? 25
+          : Math.abs((token.gpBuyTax || 0) - (token.gpSellTax || 0)) < 2 ? 15 : 5)
+      }
+    ]
+  },
+  {
+    id: 'security',
+    label: 'Smart Contract Security',
+    factors: [
+      { id: 'verification', label: 'Verified source', points: token => (token.gpIsOpenSource ? 25 : 0) },
+      { id: 'ownership', label: 'Ownership controls', points: token => (!token.gpHiddenOwner && !token.gpCanTakeBackOwnership ? 25 : 0) },
+      { id: 'minting', label: 'No minting', points: token => (!token.gpIsMintable ? 25 : 0) },
+      { id: 'externalCalls', label: 'No external calls', points: token => (!token.gpExternalCall ? 25 : 0) }
+    ]
+  },
+  {
+    id: 'liquidity',
+    label: 'Liquidity Risk',
+    factors: [
+      {
+        id: 'depth',
+        label: 'Liquidity depth',
+        points: token => tiered(token.liq30 || 0, [[50000, 25], [10000, 20], [5000, 15], [1000, 10]], 5)
+      },
+      {
+        id: 'lpHolders',
+        label: 'LP holder count',
+        points: token => (token.gpLpHolderCount > 2 ? 25 : token.gpLpHolderCount === 2 ? 15 : 5)
+      },
+      { id: 'sellImpact', label: 'Can sell all', points: token => (!token.gpCannotSellAll ? 25 : 0) },
+      { id: 'lock', label: 'LP spread', points: token => (token.gpLpHolderCount > 1 ? 25 : 0) }
+    ]
+  },
+  {
+    id: 'growth',
+    label: 'Growth Momentum',
+    factors: [
+      {
+        id: 'holders',
+        label: 'Holder growth',
+        points: token => tiered(token.gpHolderCount || 0, [[100, 25], [50, 20], [20, 15]], 10)
+      },
+      {
+        id: 'liquidityTrend',
+        label: 'Liquidity trend',
+        points: token => tiered(token.liq30 || 0, [[10000, 25], [5000, 20], [1000, 15]], 10)
+      },
+      {
+        id: 'volume',
+        label: 'Scan volume',
+        points: token => tiered(token.totalScans || 0, [[100, 25], [50, 20], [20, 15]], 10)
+      },
+      {
+        id: 'ownerShare',
+        label: 'Owner share',
+        points: token => {
+          const ownerPercent = token.gpOwnerPercent || 0;
+          return ownerPercent < 5 ? 25 : ownerPercent < 10 ? 20 : ownerPercent < 20 ? 15 : 5;
+        }
+      }
+    ]
+  }
+];
+
+// Read model weights and normalise them so they sum to 1
+function loadWeights(configPath = SCORING_PATH) {
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  const weights = config.weights || {};
+
+  MODELS.forEach(model => {
+    if (typeof weights[model.id] !== 'number' || weights[model.id] < 0) {
+      throw new Error(`Scoring weight for ${model.id} missing or invalid in ${configPath}`);
+    }
+  });
+
+  const total = MODELS.reduce((sum, model) => sum + weights[model.id], 0);
+  if (total <= 0) {
+    throw new Error(`Scoring weights in ${configPath} must not all be zero`);
+  }
+
+  return Object.fromEntries(MODELS.map(model => [model.id, weights[model.id] / total]));
+}
+
+let activeWeights = loadWeights();
+
+// Score a token with every model.
+// Returns { models: { [id]: { label, score, factors[] } }, combined, weights }.
+function scoreToken(token, weights = activeWeights) {
+  const models = {};
+  let combined = 0;
+
+  MODELS.forEach(model => {
+    const factors = model.factors.map(factor => ({
+      id: factor.id,
+      label: factor.label,
+      points: factor.points(token),
+      maxPoints: 25
+    }));
+    const score = factors.reduce((sum, factor) => sum + factor.points, 0);
+    models[model.id] = { label: model.label, score, factors };
+    combined += score * weights[model.id];
+  });
+
+  return { models, combined, weights };
+}
+
+function getWeights() {
+  return activeWeights;
+}
+
+function reloadWeights() {
+  activeWeights = loadWeights();
+  return activeWeights;
+}
+
+module.exports = {
+  MODELS,
+  loadWeights,
+  scoreToken,
+  getWeights,
+  reloadWeights
+};
@@ -0,0 +1,172 @@
+const fs = require('fs');
+const path = require('path');
+
+const RULES_PATH = process.env.SECURITY_RULES_PATH || path.join(__dirname, 'config', 'securityRules.json');
+
+const SEVERITIES = ['danger', 'warning'];
+
+// Every rule the engine knows about. Severity, thresholds and enabled/disabled
+// come from the rules file, the predicate and description live here.
+const RULE_DEFINITIONS = [
+  {
+    id: 'honeypot',
+    description: () => 'TOKEN IS A HONEYPOT - Cannot sell tokens',
+    predicate: token => token.isHoneypot
+  },
+  {
+    id: 'dangerous_blacklist',
+    description: () => 'Token is blacklisted (not anti-whale)',
+    predicate: token => token.gpIsBlacklisted && !token.gpIsAntiWhale
+  },
+  {
+    id: 'not_open_source',
+    description: () => 'Contract is not open source',
+    predicate: token => !token.gpIsOpenSource
+  },
+  {
+    id: 'proxy_contract',
+    description: () => 'Contract uses proxy pattern',
+    predicate: token => token.gpIsProxy
+  },
+  {
+    id: 'mintable',
+    description: () => 'Token is mintable',
+    predicate: token => token.gpIsMintable
+  },
+  {
+    id: 'external_call',
+    description: () => 'Contract has external calls',
+    predicate: token => token.gpExternalCall
+  },
+  {
+    id: 'cannot_buy',
+    description: () => 'Buying is restricted',
+    predicate: token => token.gpCannotBuy
+  },
+  {
+    id: 'cannot_sell_all',
+    description: () => 'Cannot sell all tokens',
+    predicate: token => token.gpCannotSellAll
+  },
+  {
+    id: 'trading_cooldown',
+    description: () => 'Trading cooldown enabled',
+    predicate: token => token.gpTradingCooldown
+  },
+  {
+    id: 'transfer_pausable',
+    description: () => 'Transfers can be paused',
+    predicate: token => token.gpTransferPausable
+  },
+  {
+    id: 'hidden_owner',
+    description: () => 'Hidden owner detected',
+    predicate: token => token.gpHiddenOwner
+  },
+  {
+    id: 'can_take_back_ownership',
+    description: () => 'Ownership can be taken back',
+    predicate: token => token.gpCanTakeBackOwnership
+  },
+  {
+    id: 'owner_change_balance',
+    description: () => 'Owner can change balances',
+    predicate: token => token.gpOwnerChangeBalance
+  },
+  {
+    id: 'high_buy_tax',
+    description: token => `High buy tax: ${token.gpBuyTax}%`,
+    predicate: (token, params) => token.gpBuyTax > params.maxTax
+  },
+  {
+    id: 'high_sell_tax',
+    description: token => `High sell tax: ${token.gpSellTax}%`,
+    predicate: (token, params) => token.gpSellTax > params.maxTax
+  },
+  {
+    id: 'modifiable_anti_whale',
+    description: () => 'Modifiable anti-whale mechanism',
+    predicate: token => token.gpIsAntiWhale && token.gpAntiWhaleModifiable
+  },
+  {
+    id: 'modifiable_slippage',
+    description: () => 'Modifiable slippage settings',
+    predicate: token => token.gpSlippageModifiable
+  }
+];
+
+// Merge the rules file over the definitions. Rules missing from the file stay
+// disabled so a policy change is always explicit.
+function loadRules(rulesPath = RULES_PATH) {
+  const config = JSON.parse(fs.readFileSync(rulesPath, 'utf8'));
+  const overrides = config.rules || {};
+
+  Object.keys(overrides).forEach(id => {
+    if (!RULE_DEFINITIONS.some(rule => rule.id === id)) {
+      throw new Error(`Unknown security rule in ${rulesPath}: ${id}`);
+    }
+  });
+
+  return RULE_DEFINITIONS
+    .filter(rule => overrides[rule.id] && overrides[rule.id].enabled !== false)
+    .map(rule => {
+      const { severity, enabled, ...params } = overrides[rule.id];
+      if (!SEVERITIES.includes(severity)) {
+        throw new Error(`Security rule ${rule.id} has invalid severity: ${severity}`);
+      }
+      return { ...rule, severity, params };
+    });
+}
+
+let activeRules = loadRules();
+console.log(`Loaded ${activeRules.length} security rules from ${RULES_PATH}`);
+
+// Run every active rule against a token.
+// Returns the overall level plus one reason per rule that fired, dangers first.
+function evaluateSecurity(token, rules = activeRules) {
+  const reasons = [];
+
+  rules.forEach(rule => {
+    try {
+      if (rule.predicate(token, rule.params)) {
+        reasons.push({
+          id: rule.id,
+          severity: rule.severity,
+          description: rule.description(token, rule.params)
+        });
+      }
+    } catch (err) {
+      console.error(`Security rule ${rule.id} failed for ${token.address}:`, err);
+    }
+  });
+
+  reasons.sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+
+  const securityLevel = reasons.some(reason => reason.severity === 'danger') ? 'danger'
+    : reasons.length > 0 ? 'warning' : 'safe';
+
+  return { securityLevel, reasons };
+}
+
+// Effective rules without their functions, for the API
+function describeRules() {
+  return activeRules.map(rule => ({
+    id: rule.id,
+    severity: rule.severity,
+    params: rule.params
+  }));
+}
+
+// Re-read the rules file, keeping the current rules if it is invalid
+function reloadRules() {
+  activeRules = loadRules();
+  return describeRules();
+}
+
+module.exports = {
+  RULE_DEFINITIONS,
+  loadRules,
+  evaluateSecurity,
+  describeRules,
+  reloadRules
+};
@@ -0,0 +1,59 @@
+const { mapTokenRow } = require('./tokenMapper');
+const { evaluateSecurity } = require('./security');
+const { readHistorySources } = require('./tokenHistory');
+
+// Higher is worse; moving up this scale between scans is a regression
+const LEVEL_RANK = { safe: 0, warning: 1, danger: 2 };
+
+async function readFullHistoryTable(sessionDb, table) {
+  return sessionDb.all(`SELECT * FROM "${table}" ORDER BY scan_timestamp ASC`);
+}
+
+// Classify every scan of a token with the current security rules and keep the
+// scans where the level or the set of fired rules changed.
+// Each entry lists the rules that started (added) and stopped (removed) firing;
+// regression marks a worse level or a newly fired rule. The first scan is the baseline.
+async function getSecurityHistory(address, session) {
+  const { rows, sources } = await readHistorySources(address, session, readFullHistoryTable);
+
+  // A scan recorded in two sessions is classified once
+  const seen = new Set();
+  const scans = rows
+    .sort((a, b) => String(a.row.scan_timestamp).localeCompare(String(b.row.scan_timestamp)))
+    .filter(({ row }) => {
+      if (seen.has(row.scan_timestamp)) return false;
+      seen.add(row.scan_timestamp);
+      return true;
+    });
+
+  const timeline = [];
+  let previous = null;
+
+  scans.forEach(({ row, session: rowSession }) => {
+    const { securityLevel, reasons } = evaluateSecurity(mapTokenRow(row).token);
+    const previousIds = new Set(previous ? previous.reasons.map(reason => reason.id) : []);
+    const currentIds = new Set(reasons.map(reason => reason.id));
+    const added = reasons.filter(reason => !previousIds.has(reason.id));
+    const removed = previous ? previous.reasons.filter(reason => !currentIds.has(reason.id)) : [];
+
+    if (!previous || securityLevel !== previous.securityLevel || added.length > 0 || removed.length > 0) {
+      timeline.push({
+        scanTimestamp: row.scan_timestamp,
+        session: rowSession,
+        securityLevel,
+        previousLevel: previous ? previous.securityLevel : null,
+        added,
+        removed,
+        regression: previous !== null &&
+          (LEVEL_RANK[securityLevel] > LEVEL_RANK[previous.securityLevel] || added.length > 0)
+      });
+    }
+    previous = { securityLevel, reasons };
+  });
+
+  return { timeline, scanCount: scans.length, sources };
+}
+
+module.exports = {
+  getSecurityHistory
+};
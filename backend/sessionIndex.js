@@ -0,0 +1,235 @@
+const fs = require('fs');
+const db = require('./db');
+const store = require('./store');
+const { REMOVAL_TABLES } = require('./graveyard');
+
+// A session database changes through its -wal file between checkpoints,
+// so the newer of the two modification times decides whether to reindex
+function databaseModifiedAt(dbPath) {
+  return [dbPath, `${dbPath}-wal`]
+    .filter(file => fs.existsSync(file))
+    .reduce((latest, file) => Math.max(latest, fs.statSync(file).mtimeMs), 0);
+}
+
+// Collect one entry per token address from every table that mentions it
+async function readSessionTokens(sessionDb) {
+  const entries = new Map();
+  const entryFor = (address) => {
+    const key = address.toLowerCase();
+    if (!entries.has(key)) {
+      entries.set(key, {
+        address,
+        name: null,
+        symbol: null,
+        firstScan: null,
+        lastScan: null,
+        location: null,
+        historyTable: null,
+        creatorAddress: null,
+        deployerAddress: null,
+        isHoneypot: false
+      });
+    }
+    return entries.get(key);
+  };
+  const setWallets = (entry, row) => {
+    entry.creatorAddress = row.hp_creator_address || row.gp_creator_address || null;
+    entry.deployerAddress = row.hp_deployer_address || null;
+    entry.isHoneypot = Boolean(row.hp_is_honeypot);
+  };
+  const widen = (entry, first, last) => {
+    if (first && (!entry.firstScan || first < entry.firstScan)) entry.firstScan = first;
+    if (last && (!entry.lastScan || last > entry.lastScan)) entry.lastScan = last;
+  };
+
+  const tables = new Set((await sessionDb.all("SELECT name FROM sqlite_master WHERE type='table'"))
+    .map(table => table.name));
+
+  const records = await sessionDb.all('SELECT * FROM scan_records');
+  records.forEach(row => {
+    const entry = entryFor(row.token_address);
+    entry.name = row.token_name;
+    entry.symbol = row.token_symbol;
+    entry.location = 'scan_records';
+    setWallets(entry, row);
+    widen(entry, row.scan_timestamp, row.scan_timestamp);
+  });
+
+  for (const table of REMOVAL_TABLES.filter(name => tables.has(name))) {
+    const rows = await sessionDb.all(`
+      SELECT token_address, token_name, token_symbol, original_scan_timestamp, removal_timestamp
+      FROM "${table}"
+    `);
+    rows.forEach(row => {
+      const entry = entryFor(row.token_address);
+      entry.name = entry.name || row.token_name;
+      entry.symbol = entry.symbol || row.token_symbol;
+      entry.location = entry.location || table;
+      entry.isHoneypot = entry.isHoneypot || table === 'HONEYPOTS';
+      widen(entry, row.original_scan_timestamp, row.removal_timestamp);
+    });
+  }
+
+  if (tables.has('token_tables')) {
+    const rows = await sessionDb.all('SELECT table_name, token_address, token_name, created_at FROM token_tables');
+    rows.filter(row => tables.has(row.table_name)).forEach(row => {
+      const entry = entryFor(row.token_address);
+      entry.name = entry.name || row.token_name;
+      entry.historyTable = row.table_name;
+      widen(entry, row.created_at, null);
+    });
+  }
+
+  // Removal tables have no wallet columns, the token's last history row does
+  for (const entry of entries.values()) {
+    if (entry.location === 'scan_records' || !entry.historyTable) continue;
+    try {
+      const row = await sessionDb.get(`SELECT * FROM "${entry.historyTable}" ORDER BY scan_timestamp DESC LIMIT 1`);
+      if (row) {
+        const isHoneypot = entry.isHoneypot;
+        setWallets(entry, row);
+        entry.isHoneypot = entry.isHoneypot || isHoneypot;
+      }
+    } catch (err) {
+      console.error(`Error reading wallets from ${entry.historyTable}:`, err.message);
+    }
+  }
+
+  return [...entries.values()];
+}
+
+// Replace the index rows of one session
+async function indexSession(folder, modifiedAt) {
+  const sessionDb = await db.forSession(folder.name);
+  const tokens = await readSessionTokens(sessionDb);
+
+  await store.transaction(async () => {
+    await store.run('DELETE FROM session_index WHERE session = ?', [folder.name]);
+    for (const token of tokens) {
+      await store.run(`
+        INSERT INTO session_index
+          (session, token_address, token_name, token_symbol, first_scan, last_scan, location, history_table,
+           creator_address, deployer_address, is_honeypot)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        folder.name,
+        token.address,
+        token.name,
+        token.symbol,
+        token.firstScan,
+        token.lastScan,
+        token.location,
+        token.historyTable,
+        token.creatorAddress,
+        token.deployerAddress,
+        token.isHoneypot ? 1 : 0
+      ]);
+    }
+    await store.run(`
+      INSERT OR REPLACE INTO indexed_sessions (session, modified_at, indexed_at, token_count)
+      VALUES (?, ?, ?, ?)
+    `, [folder.name, modifiedAt, Date.now(), tokens.length]);
+  });
+
+  return tokens.length;
+}
+
+let refreshing = null;
+
+// Reindex every session whose database changed since it was last indexed.
+// Concurrent callers share the refresh already in progress.
+function refreshIndex() {
+  if (!refreshing) {
+    refreshing = (async () => {
+      const indexed = new Map((await store.all('SELECT session, modified_at FROM indexed_sessions'))
+        .map(row => [row.session, row.modified_at]));
+      const folders = db.getSessionFolders();
+      let reindexed = 0;
+
+      // Drop sessions whose folder is gone
+      for (const session of indexed.keys()) {
+        if (folders.some(folder => folder.name === session)) continue;
+        await store.transaction(async () => {
+          await store.run('DELETE FROM session_index WHERE session = ?', [session]);
+          await store.run('DELETE FROM indexed_sessions WHERE session = ?', [session]);
+        });
+      }
+
+      for (const folder of folders) {
+        const modifiedAt = databaseModifiedAt(folder.dbPath);
+        if (indexed.get(folder.name) === modifiedAt) continue;
+
+        try {
+          const count = await indexSession(folder, modifiedAt);
+          console.log(`Indexed ${count} tokens from session ${folder.name}`);
+          reindexed++;
+        } catch (err) {
+          console.error(`Error indexing session ${folder.name}:`, err.message);
+        }
+      }
+
+      return reindexed;
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+// Search the index by address, name or symbol.
+// Returns one result per token with every session it appeared in, most recently seen first.
+async function searchTokens(query, limit = 50) {
+  const rows = await store.all(`
+    SELECT *
+    FROM session_index
+    WHERE instr(LOWER(token_address), LOWER(?)) > 0
+       OR instr(LOWER(COALESCE(token_name, '')), LOWER(?)) > 0
+       OR instr(LOWER(COALESCE(token_symbol, '')), LOWER(?)) > 0
+    ORDER BY last_scan DESC
+  `, [query, query, query]);
+
+  const results = new Map();
+  rows.forEach(row => {
+    const key = row.token_address.toLowerCase();
+    if (!results.has(key)) {
+      results.set(key, {
+        address: row.token_address,
+        name: row.token_name,
+        symbol: row.token_symbol,
+        firstSeen: row.first_scan,
+        lastSeen: row.last_scan,
+        sessions: []
+      });
+    }
+    const result = results.get(key);
+    if (row.first_scan && (!result.firstSeen || row.first_scan < result.firstSeen)) {
+      result.firstSeen = row.first_scan;
+    }
+    result.sessions.push({
+      session: row.session,
+      firstScan: row.first_scan,
+      lastScan: row.last_scan,
+      location: row.location,
+      hasHistory: row.history_table !== null
+    });
+  });
+
+  return [...results.values()].slice(0, limit);
+}
+
+// Sessions with a history table for the token, oldest first
+async function getHistoryTables(address) {
+  const rows = await store.all(`
+    SELECT session, history_table, first_scan
+    FROM session_index
+    WHERE LOWER(token_address) = LOWER(?) AND history_table IS NOT NULL
+    ORDER BY first_scan ASC
+  `, [address]);
+  return rows.map(row => ({ session: row.session, table: row.history_table }));
+}
+
+module.exports = {
+  refreshIndex,
+  searchTokens,
+  getHistoryTables
+};
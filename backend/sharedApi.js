@@ -0,0 +1,100 @@
+const express = require('express');
+const cors = require('cors');
+const alertRules = require('./alertRules');
+
+// Middleware and routes mounted by both the live server (index.js) and the
+// replay server, so the two can't drift apart
+
+// Allow any localhost connection or no origin (like direct HTTP requests)
+function localhostCors() {
+  return cors({
+    origin: function(origin, callback) {
+      if (!origin || origin.startsWith('http://localhost:') || origin.startsWith('https://localhost:')) {
+        callback(null, true);
+      } else {
+        callback(new Error('Not allowed by CORS'));
+      }
+    },
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization'],
+    credentials: true
+  });
+}
+
+// Alert rule CRUD, mounted at /api/alert-rules. currentTokens() returns the
+// server's tracked tokens, primed after each change so tokens already matching a
+// new or changed rule don't alert, only ones that start matching.
+function alertRulesRouter(currentTokens) {
+  const router = express.Router();
+
+  // Saved alert rules plus the fields and operators a condition can use
+  router.get('/', async (req, res) => {
+    try {
+      const rules = await alertRules.listRules();
+      res.json({ rules, fields: alertRules.describeFields() });
+    } catch (err) {
+      console.error('Error fetching alert rules:', err);
+      res.status(500).json({ error: 'Failed to fetch alert rules' });
+    }
+  });
+
+  router.post('/', async (req, res) => {
+    try {
+      const rule = await alertRules.createRule(req.body);
+      await alertRules.primeMatches([...currentTokens()]);
+      res.status(201).json(rule);
+    } catch (err) {
+      if (err instanceof alertRules.AlertRuleError) {
+        return res.status(400).json({ error: err.message });
+      }
+      console.error('Error creating alert rule:', err);
+      res.status(500).json({ error: 'Failed to create alert rule' });
+    }
+  });
+
+  router.put('/:id', async (req, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ error: 'id must be an integer' });
+    }
+
+    try {
+      const rule = await alertRules.updateRule(id, req.body);
+      if (!rule) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      await alertRules.primeMatches([...currentTokens()]);
+      res.json(rule);
+    } catch (err) {
+      if (err instanceof alertRules.AlertRuleError) {
+        return res.status(400).json({ error: err.message });
+      }
+      console.error('Error updating alert rule:', err);
+      res.status(500).json({ error: 'Failed to update alert rule' });
+    }
+  });
+
+  router.delete('/:id', async (req, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ error: 'id must be an integer' });
+    }
+
+    try {
+      if (!await alertRules.deleteRule(id)) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      res.status(204).end();
+    } catch (err) {
+      console.error('Error deleting alert rule:', err);
+      res.status(500).json({ error: 'Failed to delete alert rule' });
+    }
+  });
+
+  return router;
+}
+
+module.exports = {
+  localhostCors,
+  alertRulesRouter
+};
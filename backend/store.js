@@ -0,0 +1,237 @@
+const sqlite3 = require('sqlite3').verbose();
+const path = require('path');
+const fs = require('fs');
+const { AsyncLocalStorage } = require('async_hooks');
+
+// Backend-owned database, kept apart from the monitor's SCAN_RECORDS.db
+const storePath = process.env.STORE_PATH || path.join(__dirname, 'data', 'token_cards.db');
+fs.mkdirSync(path.dirname(storePath), { recursive: true });
+console.log('Store location:', storePath);
+
+const store = new sqlite3.Database(storePath, (err) => {
+  if (err) {
+    console.error('Error opening store database:', err.message);
+    process.exit(1);
+  }
+});
+
+// Promisify database methods
+const rawAll = (query, params = []) => {
+  return new Promise((resolve, reject) => {
+    store.all(query, params, (err, rows) => {
+      if (err) return reject(err);
+      resolve(rows);
+    });
+  });
+};
+
+const rawGet = (query, params = []) => {
+  return new Promise((resolve, reject) => {
+    store.get(query, params, (err, row) => {
+      if (err) return reject(err);
+      resolve(row);
+    });
+  });
+};
+
+const rawRun = (query, params = []) => {
+  return new Promise((resolve, reject) => {
+    store.run(query, params, function (err) {
+      if (err) return reject(err);
+      resolve({ lastID: this.lastID, changes: this.changes });
+    });
+  });
+};
+
+// Tables are created once on startup
+const createTables = () => new Promise((resolve, reject) => {
+  store.serialize(() => {
+    store.run(`
+      CREATE TABLE IF NOT EXISTS token_scores (
+        session TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        scan_timestamp TEXT NOT NULL,
+        market REAL,
+        security REAL,
+        liquidity REAL,
+        growth REAL,
+        combined REAL,
+        factors TEXT,
+        PRIMARY KEY (session, token_address, scan_timestamp)
+      )
+    `);
+    store.run('CREATE INDEX IF NOT EXISTS idx_token_scores_address ON token_scores(token_address, scan_timestamp)');
+
+    // Cross-session token index, rebuilt per session when its database changes
+    store.run(`
+      CREATE TABLE IF NOT EXISTS session_index (
+        session TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        token_name TEXT,
+        token_symbol TEXT,
+        first_scan TEXT,
+        last_scan TEXT,
+        location TEXT,
+        history_table TEXT,
+        PRIMARY KEY (session, token_address)
+      )
+    `);
+    store.run('CREATE INDEX IF NOT EXISTS idx_session_index_address ON session_index(token_address)');
+    store.run(`
+      CREATE TABLE IF NOT EXISTS indexed_sessions (
+        session TEXT PRIMARY KEY,
+        modified_at INTEGER NOT NULL,
+        indexed_at INTEGER NOT NULL,
+        token_count INTEGER NOT NULL
+      )
+    `);
+
+    // Liquidity drain and rug alerts raised by the rug detector, one per history row
+    store.run(`
+      CREATE TABLE IF NOT EXISTS rug_alerts (
+        session TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        scan_timestamp TEXT NOT NULL,
+        previous_scan_timestamp TEXT,
+        token_name TEXT,
+        token_symbol TEXT,
+        checks TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (session, token_address, scan_timestamp)
+      )
+    `);
+    store.run('CREATE INDEX IF NOT EXISTS idx_rug_alerts_created ON rug_alerts(created_at)');
+
+    // Alert rules defined in the UI, conditions are a JSON array of { field, op, value }
+    store.run(`
+      CREATE TABLE IF NOT EXISTS alert_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        conditions TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    // Outbound webhook targets and every delivery attempt made to them
+    store.run(`
+      CREATE TABLE IF NOT EXISTS webhook_targets (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        url TEXT NOT NULL,
+        events TEXT NOT NULL,
+        filter TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at INTEGER NOT NULL
+      )
+    `);
+    store.run(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        target_id INTEGER NOT NULL,
+        event TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        last_error TEXT,
+        created_at INTEGER NOT NULL,
+        next_attempt_at INTEGER,
+        delivered_at INTEGER
+      )
+    `);
+    store.run('CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at)');
+
+    // Tokens pinned from the UI with a free-text note and tags
+    store.run(`
+      CREATE TABLE IF NOT EXISTS watchlist (
+        token_address TEXT PRIMARY KEY COLLATE NOCASE,
+        note TEXT NOT NULL DEFAULT '',
+        tags TEXT NOT NULL DEFAULT '[]',
+        added_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    // LP unlock warnings already sent, one per lock and lead time
+    store.run(`
+      CREATE TABLE IF NOT EXISTS lp_unlock_warnings (
+        token_address TEXT NOT NULL,
+        holder_address TEXT NOT NULL,
+        unlock_at INTEGER NOT NULL,
+        lead_minutes INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (token_address, holder_address, unlock_at, lead_minutes)
+      )
+    `);
+    store.run('SELECT 1', (err) => (err ? reject(err) : resolve()));
+  });
+});
+
+// Columns added after a table first shipped, as [table, column, definition].
+// Adding a session_index column forces every session to be reindexed.
+const ADDED_COLUMNS = [
+  ['session_index', 'creator_address', 'TEXT'],
+  ['session_index', 'deployer_address', 'TEXT'],
+  ['session_index', 'is_honeypot', 'INTEGER']
+];
+
+const migrate = async () => {
+  for (const [table, column, definition] of ADDED_COLUMNS) {
+    const columns = await rawAll(`PRAGMA table_info(${table})`);
+    if (columns.some(col => col.name === column)) continue;
+
+    await rawRun(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    if (table === 'session_index') {
+      await rawRun('DELETE FROM indexed_sessions');
+    }
+  }
+};
+
+// Queries wait until the tables exist and are migrated
+const ready = createTables()
+  .then(migrate)
+  .catch(err => {
+    console.error('Error preparing store database:', err.message);
+    process.exit(1);
+  });
+
+// Everything shares one connection, so a statement issued while a transaction is
+// open would run inside it and be rolled back with it. Statements and transactions
+// therefore take turns in one queue; only the open transaction's own statements,
+// recognised by their async context, skip it.
+const insideTransaction = new AsyncLocalStorage();
+let queue = ready;
+
+const enqueue = (task) => {
+  if (insideTransaction.getStore()) return task();
+  const result = queue.then(task);
+  queue = result.catch(() => {});
+  return result;
+};
+
+const all = (query, params) => enqueue(() => rawAll(query, params));
+const get = (query, params) => enqueue(() => rawGet(query, params));
+const run = (query, params) => enqueue(() => rawRun(query, params));
+
+// Run work inside BEGIN/COMMIT. A transaction started inside another joins it.
+const transaction = (work) => enqueue(async () => {
+  if (insideTransaction.getStore()) return work();
+  await rawRun('BEGIN');
+  try {
+    const value = await insideTransaction.run(true, work);
+    await rawRun('COMMIT');
+    return value;
+  } catch (err) {
+    await rawRun('ROLLBACK');
+    throw err;
+  }
+});
+
+module.exports = {
+  all,
+  get,
+  run,
+  transaction,
+  store
+};
@@ -0,0 +1,142 @@
+const { AlertRuleError, parseCondition, conditionsMatch } = require('./alertRules');
+const { QueryError, parseTokenQuery, matchesQuery } = require('./tokenQuery');
+
+class SubscriptionError extends Error {}
+
+const MAX_FILTER_CONDITIONS = 20;
+const TOPIC_PATTERN = /^(tokens|alerts|history|watchlist|token:0x[0-9a-f]{40})$/;
+
+// Topics each event is published under. Events about one token are also published
+// under token:<address>. Anything not listed (CONNECTED, PONG, SESSION_CHANGED, ...)
+// goes to every client.
+const EVENT_TOPICS = {
+  NEW_TOKEN: ['tokens'],
+  TOKEN_UPDATED: ['tokens'],
+  TOKEN_REMOVED: ['tokens'],
+  // Also an alert, so the graveyard hears of demotions hidden by a token list filter
+  TOKEN_DEMOTED: ['tokens', 'alerts'],
+  HISTORY_POINT: ['history'],
+  RUG_ALERT: ['alerts'],
+  ALERT_MATCH: ['alerts'],
+  LP_UNLOCK_WARNING: ['alerts'],
+  WATCHLIST_CHANGED: ['watchlist']
+};
+
+// Validate a SUBSCRIBE or UNSUBSCRIBE topic list. Addresses are lowercased.
+function parseTopics(topics) {
+  if (!Array.isArray(topics) || topics.length === 0) {
+    throw new SubscriptionError('topics must be a non-empty array');
+  }
+  return topics.map(topic => {
+    const normalized = typeof topic === 'string' ? topic.trim().toLowerCase() : '';
+    if (!TOPIC_PATTERN.test(normalized)) {
+      throw new SubscriptionError(`Unknown topic: ${topic}. Use tokens, alerts, history, watchlist or token:<address>`);
+    }
+    return normalized;
+  });
+}
+
+// The optional filter uses the alert rule condition format, like webhook filters, or
+// is an object of GET /api/tokens query parameters so a client's pushes match the
+// token list it fetched (sorting and paging parameters are ignored)
+function parseFilter(filter) {
+  if (filter === undefined || filter === null) return [];
+  if (typeof filter === 'object' && !Array.isArray(filter)) {
+    try {
+      return parseTokenQuery(filter);
+    } catch (err) {
+      if (err instanceof QueryError) throw new SubscriptionError(`filter: ${err.message}`);
+      throw err;
+    }
+  }
+  if (!Array.isArray(filter) || filter.length > MAX_FILTER_CONDITIONS) {
+    throw new SubscriptionError(`filter must be an array of at most ${MAX_FILTER_CONDITIONS} conditions`);
+  }
+  try {
+    return filter.map((condition, index) => parseCondition(condition, `filter[${index}]`));
+  } catch (err) {
+    if (err instanceof AlertRuleError) throw new SubscriptionError(err.message);
+    throw err;
+  }
+}
+
+// Apply a client's SUBSCRIBE or UNSUBSCRIBE message to its topic map (topic -> filter).
+// Subscribing again to a topic replaces its filter. Throws SubscriptionError.
+function applySubscriptionMessage(subscriptions, message) {
+  const topics = parseTopics(message.topics);
+
+  if (message.type === 'SUBSCRIBE') {
+    const filter = parseFilter(message.filter);
+    topics.forEach(topic => subscriptions.set(topic, filter));
+  } else {
+    topics.forEach(topic => subscriptions.delete(topic));
+  }
+  return subscriptions;
+}
+
+// The token an event is about, if any
+function eventAddress(data) {
+  const subject = data.address || (data.token && data.token.address) ||
+    (data.alert && data.alert.address) || (data.warning && data.warning.address);
+  return subject || null;
+}
+
+// Whether a token passes a topic filter, either conditions or a parsed token query
+function passesFilter(filter, token) {
+  return Array.isArray(filter) ? conditionsMatch(filter, token) : matchesQuery(token, filter);
+}
+
+// Whether a client should get an event. subscriptions is null for clients that
+// never subscribed; they keep getting everything. token is the Token the event is
+// about, matched against topic filters; filtered topics skip events without one.
+// Watched tokens always get their updates pushed, so their events skip the filters.
+function wantsEvent(subscriptions, data, token, watched = false) {
+  if (subscriptions === null) return true;
+  const topics = EVENT_TOPICS[data.type];
+  if (!topics) return true;
+
+  const address = eventAddress(data);
+  const candidates = address ? [...topics, `token:${address.toLowerCase()}`] : topics;
+  return candidates.some(topic => {
+    const filter = subscriptions.get(topic);
+    if (!filter) return false;
+    return (Array.isArray(filter) && filter.length === 0) || watched || Boolean(token && passesFilter(filter, token));
+  });
+}
+
+// The message a client gets for an event, or null. subject describes the event's
+// token: { token, previous, watched }, previous being the token before a
+// TOKEN_UPDATED. An update that moves a token out of the client's filters becomes
+// TOKEN_LEFT_FILTER, so the client drops it instead of keeping a stale copy, and
+// one that moves it in becomes TOKEN_ENTERED_FILTER with the whole token, since
+// the client never got it. Both keep the event's seq. Events about watched tokens
+// outside the filters are still sent, marked outsideFilter so a filtered list
+// leaves them out.
+function messageFor(subscriptions, event, subject = {}) {
+  const { token = null, previous = null, watched = false } = subject;
+  const wanted = wantsEvent(subscriptions, event, token);
+  if (event.type === 'TOKEN_UPDATED' && previous) {
+    const wantedBefore = wantsEvent(subscriptions, event, previous);
+    if (wanted && !wantedBefore) {
+      return { type: 'TOKEN_ENTERED_FILTER', address: event.address, token, seq: event.seq };
+    }
+    if (!wanted && wantedBefore && !watched) {
+      return { type: 'TOKEN_LEFT_FILTER', address: event.address, seq: event.seq };
+    }
+  }
+  if (wanted) return event;
+  return watched && wantsEvent(subscriptions, event, token, true) ? { ...event, outsideFilter: true } : null;
+}
+
+// Topics and filters as reported back in SUBSCRIBED
+function describeSubscriptions(subscriptions) {
+  return [...subscriptions.entries()].map(([topic, filter]) => ({ topic, filter }));
+}
+
+module.exports = {
+  SubscriptionError,
+  applySubscriptionMessage,
+  eventAddress,
+  messageFor,
+  describeSubscriptions
+};
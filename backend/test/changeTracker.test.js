@@ -0,0 +1,147 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const sqlite3 = require('sqlite3');
+const { useTempMonitor } = require('./helpers');
+
+// A session database with the columns the tracker and graveyard read, written
+// through its own connection while changeTracker polls it through db.js
+const dbPath = useTempMonitor('change-tracker');
+
+const SCHEMA = `
+  CREATE TABLE scan_records (
+    token_address TEXT PRIMARY KEY,
+    scan_timestamp TEXT NOT NULL,
+    token_name TEXT,
+    token_symbol TEXT,
+    total_scans INTEGER
+  );
+  CREATE TABLE HONEYPOTS (
+    token_address TEXT PRIMARY KEY,
+    removal_timestamp TEXT NOT NULL,
+    original_scan_timestamp TEXT,
+    token_name TEXT,
+    token_symbol TEXT,
+    removal_reason TEXT
+  );
+  CREATE TABLE xHoneypot_removed (
+    token_address TEXT PRIMARY KEY,
+    removal_timestamp TEXT NOT NULL,
+    original_scan_timestamp TEXT,
+    token_name TEXT,
+    token_symbol TEXT,
+    removal_reason TEXT
+  );
+`;
+
+const address = (n) => `0x00000000000000000000000000000000000ab${String(n).padStart(3, '0')}`;
+
+let fixture;
+let changeTracker;
+
+const run = (sql, params = []) => new Promise((resolve, reject) => {
+  fixture.run(sql, params, err => (err ? reject(err) : resolve()));
+});
+
+const scan = (n, scanTimestamp, totalScans) => run(
+  'INSERT OR REPLACE INTO scan_records (token_address, scan_timestamp, token_name, token_symbol, total_scans) VALUES (?, ?, ?, ?, ?)',
+  [address(n), scanTimestamp, `Token ${n}`, `T${n}`, totalScans]
+);
+
+// Move a token into a removal table the way the monitor demotes it
+const demote = async (n, table, removalTimestamp, reason) => {
+  await run('DELETE FROM scan_records WHERE token_address = ?', [address(n)]);
+  await run(
+    `INSERT INTO "${table}" (token_address, removal_timestamp, original_scan_timestamp, token_name, token_symbol, removal_reason) VALUES (?, ?, ?, ?, ?, ?)`,
+    [address(n), removalTimestamp, '2026-10-19 17:00:00', `Token ${n}`, `T${n}`, reason]
+  );
+};
+
+// Events without the full rows, which only echo the fixture
+const summarize = (events) => events.map(event => ({
+  type: event.type,
+  address: event.address,
+  scanTimestamp: event.row ? event.row.scan_timestamp : null,
+  previousScanTimestamp: event.previousScanTimestamp,
+  removal: event.removal && [event.removal.table, event.removal.removalTimestamp, event.removal.reason]
+}));
+
+before(async () => {
+  fixture = await new Promise((resolve, reject) => {
+    const connection = new sqlite3.Database(dbPath, err => (err ? reject(err) : resolve(connection)));
+  });
+  await new Promise((resolve, reject) => fixture.exec(SCHEMA, err => (err ? reject(err) : resolve())));
+  await scan(1, '2026-10-19 18:00:00', 1);
+  await scan(2, '2026-10-19 18:00:00', 1);
+  await scan(3, '2026-10-19 18:00:00', 1);
+  // Demoted before the tracker started, found again if its token disappears later
+  await run(
+    "INSERT INTO HONEYPOTS (token_address, removal_timestamp, token_name, removal_reason) VALUES (?, '2026-10-19 17:30:00', 'Token 9', 'old')",
+    [address(9)]
+  );
+
+  changeTracker = require('../changeTracker');
+});
+
+after(() => new Promise(resolve => fixture.close(resolve)));
+
+test('the first cycle primes the watermarks and reports nothing', async () => {
+  assert.deepEqual(await changeTracker.detectChanges(), []);
+  assert.deepEqual(await changeTracker.detectChanges(), []);
+});
+
+test('inserts and updates are reported once, in scan order, with the scan before', async () => {
+  await scan(4, '2026-10-19 18:10:00', 1);
+  await scan(2, '2026-10-19 18:05:00', 2);
+  // Same scan_timestamp, another scan counted
+  await scan(3, '2026-10-19 18:00:00', 2);
+
+  assert.deepEqual(summarize(await changeTracker.detectChanges()), [
+    { type: 'updated', address: address(3), scanTimestamp: '2026-10-19 18:00:00', previousScanTimestamp: '2026-10-19 18:00:00', removal: null },
+    { type: 'updated', address: address(2), scanTimestamp: '2026-10-19 18:05:00', previousScanTimestamp: '2026-10-19 18:00:00', removal: null },
+    { type: 'inserted', address: address(4), scanTimestamp: '2026-10-19 18:10:00', previousScanTimestamp: null, removal: null }
+  ]);
+  assert.deepEqual(await changeTracker.detectChanges(), []);
+});
+
+test('removals carry the removal row written since the last cycle', async () => {
+  await demote(1, 'HONEYPOTS', '2026-10-19 18:20:00', 'honeypot');
+  await demote(4, 'xHoneypot_removed', '2026-10-19 18:15:00', 'liquidity removed');
+
+  assert.deepEqual(summarize(await changeTracker.detectChanges()), [
+    { type: 'removed', address: address(4), scanTimestamp: null, previousScanTimestamp: undefined, removal: ['xHoneypot_removed', '2026-10-19 18:15:00', 'liquidity removed'] },
+    { type: 'removed', address: address(1), scanTimestamp: null, previousScanTimestamp: undefined, removal: ['HONEYPOTS', '2026-10-19 18:20:00', 'honeypot'] }
+  ]);
+  // The removal table watermarks keep them from being reported again
+  assert.deepEqual(await changeTracker.detectChanges(), []);
+});
+
+test('a token inserted and demoted between two cycles is still reported', async () => {
+  await run(
+    "INSERT INTO HONEYPOTS (token_address, removal_timestamp, token_name, removal_reason) VALUES (?, '2026-10-19 18:30:00', 'Token 5', 'honeypot')",
+    [address(5)]
+  );
+  assert.deepEqual(summarize(await changeTracker.detectChanges()), [
+    { type: 'removed', address: address(5), scanTimestamp: null, previousScanTimestamp: undefined, removal: ['HONEYPOTS', '2026-10-19 18:30:00', 'honeypot'] }
+  ]);
+});
+
+test('a vanished token falls back to an older removal row, or none', async () => {
+  // Token 9's HONEYPOTS row predates the tracker, so only the lookup finds it
+  await scan(9, '2026-10-19 18:40:00', 3);
+  assert.equal((await changeTracker.detectChanges())[0].type, 'inserted');
+  await run('DELETE FROM scan_records WHERE token_address IN (?, ?)', [address(9), address(2)]);
+
+  const events = summarize(await changeTracker.detectChanges());
+  assert.deepEqual(events.map(event => [event.address, event.removal]), [
+    [address(2), null],
+    [address(9), ['HONEYPOTS', '2026-10-19 17:30:00', 'old']]
+  ]);
+});
+
+test('reset forgets the watermarks and re-primes', async () => {
+  changeTracker.reset();
+  await scan(6, '2026-10-19 18:50:00', 1);
+  assert.deepEqual(await changeTracker.detectChanges(), []);
+  await scan(6, '2026-10-19 18:55:00', 2);
+  assert.deepEqual(summarize(await changeTracker.detectChanges()).map(event => event.type), ['updated']);
+});
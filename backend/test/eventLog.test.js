@@ -0,0 +1,99 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { useTempStore } = require('./helpers');
+
+// alertRules (through subscriptions) opens the store, keep it out of backend/data
+useTempStore('event-log');
+
+const { createEventLog } = require('../eventLog');
+const { applySubscriptionMessage, messageFor } = require('../subscriptions');
+
+const ADDRESS = '0x00000000000000000000000000000000000abc05';
+const OTHER = '0x00000000000000000000000000000000000abc06';
+
+const everything = (event) => event;
+const alertsOnly = applySubscriptionMessage(new Map(), { type: 'SUBSCRIBE', topics: ['alerts'] });
+
+// A log holding seq 1..count, NEW_TOKEN events alternating between two tokens
+function filledLog(capacity, count) {
+  const log = createEventLog(capacity);
+  for (let i = 0; i < count; i++) {
+    const token = { address: i % 2 === 0 ? ADDRESS : OTHER, securityLevel: 'safe' };
+    log.record({ type: 'NEW_TOKEN', token }, { token });
+  }
+  return log;
+}
+
+test('record stamps consecutive sequence numbers', () => {
+  const log = createEventLog(5);
+  assert.equal(log.lastSeq(), 0);
+  const changed = { type: 'SESSION_CHANGED', session: 'October 19 - Session 2' };
+  assert.deepEqual(log.record(changed, {}), { ...changed, seq: 1 });
+  assert.equal(log.record(changed, {}).seq, 2);
+  assert.equal(log.lastSeq(), 2);
+  assert.notEqual(createEventLog(5).streamId, log.streamId);
+});
+
+test('an in-window RESUME replays the events after lastSeq, then RESUMED', () => {
+  const log = filledLog(10, 5);
+  const replies = log.resume({ streamId: log.streamId, lastSeq: 2 }, everything);
+  assert.deepEqual(replies.map(reply => reply.seq), [3, 4, 5, 5]);
+  assert.deepEqual(replies[3], { type: 'RESUMED', streamId: log.streamId, seq: 5, replayed: 3 });
+
+  const current = log.resume({ streamId: log.streamId, lastSeq: 5 }, everything);
+  assert.deepEqual(current, [{ type: 'RESUMED', streamId: log.streamId, seq: 5, replayed: 0 }]);
+});
+
+test('a replay reads the ring buffer after it wrapped', () => {
+  const log = filledLog(3, 7);
+  const replies = log.resume({ streamId: log.streamId, lastSeq: 4 }, everything);
+  assert.deepEqual(replies.map(reply => [reply.type, reply.seq]), [
+    ['NEW_TOKEN', 5], ['NEW_TOKEN', 6], ['NEW_TOKEN', 7], ['RESUMED', 7]
+  ]);
+});
+
+test('a replay is routed by the client\'s subscriptions', () => {
+  const log = filledLog(10, 2);
+  log.record({ type: 'RUG_ALERT', alert: { address: ADDRESS } }, { token: null });
+
+  const route = (event, subject) => messageFor(alertsOnly, event, subject);
+  const replies = log.resume({ streamId: log.streamId, lastSeq: 0 }, route);
+  assert.deepEqual(replies.map(reply => reply.type), ['RUG_ALERT', 'RESUMED']);
+  assert.equal(replies[0].seq, 3);
+  assert.equal(replies[1].replayed, 1);
+
+  // The recorded subject routes an update the way it was routed live
+  const filtered = applySubscriptionMessage(new Map(), {
+    type: 'SUBSCRIBE', topics: ['tokens'], filter: [{ field: 'securityLevel', op: '=', value: 'danger' }]
+  });
+  const danger = { address: ADDRESS, securityLevel: 'danger' };
+  log.record({ type: 'TOKEN_UPDATED', address: ADDRESS, changes: { securityLevel: 'danger' } },
+    { token: danger, previous: { address: ADDRESS, securityLevel: 'safe' } });
+  const [entered] = log.resume({ streamId: log.streamId, lastSeq: 3 }, (event, subject) => messageFor(filtered, event, subject));
+  assert.deepEqual(entered, { type: 'TOKEN_ENTERED_FILTER', address: ADDRESS, token: danger, seq: 4 });
+});
+
+test('a RESUME from another stream must resync', () => {
+  const log = filledLog(10, 3);
+  assert.deepEqual(log.resume({ streamId: 'an-older-stream', lastSeq: 1 }, everything), [{
+    type: 'RESYNC_REQUIRED', streamId: log.streamId, seq: 3, reason: 'The server restarted since the last event received'
+  }]);
+});
+
+test('a lastSeq that is not in the stream must resync', () => {
+  const log = filledLog(10, 3);
+  [4, -1, 1.5, '2', undefined].forEach(lastSeq => {
+    const [reply] = log.resume({ streamId: log.streamId, lastSeq }, everything);
+    assert.equal(reply.type, 'RESYNC_REQUIRED', `lastSeq ${lastSeq}`);
+    assert.equal(reply.reason, 'lastSeq is not a sequence number of this stream');
+  });
+});
+
+test('a gap larger than the buffer must resync', () => {
+  const log = filledLog(3, 7);
+  assert.deepEqual(log.resume({ streamId: log.streamId, lastSeq: 3 }, everything), [{
+    type: 'RESYNC_REQUIRED', streamId: log.streamId, seq: 7, reason: 'More than 3 events were missed'
+  }]);
+  // Exactly the buffer's worth is still served
+  assert.equal(log.resume({ streamId: log.streamId, lastSeq: 4 }, everything).length, 4);
+});
@@ -0,0 +1,54 @@
+const { after } = require('node:test');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Fixtures shared by the test files, each cleaned up once the file's tests finish
+
+// Files written by writeTempConfig, created on first use
+let configDir = null;
+let configCount = 0;
+
+after(() => {
+  if (configDir) fs.rmSync(configDir, { recursive: true, force: true });
+});
+
+// Point the store at a throwaway database. Call it before requiring anything that
+// opens the store.
+function useTempStore(prefix) {
+  const storeDir = fs.mkdtempSync(path.join(os.tmpdir(), `${prefix}-`));
+  process.env.STORE_PATH = path.join(storeDir, 'store.db');
+
+  after(async () => {
+    const store = require('../store');
+    // Let statements modules queued when loaded (table creation, caches) finish
+    await store.get('SELECT 1');
+    store.store.close();
+    fs.rmSync(storeDir, { recursive: true, force: true });
+  });
+}
+
+// Point db.js at a throwaway monitor folder with one session and return the path
+// of its SCAN_RECORDS.db, to be created before requiring anything that opens it
+function useTempMonitor(prefix, session = 'October 19 - Session 1') {
+  const monitorDir = fs.mkdtempSync(path.join(os.tmpdir(), `${prefix}-`));
+  fs.mkdirSync(path.join(monitorDir, session));
+  process.env.MONITOR_PATH = monitorDir;
+
+  after(() => fs.rmSync(monitorDir, { recursive: true, force: true }));
+  return path.join(monitorDir, session, 'SCAN_RECORDS.db');
+}
+
+// Write json to a new temporary file and return its path
+function writeTempConfig(prefix, json) {
+  if (!configDir) configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+  const file = path.join(configDir, `${prefix}-${++configCount}.json`);
+  fs.writeFileSync(file, JSON.stringify(json));
+  return file;
+}
+
+module.exports = {
+  useTempStore,
+  useTempMonitor,
+  writeTempConfig
+};
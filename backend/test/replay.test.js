@@ -0,0 +1,107 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+
+// A recorded log: GoPlus then Honeypot.is calls for one token scanned 11 times,
+// with its GoPlus response refreshed before scan 6, and a second token whose first
+// Honeypot.is call timed out
+process.env.API_LOGS_PATH = path.join(__dirname, 'fixtures');
+const LOG = 'api_calls_20261019_180000.json';
+const BRAIN = '0x6d6D04657d86341369C0b30ce7F34eb1219b8057';
+const OTHER = '0x3b6c4b9C8ab2Bbc23013e5591160DDA3C17F40BE';
+
+const { ReplayError, listLogs, parseSpeed, readLog, buildScans, createPlayer } = require('../replay');
+
+const scansOf = (scans, address) => scans.filter(scan => scan.row.token_address === address).map(scan => scan.row);
+
+// Play scans to the end and resolve with the played scans
+const playAll = (scans, speed) => new Promise(resolve => {
+  const played = [];
+  const player = createPlayer(scans, {
+    speed,
+    onScan: scan => played.push(scan),
+    onEnd: () => resolve({ played, status: player.status() })
+  });
+});
+
+test('the recorded log is listed and read in call order', () => {
+  assert.deepEqual(listLogs().map(log => log.name), [LOG]);
+  const calls = readLog(LOG);
+  assert.equal(calls.length, 15);
+  assert.deepEqual(calls.slice(0, 3).map(call => call.endpoint), ['goplus', 'honeypot', 'honeypot']);
+
+  assert.throws(() => readLog('../package.json'), ReplayError);
+  assert.throws(() => readLog('api_calls_20261019_190000.json'), /Unknown log/);
+});
+
+test('every Honeypot.is response becomes a scan, paired with the latest GoPlus response', () => {
+  const scans = buildScans(readLog(LOG));
+  assert.deepEqual(scans.map(scan => scan.row.token_address), [BRAIN, OTHER, ...Array(10).fill(BRAIN)]);
+  assert.deepEqual(scans.map(scan => scan.at), [...scans.map(scan => scan.at)].sort((a, b) => a - b));
+
+  const [first] = scans;
+  assert.equal(first.at, new Date('2026-10-19T18:00:01.000011').getTime());
+  assert.equal(first.row.scan_timestamp, '2026-10-19 18:00:01');
+  assert.equal(first.row.token_name, 'Brain AI');
+  assert.equal(first.row.hp_liquidity_amount, 1000);
+  assert.equal(first.row.gp_holder_count, 12);
+  assert.equal(first.row.gp_sell_tax, 0.05);
+  assert.equal(first.row.gp_is_open_source, 1);
+
+  const brain = scansOf(scans, BRAIN);
+  assert.deepEqual(brain.map(row => row.total_scans), [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+  assert.deepEqual(brain.map(row => row.gp_holder_count), [12, 12, 12, 12, 12, 40, 40, 40, 40, 40, 40]);
+});
+
+test('failed Honeypot.is calls count towards the next scan and a missing GoPlus response reads as empty', () => {
+  const [other] = scansOf(buildScans(readLog(LOG)), OTHER);
+  assert.equal(other.total_scans, 1);
+  assert.equal(other.honeypot_failures, 1);
+  assert.equal(other.hp_liquidity_amount, 250.5);
+  assert.equal(other.gp_holder_count, 0);
+  assert.equal(other.gp_trust_list, '{}');
+});
+
+test('liqN is filled on the Nth scan and carried on later scans', () => {
+  const brain = scansOf(buildScans(readLog(LOG)), BRAIN);
+  assert.deepEqual(brain.map(row => row.liq10), [null, null, null, null, null, null, null, null, null, 2000, 2000]);
+  assert.equal(brain[10].hp_liquidity_amount, 2100);
+  assert.equal(brain[10].liq20, null);
+  assert.equal(brain[10].liq200, null);
+});
+
+test('a max speed player plays every scan in order, then ends', async () => {
+  const scans = buildScans(readLog(LOG));
+  const { played, status } = await playAll(scans, 'max');
+  assert.deepEqual(played, scans);
+  assert.deepEqual(status, {
+    speed: 'max', position: 12, total: 12, finished: true, playedUntil: scans[11].at
+  });
+});
+
+test('a paced player waits the recorded gaps divided by the speed', async () => {
+  const scans = [{ at: 0, row: {} }, { at: 500, row: {} }, { at: 1000, row: {} }];
+  const started = Date.now();
+  const { played } = await playAll(scans, '10x');
+  assert.equal(played.length, 3);
+  assert.ok(Date.now() - started >= 90, 'two 50ms gaps at 10x');
+});
+
+test('stop ends playback without calling onEnd', async () => {
+  const scans = buildScans(readLog(LOG));
+  let ended = false;
+  const player = createPlayer(scans, { speed: 'max', onScan: () => player.stop(), onEnd: () => { ended = true; } });
+
+  await new Promise(resolve => setTimeout(resolve, 20));
+  assert.equal(ended, false);
+  assert.deepEqual(player.status(), {
+    speed: 'max', position: 1, total: 12, finished: false, playedUntil: scans[0].at
+  });
+});
+
+test('speed defaults to max and rejects unknown values', () => {
+  assert.equal(parseSpeed(undefined), 'max');
+  assert.equal(parseSpeed('10x'), '10x');
+  assert.throws(() => parseSpeed('2x'), /speed must be one of 1x, 10x, max/);
+  assert.throws(() => createPlayer([], { speed: 'fast', onScan: () => {} }), ReplayError);
+});
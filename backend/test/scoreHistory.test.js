@@ -0,0 +1,58 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { useTempStore } = require('./helpers');
+
+useTempStore('score-history');
+
+const store = require('../store');
+const { scoreToken } = require('../scoring');
+const { recordScores, getScoreHistory } = require('../scoreHistory');
+
+const ADDRESS = '0x00000000000000000000000000000000000AbC01';
+
+const scannedToken = (scanTimestamp, overrides) => {
+  const token = { address: ADDRESS, scanTimestamp, gpHolderCount: 60, liq30: 7000, gpIsOpenSource: true, ...overrides };
+  return { ...token, scores: scoreToken(token) };
+};
+
+test('recordScores stores each scan and getScoreHistory reads it back', async () => {
+  const first = scannedToken('2026-10-19 18:00:00', {});
+  const second = scannedToken('2026-10-19 18:05:00', { liq30: 60000 });
+  await recordScores('October 19 - Session 1', [first, second]);
+
+  const history = await getScoreHistory(ADDRESS.toLowerCase());
+  assert.equal(history.length, 2);
+  assert.deepEqual(history[0], {
+    session: 'October 19 - Session 1',
+    scanTimestamp: '2026-10-19 18:00:00',
+    timestamp: new Date('2026-10-19 18:00:00').getTime(),
+    market: first.scores.models.market.score,
+    security: first.scores.models.security.score,
+    liquidity: first.scores.models.liquidity.score,
+    growth: first.scores.models.growth.score,
+    combined: first.scores.combined
+  });
+  assert.equal(history[1].liquidity, second.scores.models.liquidity.score);
+  assert.ok(history[1].liquidity > history[0].liquidity);
+});
+
+test('recordScores keeps the factor breakdown per model', async () => {
+  const row = await store.get('SELECT factors FROM token_scores WHERE scan_timestamp = ?', ['2026-10-19 18:00:00']);
+  const factors = JSON.parse(row.factors);
+  assert.deepEqual(Object.keys(factors), ['market', 'security', 'liquidity', 'growth']);
+  assert.equal(factors.security[0].id, 'verification');
+  assert.equal(factors.security[0].points, 25);
+});
+
+test('recordScores writes a scan once', async () => {
+  await recordScores('October 19 - Session 1', [scannedToken('2026-10-19 18:00:00', { gpIsOpenSource: false })]);
+  const history = await getScoreHistory(ADDRESS);
+  assert.equal(history.length, 2);
+  assert.equal(history[0].security, 100);
+});
+
+test('recordScores with no tokens writes nothing', async () => {
+  await recordScores('October 19 - Session 2', []);
+  const row = await store.get('SELECT COUNT(*) AS count FROM token_scores WHERE session = ?', ['October 19 - Session 2']);
+  assert.equal(row.count, 0);
+});
@@ -0,0 +1,137 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { writeTempConfig } = require('./helpers');
+const { MODELS, loadWeights, scoreToken, getWeights } = require('../scoring');
+
+// Every factor at its maximum except scan volume (10 scans, 10 points)
+const STRONG_TOKEN = {
+  totalScans: 10,
+  honeypotFailures: 0,
+  buyGas: 100000,
+  sellGas: 120000,
+  gpHolderCount: 150,
+  gpBuyTax: 0,
+  gpSellTax: 0,
+  gpIsOpenSource: true,
+  gpHiddenOwner: false,
+  gpCanTakeBackOwnership: false,
+  gpIsMintable: false,
+  gpExternalCall: false,
+  liq30: 60000,
+  gpLpHolderCount: 3,
+  gpCannotSellAll: false,
+  gpOwnerPercent: 1
+};
+
+// Middle tiers and failing flags across every model
+const WEAK_TOKEN = {
+  totalScans: 4,
+  honeypotFailures: 1,
+  buyGas: 100000,
+  sellGas: 200000,
+  gpHolderCount: 60,
+  gpBuyTax: 3,
+  gpSellTax: 4,
+  gpIsOpenSource: false,
+  gpHiddenOwner: true,
+  gpCanTakeBackOwnership: false,
+  gpIsMintable: false,
+  gpExternalCall: true,
+  liq30: 7000,
+  gpLpHolderCount: 2,
+  gpCannotSellAll: true,
+  gpOwnerPercent: 12
+};
+
+const EQUAL_WEIGHTS = { market: 0.25, security: 0.25, liquidity: 0.25, growth: 0.25 };
+
+const factorPoints = (scores, model) => Object.fromEntries(
+  scores.models[model].factors.map(factor => [factor.id, factor.points])
+);
+
+const writeConfig = (config) => writeTempConfig('scoring', config);
+
+test('every model has four 25-point factors', () => {
+  assert.deepEqual(MODELS.map(model => model.id), ['market', 'security', 'liquidity', 'growth']);
+  MODELS.forEach(model => assert.equal(model.factors.length, 4));
+  scoreToken(STRONG_TOKEN).models.market.factors.forEach(factor => assert.equal(factor.maxPoints, 25));
+});
+
+test('market behavior factors', () => {
+  assert.deepEqual(factorPoints(scoreToken(STRONG_TOKEN), 'market'), {
+    txSuccess: 25, gasBalance: 25, distribution: 25, taxPattern: 25
+  });
+  assert.deepEqual(factorPoints(scoreToken(WEAK_TOKEN), 'market'), {
+    txSuccess: 18.75, gasBalance: 0, distribution: 15, taxPattern: 15
+  });
+  assert.equal(factorPoints(scoreToken({ ...WEAK_TOKEN, gpBuyTax: 0, gpSellTax: 10 }), 'market').taxPattern, 5);
+  assert.equal(factorPoints(scoreToken({ ...WEAK_TOKEN, gpHolderCount: 5 }), 'market').distribution, 5);
+});
+
+test('smart contract security factors', () => {
+  assert.deepEqual(factorPoints(scoreToken(STRONG_TOKEN), 'security'), {
+    verification: 25, ownership: 25, minting: 25, externalCalls: 25
+  });
+  assert.deepEqual(factorPoints(scoreToken(WEAK_TOKEN), 'security'), {
+    verification: 0, ownership: 0, minting: 25, externalCalls: 0
+  });
+});
+
+test('liquidity risk factors', () => {
+  assert.deepEqual(factorPoints(scoreToken(STRONG_TOKEN), 'liquidity'), {
+    depth: 25, lpHolders: 25, sellImpact: 25, lock: 25
+  });
+  assert.deepEqual(factorPoints(scoreToken(WEAK_TOKEN), 'liquidity'), {
+    depth: 15, lpHolders: 15, sellImpact: 0, lock: 25
+  });
+  assert.deepEqual(factorPoints(scoreToken({ ...WEAK_TOKEN, liq30: 500, gpLpHolderCount: 1 }), 'liquidity'), {
+    depth: 5, lpHolders: 5, sellImpact: 0, lock: 0
+  });
+});
+
+test('growth momentum factors', () => {
+  assert.deepEqual(factorPoints(scoreToken(STRONG_TOKEN), 'growth'), {
+    holders: 25, liquidityTrend: 25, volume: 10, ownerShare: 25
+  });
+  assert.deepEqual(factorPoints(scoreToken(WEAK_TOKEN), 'growth'), {
+    holders: 20, liquidityTrend: 20, volume: 10, ownerShare: 15
+  });
+  assert.equal(factorPoints(scoreToken({ ...WEAK_TOKEN, gpOwnerPercent: 40 }), 'growth').ownerShare, 5);
+});
+
+test('model scores sum their factors', () => {
+  const { models } = scoreToken(WEAK_TOKEN);
+  assert.equal(models.market.score, 48.75);
+  assert.equal(models.security.score, 25);
+  assert.equal(models.liquidity.score, 55);
+  assert.equal(models.growth.score, 65);
+});
+
+test('combined score weights the model scores', () => {
+  const scores = scoreToken(STRONG_TOKEN, { market: 0.15, security: 0.4, liquidity: 0.25, growth: 0.2 });
+  assert.ok(Math.abs(scores.combined - 97) < 1e-9);
+
+  const equal = scoreToken(WEAK_TOKEN, EQUAL_WEIGHTS);
+  assert.ok(Math.abs(equal.combined - (48.75 + 25 + 55 + 65) / 4) < 1e-9);
+  assert.equal(equal.weights, EQUAL_WEIGHTS);
+});
+
+test('weights from config/scoring.json are normalised', () => {
+  const weights = loadWeights(path.join(__dirname, '..', 'config', 'scoring.json'));
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  assert.ok(Math.abs(total - 1) < 1e-9);
+  assert.ok(Math.abs(weights.security - 0.4) < 1e-9);
+  assert.deepEqual(getWeights(), weights);
+});
+
+test('weights that do not sum to 1 are scaled', () => {
+  const weights = loadWeights(writeConfig({ weights: { market: 1, security: 1, liquidity: 1, growth: 2 } }));
+  assert.deepEqual(weights, { market: 0.2, security: 0.2, liquidity: 0.2, growth: 0.4 });
+});
+
+test('missing, negative or all-zero weights are rejected', () => {
+  assert.throws(() => loadWeights(writeConfig({ weights: { market: 1, security: 1, liquidity: 1 } })), /growth/);
+  assert.throws(() => loadWeights(writeConfig({ weights: { market: -1, security: 1, liquidity: 1, growth: 1 } })), /market/);
+  assert.throws(() => loadWeights(writeConfig({ weights: { market: 0, security: 0, liquidity: 0, growth: 0 } })), /zero/);
+});
@@ -0,0 +1,122 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const { writeTempConfig } = require('./helpers');
+const { RULE_DEFINITIONS, loadRules, evaluateSecurity, describeRules } = require('../security');
+
+const RULES_FILE = path.join(__dirname, '..', 'config', 'securityRules.json');
+
+// Open source, untaxed, no flags: no rule fires
+const CLEAN_TOKEN = {
+  address: '0x00000000000000000000000000000000000abc02',
+  isHoneypot: false,
+  gpIsOpenSource: true,
+  gpBuyTax: 0,
+  gpSellTax: 0
+};
+
+// A token that trips one rule by id, under the shipped rules file
+const TRIGGERS = {
+  honeypot: { isHoneypot: true },
+  dangerous_blacklist: { gpIsBlacklisted: true },
+  not_open_source: { gpIsOpenSource: false },
+  proxy_contract: { gpIsProxy: true },
+  mintable: { gpIsMintable: true },
+  external_call: { gpExternalCall: true },
+  cannot_buy: { gpCannotBuy: true },
+  cannot_sell_all: { gpCannotSellAll: true },
+  trading_cooldown: { gpTradingCooldown: true },
+  transfer_pausable: { gpTransferPausable: true },
+  hidden_owner: { gpHiddenOwner: true },
+  can_take_back_ownership: { gpCanTakeBackOwnership: true },
+  owner_change_balance: { gpOwnerChangeBalance: true },
+  high_buy_tax: { gpBuyTax: 15 },
+  high_sell_tax: { gpSellTax: 12 },
+  modifiable_anti_whale: { gpIsAntiWhale: true, gpAntiWhaleModifiable: true },
+  modifiable_slippage: { gpSlippageModifiable: true }
+};
+
+const writeRules = (rules) => writeTempConfig('rules', { rules });
+
+const shippedRules = loadRules(RULES_FILE);
+
+test('rule definitions have unique ids, a predicate and a description', () => {
+  const ids = RULE_DEFINITIONS.map(rule => rule.id);
+  assert.equal(new Set(ids).size, ids.length);
+  RULE_DEFINITIONS.forEach(rule => {
+    assert.equal(typeof rule.predicate, 'function', rule.id);
+    assert.equal(typeof rule.description, 'function', rule.id);
+  });
+});
+
+test('each rule fires on its own trigger and not on a clean token', () => {
+  assert.deepEqual(Object.keys(TRIGGERS).sort(), RULE_DEFINITIONS.map(rule => rule.id).sort());
+  assert.deepEqual(evaluateSecurity(CLEAN_TOKEN, shippedRules), { securityLevel: 'safe', reasons: [] });
+
+  Object.entries(TRIGGERS).forEach(([id, trigger]) => {
+    const { reasons } = evaluateSecurity({ ...CLEAN_TOKEN, ...trigger }, shippedRules);
+    assert.deepEqual(reasons.map(reason => reason.id), [id]);
+  });
+});
+
+test('a blacklist that is only anti-whale is not dangerous', () => {
+  const { reasons } = evaluateSecurity({ ...CLEAN_TOKEN, gpIsBlacklisted: true, gpIsAntiWhale: true }, shippedRules);
+  assert.deepEqual(reasons, []);
+});
+
+test('the shipped rules file enables every rule with its severity and params', () => {
+  assert.equal(shippedRules.length, RULE_DEFINITIONS.length);
+  const byId = Object.fromEntries(shippedRules.map(rule => [rule.id, rule]));
+  assert.equal(byId.honeypot.severity, 'danger');
+  assert.equal(byId.dangerous_blacklist.severity, 'danger');
+  assert.equal(byId.mintable.severity, 'warning');
+  assert.deepEqual(byId.high_buy_tax.params, { maxTax: 10 });
+  assert.deepEqual(describeRules(), shippedRules.map(rule => ({ id: rule.id, severity: rule.severity, params: rule.params })));
+});
+
+test('rules missing from the file or disabled are left out', () => {
+  const rules = loadRules(writeRules({
+    honeypot: { severity: 'danger' },
+    mintable: { severity: 'warning', enabled: false }
+  }));
+  assert.deepEqual(rules.map(rule => rule.id), ['honeypot']);
+  assert.equal(evaluateSecurity({ ...CLEAN_TOKEN, gpIsMintable: true, gpIsOpenSource: false }, rules).securityLevel, 'safe');
+});
+
+test('rule thresholds come from the file', () => {
+  const rules = loadRules(writeRules({ high_sell_tax: { severity: 'danger', maxTax: 20 } }));
+  assert.deepEqual(evaluateSecurity({ ...CLEAN_TOKEN, gpSellTax: 15 }, rules).reasons, []);
+  assert.deepEqual(evaluateSecurity({ ...CLEAN_TOKEN, gpSellTax: 25 }, rules), {
+    securityLevel: 'danger',
+    reasons: [{ id: 'high_sell_tax', severity: 'danger', description: 'High sell tax: 25%' }]
+  });
+});
+
+test('unknown rules and invalid severities are rejected', () => {
+  assert.throws(() => loadRules(writeRules({ rug_pull: { severity: 'danger' } })), /Unknown security rule in .*: rug_pull/);
+  assert.throws(() => loadRules(writeRules({ honeypot: { severity: 'critical' } })), /invalid severity: critical/);
+});
+
+test('the level is the worst severity and dangers are listed first', () => {
+  const warning = evaluateSecurity({ ...CLEAN_TOKEN, gpIsMintable: true, gpBuyTax: 30 }, shippedRules);
+  assert.equal(warning.securityLevel, 'warning');
+  assert.deepEqual(warning.reasons.map(reason => reason.description), ['Token is mintable', 'High buy tax: 30%']);
+
+  const danger = evaluateSecurity({ ...CLEAN_TOKEN, gpIsMintable: true, isHoneypot: true }, shippedRules);
+  assert.equal(danger.securityLevel, 'danger');
+  assert.deepEqual(danger.reasons.map(reason => [reason.id, reason.severity]), [
+    ['honeypot', 'danger'],
+    ['mintable', 'warning']
+  ]);
+});
+
+test('a failing rule is skipped', () => {
+  const broken = { id: 'broken', severity: 'danger', params: {}, predicate: () => { throw new Error('bad'); }, description: () => '' };
+  const originalError = console.error;
+  console.error = () => {};
+  try {
+    assert.deepEqual(evaluateSecurity(CLEAN_TOKEN, [broken, ...shippedRules]), { securityLevel: 'safe', reasons: [] });
+  } finally {
+    console.error = originalError;
+  }
+});
@@ -0,0 +1,91 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { useTempStore } = require('./helpers');
+
+// alertRules opens the store, keep it out of backend/data
+useTempStore('subscriptions');
+
+const { SubscriptionError, applySubscriptionMessage, messageFor } = require('../subscriptions');
+
+const ADDRESS = '0x00000000000000000000000000000000000AbC04';
+const DANGER = { address: ADDRESS, securityLevel: 'danger' };
+const SAFE = { address: ADDRESS, securityLevel: 'safe' };
+
+const subscribe = (topics, filter) => applySubscriptionMessage(new Map(), { type: 'SUBSCRIBE', topics, filter });
+const dangerOnly = () => subscribe(['tokens'], [{ field: 'securityLevel', op: '=', value: 'danger' }]);
+const updated = (seq) => ({ type: 'TOKEN_UPDATED', address: ADDRESS, changes: { securityLevel: 'safe' }, scanTimestamp: 'x', seq });
+
+test('clients that never subscribed get every event', () => {
+  const event = { type: 'RUG_ALERT', alert: { address: ADDRESS } };
+  assert.equal(messageFor(null, event, {}), event);
+});
+
+test('events are routed by topic and token topic', () => {
+  const event = { type: 'NEW_TOKEN', token: SAFE };
+  assert.equal(messageFor(subscribe(['tokens']), event, { token: SAFE }), event);
+  assert.equal(messageFor(subscribe([`token:${ADDRESS}`]), event, { token: SAFE }), event);
+  assert.equal(messageFor(subscribe(['alerts']), event, { token: SAFE }), null);
+  const session = { type: 'SESSION_CHANGED', session: 'October 19 - Session 2' };
+  assert.equal(messageFor(subscribe(['alerts']), session, {}), session);
+});
+
+test('filters drop events about tokens that do not match', () => {
+  const event = { type: 'NEW_TOKEN', token: SAFE };
+  assert.equal(messageFor(dangerOnly(), event, { token: SAFE }), null);
+  assert.equal(messageFor(dangerOnly(), { type: 'NEW_TOKEN', token: DANGER }, { token: DANGER }).type, 'NEW_TOKEN');
+});
+
+test('watched tokens skip the filters, marked outsideFilter', () => {
+  const event = { type: 'NEW_TOKEN', token: SAFE };
+  assert.deepEqual(messageFor(dangerOnly(), event, { token: SAFE, watched: true }), { ...event, outsideFilter: true });
+  assert.equal(messageFor(dangerOnly(), { ...event, token: DANGER }, { token: DANGER, watched: true }).outsideFilter, undefined);
+  // Leaving the filter, the client still needs the changes for its watchlist
+  assert.deepEqual(messageFor(dangerOnly(), updated(3), { token: SAFE, previous: DANGER, watched: true }), {
+    ...updated(3), outsideFilter: true
+  });
+  // The topic still has to be subscribed
+  assert.equal(messageFor(subscribe(['alerts']), event, { token: SAFE, watched: true }), null);
+});
+
+test('an update that moves a token out of the filter becomes TOKEN_LEFT_FILTER', () => {
+  assert.deepEqual(messageFor(dangerOnly(), updated(7), { token: SAFE, previous: DANGER }), {
+    type: 'TOKEN_LEFT_FILTER', address: ADDRESS, seq: 7
+  });
+  assert.equal(messageFor(dangerOnly(), updated(8), { token: SAFE, previous: SAFE }), null);
+});
+
+test('an update that moves a token into the filter carries the whole token', () => {
+  const event = { ...updated(9), changes: { securityLevel: 'danger' } };
+  assert.deepEqual(messageFor(dangerOnly(), event, { token: DANGER, previous: SAFE }), {
+    type: 'TOKEN_ENTERED_FILTER', address: ADDRESS, token: DANGER, seq: 9
+  });
+  assert.equal(messageFor(subscribe(['tokens']), event, { token: DANGER, previous: SAFE }), event);
+});
+
+test('a token list query filters like GET /api/tokens', () => {
+  const hideHoneypots = applySubscriptionMessage(new Map(), {
+    type: 'SUBSCRIBE', topics: ['tokens'], filter: { honeypot: 'hide', minLiquidity: '1000', sortBy: 'liquidity' }
+  });
+  const liquid = { ...SAFE, isHoneypot: false, liq30: 5000 };
+  const honeypot = { ...liquid, isHoneypot: true };
+  assert.equal(messageFor(hideHoneypots, { type: 'NEW_TOKEN', token: honeypot }, { token: honeypot }), null);
+  assert.equal(messageFor(hideHoneypots, { type: 'NEW_TOKEN', token: liquid }, { token: liquid }).type, 'NEW_TOKEN');
+
+  const drained = { ...liquid, liq30: 10 };
+  assert.deepEqual(messageFor(hideHoneypots, updated(11), { token: drained, previous: liquid }), {
+    type: 'TOKEN_LEFT_FILTER', address: ADDRESS, seq: 11
+  });
+  assert.throws(() => subscribe(['tokens'], { honeypot: 'sometimes' }), SubscriptionError);
+});
+
+test('demotions also reach unfiltered alert subscriptions', () => {
+  const both = applySubscriptionMessage(dangerOnly(), { type: 'SUBSCRIBE', topics: ['alerts'] });
+  const demoted = { type: 'TOKEN_DEMOTED', token: { address: ADDRESS, table: 'HONEYPOTS' } };
+  assert.equal(messageFor(dangerOnly(), demoted, { token: SAFE }), null);
+  assert.equal(messageFor(both, demoted, { token: SAFE }), demoted);
+});
+
+test('unknown topics and filter fields are rejected', () => {
+  assert.throws(() => subscribe(['everything']), SubscriptionError);
+  assert.throws(() => subscribe(['tokens'], [{ field: 'nope', op: '=', value: 1 }]), SubscriptionError);
+});
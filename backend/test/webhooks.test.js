@@ -0,0 +1,159 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const http = require('http');
+const { useTempStore } = require('./helpers');
+
+useTempStore('webhooks');
+
+const store = require('../store');
+const webhooks = require('../webhooks');
+
+const SECRET = 'receiver-test-secret-0123456789';
+const TOKEN = { address: '0x00000000000000000000000000000000000abc03', name: 'Webhook Test', securityLevel: 'safe' };
+
+// Local receiver answering every request with responseStatus and recording it
+const received = [];
+let responseStatus = 200;
+let receiver;
+let url;
+
+before(async () => {
+  receiver = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(responseStatus).end();
+    });
+  });
+  await new Promise(resolve => receiver.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${receiver.address().port}/hook`;
+});
+
+after(() => new Promise(resolve => receiver.close(resolve)));
+
+const deliveryLog = (targetId) => webhooks.listDeliveries(webhooks.parseDeliveryQuery({ targetId: String(targetId) }));
+
+// Make every pending delivery due now instead of waiting out the backoff
+const skipBackoff = () => store.run("UPDATE webhook_deliveries SET next_attempt_at = 0 WHERE status = 'pending'");
+
+test('a delivery is signed with HMAC-SHA256 over "<timestamp>.<body>"', async () => {
+  responseStatus = 200;
+  const target = await webhooks.createTarget({ url, events: ['NEW_TOKEN'], secret: SECRET });
+  const [deliveryId] = await webhooks.dispatch('NEW_TOKEN', { token: TOKEN });
+  await webhooks.processDue();
+
+  assert.equal(received.length, 1);
+  const { headers, body } = received[0];
+  const expected = crypto.createHmac('sha256', SECRET).update(`${headers['x-webhook-timestamp']}.${body}`).digest('hex');
+  assert.equal(headers['x-webhook-signature'], `sha256=${expected}`);
+  assert.equal(headers['x-webhook-event'], 'NEW_TOKEN');
+  assert.equal(headers['x-webhook-delivery'], String(deliveryId));
+  assert.equal(headers['content-type'], 'application/json');
+  assert.ok(Math.abs(Number(headers['x-webhook-timestamp']) - Date.now() / 1000) < 60);
+
+  const payload = JSON.parse(body);
+  assert.equal(payload.event, 'NEW_TOKEN');
+  assert.deepEqual(payload.data, { token: TOKEN });
+
+  const [delivery] = await deliveryLog(target.id);
+  assert.equal(delivery.id, deliveryId);
+  assert.equal(delivery.status, 'delivered');
+  assert.equal(delivery.attempts, 1);
+  assert.equal(delivery.responseStatus, 200);
+  assert.equal(delivery.lastError, null);
+  assert.equal(delivery.nextAttemptAt, null);
+  assert.ok(delivery.deliveredAt > 0);
+  assert.deepEqual(delivery.payload, payload);
+
+  await webhooks.deleteTarget(target.id);
+});
+
+test('a non-2xx response is retried with backoff until MAX_ATTEMPTS, then fails', async (t) => {
+  t.mock.method(console, 'error', () => {});
+  responseStatus = 503;
+  received.length = 0;
+  const target = await webhooks.createTarget({ url, events: ['RUG_ALERT'], secret: SECRET });
+  const deliveryId = await webhooks.sendTest(target.id);
+
+  for (let attempt = 1; attempt <= webhooks.MAX_ATTEMPTS; attempt++) {
+    if (attempt > 1) await skipBackoff();
+    const startedAt = Date.now();
+    await webhooks.processDue();
+    const finishedAt = Date.now();
+
+    const [delivery] = await deliveryLog(target.id);
+    assert.equal(delivery.id, deliveryId);
+    assert.equal(delivery.attempts, attempt);
+    assert.equal(delivery.responseStatus, 503);
+    assert.equal(delivery.lastError, 'HTTP 503');
+
+    if (attempt < webhooks.MAX_ATTEMPTS) {
+      const backoff = webhooks.RETRY_BASE_MS * 2 ** (attempt - 1);
+      assert.equal(delivery.status, 'pending');
+      assert.ok(delivery.nextAttemptAt >= startedAt + backoff && delivery.nextAttemptAt <= finishedAt + backoff,
+        `attempt ${attempt} should wait ${backoff}ms`);
+      // Not due yet, so nothing is sent
+      assert.equal(await webhooks.processDue(), 0);
+    } else {
+      assert.equal(delivery.status, 'failed');
+      assert.equal(delivery.nextAttemptAt, null);
+    }
+  }
+
+  // Every attempt sent the same signed bytes
+  assert.equal(received.length, webhooks.MAX_ATTEMPTS);
+  assert.equal(new Set(received.map(request => request.body)).size, 1);
+  received.forEach(request => assert.equal(request.headers['x-webhook-event'], 'TEST'));
+
+  // A failed delivery is not retried again
+  await skipBackoff();
+  assert.equal(await webhooks.processDue(), 0);
+  assert.equal(received.length, webhooks.MAX_ATTEMPTS);
+});
+
+test('the delivery log filters by target and status, newest first', async () => {
+  responseStatus = 200;
+  const target = await webhooks.createTarget({ url, events: ['NEW_TOKEN', 'SECURITY_LEVEL_CHANGED'], secret: SECRET });
+  const first = await webhooks.dispatch('NEW_TOKEN', { token: TOKEN });
+  await webhooks.processDue();
+  const second = await webhooks.dispatch('SECURITY_LEVEL_CHANGED', { token: TOKEN, previousLevel: 'warning' });
+  await webhooks.processDue();
+
+  const log = await deliveryLog(target.id);
+  assert.deepEqual(log.map(delivery => [delivery.id, delivery.event, delivery.status]), [
+    [second[0], 'SECURITY_LEVEL_CHANGED', 'delivered'],
+    [first[0], 'NEW_TOKEN', 'delivered']
+  ]);
+
+  const failed = await webhooks.listDeliveries(webhooks.parseDeliveryQuery({ status: 'failed' }));
+  assert.equal(failed.length, 1);
+  assert.equal(failed[0].event, 'TEST');
+  assert.equal(failed[0].attempts, webhooks.MAX_ATTEMPTS);
+
+  const limited = await webhooks.listDeliveries(webhooks.parseDeliveryQuery({ limit: '1' }));
+  assert.deepEqual(limited.map(delivery => delivery.id), [second[0]]);
+
+  assert.throws(() => webhooks.parseDeliveryQuery({ status: 'lost' }), webhooks.WebhookError);
+  assert.throws(() => webhooks.parseDeliveryQuery({ limit: '0' }), webhooks.WebhookError);
+
+  await webhooks.deleteTarget(target.id);
+  assert.deepEqual(await deliveryLog(target.id), []);
+});
+
+test('targets only get subscribed events whose token matches their filter', async () => {
+  const target = await webhooks.createTarget({
+    url,
+    events: ['NEW_TOKEN'],
+    secret: SECRET,
+    filter: [{ field: 'securityLevel', op: '=', value: 'danger' }]
+  });
+  assert.deepEqual(await webhooks.dispatch('NEW_TOKEN', { token: TOKEN }), []);
+  assert.deepEqual(await webhooks.dispatch('SECURITY_LEVEL_CHANGED', { token: { ...TOKEN, securityLevel: 'danger' } }), []);
+
+  const queued = await webhooks.dispatch('NEW_TOKEN', { token: { ...TOKEN, securityLevel: 'danger' } });
+  await webhooks.processDue();
+  assert.equal(queued.length, 1);
+  assert.equal((await deliveryLog(target.id))[0].status, 'delivered');
+});
@@ -0,0 +1,41 @@
+const { formatToken } = require('./tokenMapper');
+const { evaluateSecurity } = require('./security');
+const { scoreToken } = require('./scoring');
+const { getTokenReputation } = require('./reputation');
+const { analyzeHolders } = require('./holderAnalytics');
+const { reconcileToken } = require('./reconciliation');
+
+// Map a scan_records row and attach everything the backend derives from it
+function buildToken(row) {
+  const token = formatToken(row);
+  const { securityLevel, reasons } = evaluateSecurity(token);
+  token.securityLevel = securityLevel;
+  token.reasons = reasons;
+  token.scores = scoreToken(token);
+  token.safetyScore = token.scores.combined;
+  token.creatorReputation = getTokenReputation(token);
+  token.holderAnalytics = analyzeHolders(token);
+  token.providerDisagreements = reconcileToken(token, row);
+  return token;
+}
+
+// Field-level diff between two formatted tokens, returns only the changed fields
+function diffTokens(previous, next) {
+  const changes = {};
+  Object.keys(next).forEach(key => {
+    const before = previous[key];
+    const after = next[key];
+    const changed = typeof after === 'object' && after !== null
+      ? JSON.stringify(before) !== JSON.stringify(after)
+      : before !== after;
+    if (changed) {
+      changes[key] = after;
+    }
+  });
+  return changes;
+}
+
+module.exports = {
+  buildToken,
+  diffTokens
+};
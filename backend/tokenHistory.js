@@ -0,0 +1,298 @@
+const db = require('./db');
+const { getHistoryTables } = require('./sessionIndex');
+
+// Token address -> history table per session, from the monitor's token_tables registry.
+// Column lists are cached per table as they are first read.
+const tableCache = new Map();
+// A token missing from the live session's cache may have been scanned since,
+// the registry is re-read on a miss at most once per poll interval
+const TABLE_CACHE_RETRY_MS = 10000;
+const HISTORY_TABLE_PATTERN = /_(0x[0-9a-fA-F]{40})$/;
+
+async function loadSessionTables(session) {
+  const loadedAt = Date.now();
+  const sessionDb = await db.forSession(session);
+  const existing = new Set((await sessionDb.all("SELECT name FROM sqlite_master WHERE type='table'"))
+    .map(row => row.name));
+  const tables = new Map();
+
+  if (existing.has('token_tables')) {
+    const rows = await sessionDb.all('SELECT table_name, token_address FROM token_tables');
+    rows
+      .filter(row => existing.has(row.table_name))
+      .forEach(row => tables.set(row.token_address.toLowerCase(), row.table_name));
+  } else {
+    // Sessions from before the registry, history tables are named <name>_<address>
+    existing.forEach(name => {
+      const match = name.match(HISTORY_TABLE_PATTERN);
+      if (match) tables.set(match[1].toLowerCase(), name);
+    });
+  }
+
+  return { tables, columns: new Map(), loadedAt };
+}
+
+// Cached table map of a session; concurrent callers share one load
+function sessionTables(session) {
+  if (!tableCache.has(session)) {
+    const loading = loadSessionTables(session);
+    tableCache.set(session, loading);
+    loading.catch(() => tableCache.delete(session));
+  }
+  return tableCache.get(session);
+}
+
+// Locate a token's history table in one session database
+async function findHistoryTable(session, address) {
+  const key = address.toLowerCase();
+  const cached = sessionTables(session);
+  let entry = await cached;
+
+  if (!entry.tables.has(key) && session === db.getActiveSession() && Date.now() - entry.loadedAt > TABLE_CACHE_RETRY_MS) {
+    // Misses racing each other share the reload the first one starts
+    if (tableCache.get(session) === cached) tableCache.delete(session);
+    entry = await sessionTables(session);
+  }
+  return entry.tables.get(key) || null;
+}
+
+async function tableColumns(session, table) {
+  const entry = await sessionTables(session);
+  if (!entry.columns.has(table)) {
+    const sessionDb = await db.forSession(session);
+    const tableInfo = await sessionDb.all(`PRAGMA table_info("${table}")`);
+    entry.columns.set(table, new Set(tableInfo.map(col => col.name)));
+  }
+  return entry.columns.get(table);
+}
+
+class HistoryQueryError extends Error {}
+
+// Metric groups GET /api/tokens/:address/history can return, each with the history
+// columns it reads and the chart fields it adds to a point
+const METRICS = {
+  liquidity: {
+    columns: ['hp_liquidity_amount', 'gp_dex_info'],
+    toFields: (record) => {
+      let hpLiquidity = 0;
+      let gpLiquidity = 0;
+
+      if (record.hp_liquidity_amount) {
+        hpLiquidity = parseFloat(record.hp_liquidity_amount);
+      }
+
+      if (record.gp_dex_info) {
+        try {
+          const dexInfo = JSON.parse(record.gp_dex_info);
+          if (Array.isArray(dexInfo) && dexInfo[0] && dexInfo[0].liquidity) {
+            gpLiquidity = parseFloat(dexInfo[0].liquidity);
+          }
+        } catch (e) {
+          console.error('Error parsing gp_dex_info:', e);
+        }
+      }
+
+      return { hpLiquidity, gpLiquidity, totalLiquidity: hpLiquidity + gpLiquidity };
+    }
+  },
+  holders: {
+    columns: ['gp_holder_count', 'gp_lp_holder_count'],
+    toFields: (record) => ({
+      holderCount: record.gp_holder_count || 0,
+      lpHolderCount: record.gp_lp_holder_count || 0
+    })
+  },
+  // Taxes and gas stay null when a scan did not report them, so charts show a gap instead of a drop to 0
+  tax: {
+    columns: ['hp_buy_tax', 'hp_sell_tax', 'gp_buy_tax', 'gp_sell_tax'],
+    toFields: (record) => ({
+      buyTax: toNumber(record.hp_buy_tax),
+      sellTax: toNumber(record.hp_sell_tax),
+      gpBuyTax: toNumber(record.gp_buy_tax),
+      gpSellTax: toNumber(record.gp_sell_tax)
+    })
+  },
+  gas: {
+    columns: ['hp_buy_gas_used', 'hp_sell_gas_used'],
+    toFields: (record) => ({
+      buyGas: toNumber(record.hp_buy_gas_used),
+      sellGas: toNumber(record.hp_sell_gas_used)
+    })
+  }
+};
+
+const DEFAULT_METRICS = ['liquidity', 'holders'];
+
+function toNumber(value) {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isNaN(number) ? null : number;
+}
+
+// Validate ?metrics=liquidity,tax,... Omitted means the liquidity and holder charts.
+function parseMetrics(value) {
+  if (value === undefined || value === '') return DEFAULT_METRICS;
+  const metrics = [...new Set(String(value).split(',').map(metric => metric.trim()).filter(Boolean))];
+  const unknown = metrics.find(metric => !METRICS[metric]);
+  if (metrics.length === 0 || unknown) {
+    throw new HistoryQueryError(`metrics must be a comma-separated list of ${Object.keys(METRICS).join(', ')}`);
+  }
+  return metrics;
+}
+
+// Read the columns of the requested metrics a history table has, oldest scan first.
+// since (a scan_timestamp) limits it to later scans.
+function historyTableReader(metrics, since = null) {
+  return async (sessionDb, table, session) => {
+    const columns = await tableColumns(session, table);
+
+    if (!columns.has('scan_timestamp')) {
+      throw new Error(`History table ${table} is missing required timestamp column`);
+    }
+
+    const selectClauses = ['scan_timestamp',
+      ...metrics.flatMap(metric => METRICS[metric].columns).filter(column => columns.has(column))];
+
+    return sessionDb.all(`
+      SELECT ${selectClauses.join(', ')}
+      FROM "${table}"
+      ${since ? 'WHERE scan_timestamp > ?' : ''}
+      ORDER BY scan_timestamp ASC
+    `, since ? [since] : []);
+  };
+}
+
+// Unix ms as the monitor's local 'YYYY-MM-DD HH:MM:SS' scan_timestamp
+function toScanTimestamp(ms) {
+  const date = new Date(ms);
+  const pad = (value) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+// Transform one history row into a chart point with the fields of the given metrics
+function toChartPoint(record, session, metrics = DEFAULT_METRICS) {
+  const timestamp = new Date(record.scan_timestamp).getTime(); // Convert to Unix timestamp in ms
+  return Object.assign({ timestamp, session }, ...metrics.map(metric => METRICS[metric].toFields(record)));
+}
+
+// History tables to read: the one in the requested session, or every
+// indexed session plus a fresh lookup in the live one
+async function findHistorySources(address, session) {
+  if (session) {
+    const table = await findHistoryTable(session, address);
+    return table ? [{ session, table }] : [];
+  }
+
+  const active = db.getActiveSession();
+  const sources = (await getHistoryTables(address)).filter(source => source.session !== active);
+  const liveTable = await findHistoryTable(active, address);
+  if (liveTable) {
+    sources.push({ session: active, table: liveTable });
+  }
+  return sources;
+}
+
+// Read a token's history table in every source with `read`, tagging each row with its session.
+// Returns { rows, sources } where each source reports the rows it contributed.
+async function readHistorySources(address, session, read) {
+  const sources = await findHistorySources(address, session);
+  const rows = [];
+
+  for (const source of sources) {
+    try {
+      const sourceRows = await read(await db.forSession(source.session), source.table, source.session);
+      sourceRows.forEach(row => rows.push({ row, session: source.session }));
+      source.recordCount = sourceRows.length;
+    } catch (err) {
+      // One moved or unreadable session should not hide the others
+      if (session) throw err;
+      console.error(`Skipping history from session ${source.session}:`, err.message);
+      source.recordCount = 0;
+    }
+  }
+
+  return { rows, sources };
+}
+
+// One continuous timeline for a token, stitched from its history table in every session.
+// since (unix ms) keeps only later scans. Returns { history, sources } where each
+// source reports the rows it contributed.
+async function getTokenHistory(address, session, metrics = DEFAULT_METRICS, since = null) {
+  const reader = historyTableReader(metrics, since ? toScanTimestamp(since) : null);
+  const { rows, sources } = await readHistorySources(address, session, reader);
+  const points = rows.map(({ row, session: rowSession }) => toChartPoint(row, rowSession, metrics));
+
+  // A scan recorded in two sessions appears once
+  const seen = new Set();
+  const history = points
+    .filter(point => !metrics.includes('liquidity') || !isNaN(point.hpLiquidity) || !isNaN(point.gpLiquidity))
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .filter(point => {
+      if (seen.has(point.timestamp)) return false;
+      seen.add(point.timestamp);
+      return true;
+    });
+
+  return { history, sources };
+}
+
+// Chart points with every metric for the rows a session's history table gained
+// after since (a scan_timestamp, null for all of them), oldest first
+async function readNewHistoryPoints(session, address, since) {
+  const table = await findHistoryTable(session, address);
+  if (!table) return [];
+
+  const metrics = Object.keys(METRICS);
+  const rows = await historyTableReader(metrics, since)(await db.forSession(session), table, session);
+  return rows.map(row => toChartPoint(row, session, metrics));
+}
+
+const MAX_BATCH_ADDRESSES = 200;
+
+// Validate a POST /api/history body: { addresses, since, metrics, session }
+function parseHistoryBatch(body) {
+  const { addresses, since, metrics, session } = body || {};
+
+  if (!Array.isArray(addresses) || addresses.length === 0 || addresses.some(address => typeof address !== 'string' || !address)) {
+    throw new HistoryQueryError('addresses must be a non-empty list of token addresses');
+  }
+  if (addresses.length > MAX_BATCH_ADDRESSES) {
+    throw new HistoryQueryError(`At most ${MAX_BATCH_ADDRESSES} addresses per request`);
+  }
+  if (since !== undefined && since !== null && (!Number.isFinite(since) || since < 0)) {
+    throw new HistoryQueryError('since must be a unix timestamp in ms');
+  }
+  if (session !== undefined && session !== null && typeof session !== 'string') {
+    throw new HistoryQueryError('session must be a session name');
+  }
+
+  return {
+    addresses: [...new Set(addresses)],
+    since: since || null,
+    metrics: parseMetrics(Array.isArray(metrics) ? metrics.join(',') : metrics),
+    session: session || null
+  };
+}
+
+// Timelines of many tokens in one request, keyed by the requested address.
+// Tokens without a history table get an empty list.
+async function getTokenHistories({ addresses, since, metrics, session }) {
+  const histories = {};
+  for (const address of addresses) {
+    histories[address] = (await getTokenHistory(address, session, metrics, since)).history;
+  }
+  return histories;
+}
+
+module.exports = {
+  HistoryQueryError,
+  parseMetrics,
+  parseHistoryBatch,
+  findHistoryTable,
+  toChartPoint,
+  readHistorySources,
+  getTokenHistory,
+  getTokenHistories,
+  readNewHistoryPoints
+};
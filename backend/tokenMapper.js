@@ -0,0 +1,244 @@
+// @ts-check
+// Single source of truth for turning scan_records rows into the frontend Token shape.
+// The schema below is typed as Record<keyof Token, ...>, so `npm run typecheck`
+// fails whenever it drifts from frontend/src/types.ts.
+
+/** @typedef {import('../frontend/src/types').Token} Token */
+/** @typedef {import('../frontend/src/types').TokenFieldError} TokenFieldError */
+
+/**
+ * string / number pass scalar columns through, boolean converts SQLite 0/1 flags,
+ * json parses a TEXT column holding an array, computed fields are attached after mapping.
+ * @typedef {{ column: string, kind: 'string' | 'number' | 'boolean' | 'json' }
+ *   | { column: null, kind: 'computed' }} FieldSpec
+ */
+
+/** @type {Record<keyof Token, FieldSpec>} */
+const TOKEN_SCHEMA = {
+  // Basic token info
+  address: { column: 'token_address', kind: 'string' },
+  name: { column: 'token_name', kind: 'string' },
+  symbol: { column: 'token_symbol', kind: 'string' },
+  decimals: { column: 'token_decimals', kind: 'number' },
+  totalSupply: { column: 'token_total_supply', kind: 'string' },
+  ageHours: { column: 'token_age_hours', kind: 'number' },
+
+  // Pair info
+  pairAddress: { column: 'pair_address', kind: 'string' },
+  reservesToken0: { column: 'hp_pair_reserves0', kind: 'string' },
+  reservesToken1: { column: 'hp_pair_reserves1', kind: 'string' },
+  creationTx: { column: 'hp_creation_tx', kind: 'string' },
+  creationTime: { column: 'hp_creation_time', kind: 'string' },
+
+  // Honeypot analysis
+  isHoneypot: { column: 'hp_is_honeypot', kind: 'boolean' },
+  honeypotReason: { column: 'hp_honeypot_reason', kind: 'string' },
+  riskLevel: { column: 'hp_risk_level', kind: 'string' },
+  riskType: { column: 'hp_risk_type', kind: 'string' },
+  hp_liquidity_amount: { column: 'hp_liquidity_amount', kind: 'number' },
+
+  // Contract info
+  isOpenSource: { column: 'hp_is_open_source', kind: 'boolean' },
+  isProxy: { column: 'hp_is_proxy', kind: 'boolean' },
+  isMintable: { column: 'hp_is_mintable', kind: 'boolean' },
+  canBeMinted: { column: 'hp_can_be_minted', kind: 'boolean' },
+  hasProxyCalls: { column: 'hp_has_proxy_calls', kind: 'boolean' },
+
+  // Tax and gas info
+  buyTax: { column: 'hp_buy_tax', kind: 'number' },
+  sellTax: { column: 'hp_sell_tax', kind: 'number' },
+  transferTax: { column: 'hp_transfer_tax', kind: 'number' },
+  buyGas: { column: 'hp_buy_gas_used', kind: 'number' },
+  sellGas: { column: 'hp_sell_gas_used', kind: 'number' },
+
+  // Ownership info
+  ownerAddress: { column: 'hp_owner_address', kind: 'string' },
+  creatorAddress: { column: 'hp_creator_address', kind: 'string' },
+  deployerAddress: { column: 'hp_deployer_address', kind: 'string' },
+
+  // GoPlus security info
+  gpIsOpenSource: { column: 'gp_is_open_source', kind: 'boolean' },
+  gpIsProxy: { column: 'gp_is_proxy', kind: 'boolean' },
+  gpIsMintable: { column: 'gp_is_mintable', kind: 'boolean' },
+  gpOwnerAddress: { column: 'gp_owner_address', kind: 'string' },
+  gpCreatorAddress: { column: 'gp_creator_address', kind: 'string' },
+  gpCanTakeBackOwnership: { column: 'gp_can_take_back_ownership', kind: 'boolean' },
+  gpOwnerChangeBalance: { column: 'gp_owner_change_balance', kind: 'boolean' },
+  gpHiddenOwner: { column: 'gp_hidden_owner', kind: 'boolean' },
+  gpSelfDestruct: { column: 'gp_selfdestruct', kind: 'boolean' },
+  gpExternalCall: { column: 'gp_external_call', kind: 'boolean' },
+  gpBuyTax: { column: 'gp_buy_tax', kind: 'number' },
+  gpSellTax: { column: 'gp_sell_tax', kind: 'number' },
+  gpIsAntiWhale: { column: 'gp_is_anti_whale', kind: 'boolean' },
+  gpAntiWhaleModifiable: { column: 'gp_anti_whale_modifiable', kind: 'boolean' },
+  gpCannotBuy: { column: 'gp_cannot_buy', kind: 'boolean' },
+  gpCannotSellAll: { column: 'gp_cannot_sell_all', kind: 'boolean' },
+  gpSlippageModifiable: { column: 'gp_slippage_modifiable', kind: 'boolean' },
+  gpPersonalSlippageModifiable: { column: 'gp_personal_slippage_modifiable', kind: 'boolean' },
+  gpTradingCooldown: { column: 'gp_trading_cooldown', kind: 'boolean' },
+  gpIsBlacklisted: { column: 'gp_is_blacklisted', kind: 'boolean' },
+  gpIsWhitelisted: { column: 'gp_is_whitelisted', kind: 'boolean' },
+  gpIsInDex: { column: 'gp_is_in_dex', kind: 'boolean' },
+  gpTransferPausable: { column: 'gp_transfer_pausable', kind: 'boolean' },
+  gpCanBeMinted: { column: 'gp_can_be_minted', kind: 'boolean' },
+  gpTotalSupply: { column: 'gp_total_supply', kind: 'string' },
+  gpHolderCount: { column: 'gp_holder_count', kind: 'number' },
+  gpOwnerPercent: { column: 'gp_owner_percent', kind: 'number' },
+  gpOwnerBalance: { column: 'gp_owner_balance', kind: 'string' },
+  gpCreatorPercent: { column: 'gp_creator_percent', kind: 'number' },
+  gpCreatorBalance: { column: 'gp_creator_balance', kind: 'string' },
+  gpLpHolderCount: { column: 'gp_lp_holder_count', kind: 'number' },
+  gpLpTotalSupply: { column: 'gp_lp_total_supply', kind: 'string' },
+  gpIsTrueToken: { column: 'gp_is_true_token', kind: 'boolean' },
+  gpIsAirdropScam: { column: 'gp_is_airdrop_scam', kind: 'boolean' },
+  gpHoneypotWithSameCreator: { column: 'gp_honeypot_with_same_creator', kind: 'boolean' },
+  gpFakeToken: { column: 'gp_fake_token', kind: 'boolean' },
+
+  // Holders, LP and DEX info
+  gpHolders: { column: 'gp_holders', kind: 'json' },
+  gpLpHolders: { column: 'gp_lp_holders', kind: 'json' },
+  gpDexInfo: { column: 'gp_dex_info', kind: 'json' },
+
+  // Additional metadata
+  totalScans: { column: 'total_scans', kind: 'number' },
+  honeypotFailures: { column: 'honeypot_failures', kind: 'number' },
+  lastError: { column: 'last_error', kind: 'string' },
+  status: { column: 'status', kind: 'string' },
+
+  // Liquidity history
+  liq10: { column: 'liq10', kind: 'number' },
+  liq20: { column: 'liq20', kind: 'number' },
+  liq30: { column: 'liq30', kind: 'number' },
+  liq40: { column: 'liq40', kind: 'number' },
+  liq50: { column: 'liq50', kind: 'number' },
+  liq60: { column: 'liq60', kind: 'number' },
+  liq70: { column: 'liq70', kind: 'number' },
+  liq80: { column: 'liq80', kind: 'number' },
+  liq90: { column: 'liq90', kind: 'number' },
+  liq100: { column: 'liq100', kind: 'number' },
+  liq110: { column: 'liq110', kind: 'number' },
+  liq120: { column: 'liq120', kind: 'number' },
+  liq130: { column: 'liq130', kind: 'number' },
+  liq140: { column: 'liq140', kind: 'number' },
+  liq150: { column: 'liq150', kind: 'number' },
+  liq160: { column: 'liq160', kind: 'number' },
+  liq170: { column: 'liq170', kind: 'number' },
+  liq180: { column: 'liq180', kind: 'number' },
+  liq190: { column: 'liq190', kind: 'number' },
+  liq200: { column: 'liq200', kind: 'number' },
+
+  // Scan info
+  scanTimestamp: { column: 'scan_timestamp', kind: 'string' },
+
+  // Attached after mapping
+  safetyScore: { column: null, kind: 'computed' },
+  scores: { column: null, kind: 'computed' },
+  securityLevel: { column: null, kind: 'computed' },
+  reasons: { column: null, kind: 'computed' },
+  creatorReputation: { column: null, kind: 'computed' },
+  holderAnalytics: { column: null, kind: 'computed' },
+  providerDisagreements: { column: null, kind: 'computed' },
+  parseErrors: { column: null, kind: 'computed' }
+};
+
+/**
+ * Convert one column value, pushing a field error instead of throwing
+ * @param {unknown} value
+ * @param {'string' | 'number' | 'boolean' | 'json'} kind
+ * @returns {{ value: unknown, error: string | null }}
+ */
+function convertValue(value, kind) {
+  if (kind === 'json') {
+    if (value === null || value === undefined || value === '') return { value: [], error: null };
+    if (typeof value !== 'string') return { value: [], error: `Expected JSON text, got ${typeof value}` };
+    try {
+      const parsed = JSON.parse(value);
+      if (!Array.isArray(parsed)) return { value: [], error: 'Expected a JSON array' };
+      return { value: parsed, error: null };
+    } catch (e) {
+      return { value: [], error: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}` };
+    }
+  }
+
+  if (value === null || value === undefined) {
+    return { value: kind === 'boolean' ? false : null, error: null };
+  }
+
+  switch (kind) {
+    case 'boolean':
+      if (value === 1 || value === '1' || value === true) return { value: true, error: null };
+      if (value === 0 || value === '0' || value === false) return { value: false, error: null };
+      return { value: false, error: `Expected 0/1 flag, got ${JSON.stringify(value)}` };
+    case 'number': {
+      if (typeof value === 'number') return { value, error: null };
+      const parsed = typeof value === 'string' ? Number(value) : NaN;
+      if (value === '' || Number.isNaN(parsed)) {
+        return { value: null, error: `Expected a number, got ${JSON.stringify(value)}` };
+      }
+      return { value: parsed, error: null };
+    }
+    default:
+      if (typeof value === 'object') return { value: null, error: `Expected a scalar, got ${typeof value}` };
+      return { value, error: null };
+  }
+}
+
+/**
+ * Map a scan_records (or token history) row to a Token.
+ * Bad columns are reported in `errors` and fall back to a safe default so the
+ * rest of the token is still usable.
+ * @param {Record<string, unknown>} row
+ * @returns {{ token: Token, errors: TokenFieldError[] }}
+ */
+function mapTokenRow(row) {
+  /** @type {TokenFieldError[]} */
+  const errors = [];
+  /** @type {Record<string, unknown>} */
+  const token = {};
+
+  for (const [field, spec] of Object.entries(TOKEN_SCHEMA)) {
+    if (spec.kind === 'computed') continue;
+    const { value, error } = convertValue(row[spec.column], spec.kind);
+    token[field] = value;
+    if (error) {
+      errors.push({ field: /** @type {keyof Token} */ (field), column: spec.column, message: error });
+    }
+  }
+
+  const address = typeof row.token_address === 'string' ? row.token_address : '';
+  token.name = token.name || `Token ${address.slice(0, 6)}`;
+  token.symbol = token.symbol || 'TOKEN';
+  if (errors.length > 0) {
+    token.parseErrors = errors;
+  }
+
+  return { token: /** @type {Token} */ (/** @type {unknown} */ (token)), errors };
+}
+
+/**
+ * Map a row, reporting field errors on token.parseErrors. Rows are formatted on
+ * every request and poll, so this doesn't log; see logFieldErrors.
+ * @param {Record<string, unknown>} row
+ * @returns {Token}
+ */
+function formatToken(row) {
+  return mapTokenRow(row).token;
+}
+
+/**
+ * Log a row's field errors against its address, once per scan by changeTracker
+ * @param {Record<string, unknown>} row
+ */
+function logFieldErrors(row) {
+  const { token, errors } = mapTokenRow(row);
+  errors.forEach(error => {
+    console.error(`Field error for ${token.address} (${error.column} -> ${error.field}): ${error.message}`);
+  });
+}
+
+module.exports = {
+  TOKEN_SCHEMA,
+  mapTokenRow,
+  formatToken,
+  logFieldErrors
+};
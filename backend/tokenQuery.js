@@ -0,0 +1,170 @@
+// Filtering, sorting and cursor pagination for GET /api/tokens
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 1000;
+
+const SECURITY_LEVELS = ['danger', 'warning', 'safe'];
+const HONEYPOT_MODES = ['any', 'hide', 'only'];
+const DISAGREEMENT_MODES = ['any', 'hide', 'only'];
+
+// Sort keys and the token value each one orders by
+const SORT_KEYS = {
+  age: token => token.ageHours,
+  creationTime: token => Number(token.creationTime),
+  holders: token => token.gpHolderCount,
+  liquidity: token => token.liq30,
+  safetyScore: token => (token.isHoneypot ? 0 : token.safetyScore),
+  scanTimestamp: token => token.scanTimestamp
+};
+
+class QueryError extends Error {}
+
+function parseNumber(value, name, fallback) {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new QueryError(`${name} must be a number`);
+  }
+  return parsed;
+}
+
+function encodeCursor(key) {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+function decodeCursor(cursor) {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!key || typeof key.address !== 'string' || !('value' in key)) throw new Error('malformed');
+    return key;
+  } catch {
+    throw new QueryError('cursor is invalid');
+  }
+}
+
+// Validate the raw Express query object
+function parseTokenQuery(query) {
+  const sortBy = query.sortBy || 'age';
+  if (!SORT_KEYS[sortBy]) {
+    throw new QueryError(`sortBy must be one of ${Object.keys(SORT_KEYS).join(', ')}`);
+  }
+
+  const sortDirection = query.sortDirection || 'asc';
+  if (sortDirection !== 'asc' && sortDirection !== 'desc') {
+    throw new QueryError('sortDirection must be asc or desc');
+  }
+
+  const securityLevels = query.securityLevels
+    ? String(query.securityLevels).split(',').map(level => level.trim().toLowerCase()).filter(Boolean)
+    : SECURITY_LEVELS;
+  const unknownLevel = securityLevels.find(level => !SECURITY_LEVELS.includes(level));
+  if (unknownLevel) {
+    throw new QueryError(`Unknown security level: ${unknownLevel}`);
+  }
+
+  const honeypot = query.honeypot || 'any';
+  if (!HONEYPOT_MODES.includes(honeypot)) {
+    throw new QueryError(`honeypot must be one of ${HONEYPOT_MODES.join(', ')}`);
+  }
+
+  const disagreements = query.disagreements || 'any';
+  if (!DISAGREEMENT_MODES.includes(disagreements)) {
+    throw new QueryError(`disagreements must be one of ${DISAGREEMENT_MODES.join(', ')}`);
+  }
+
+  const limit = Math.floor(parseNumber(query.limit, 'limit', DEFAULT_LIMIT));
+  if (limit < 1 || limit > MAX_LIMIT) {
+    throw new QueryError(`limit must be between 1 and ${MAX_LIMIT}`);
+  }
+
+  return {
+    minHolders: parseNumber(query.minHolders, 'minHolders', 0),
+    minLiquidity: parseNumber(query.minLiquidity, 'minLiquidity', 0),
+    minSafetyScore: parseNumber(query.minSafetyScore, 'minSafetyScore', 0),
+    securityLevels,
+    honeypot,
+    disagreements,
+    search: query.q ? String(query.q).trim().toLowerCase() : '',
+    sortBy,
+    sortDirection,
+    limit,
+    cursor: query.cursor ? decodeCursor(String(query.cursor)) : null
+  };
+}
+
+function matchesQuery(token, query) {
+  if ((token.gpHolderCount || 0) < query.minHolders) return false;
+  if ((token.liq30 || 0) < query.minLiquidity) return false;
+  if ((SORT_KEYS.safetyScore(token) || 0) < query.minSafetyScore) return false;
+
+  if (query.honeypot === 'hide' && token.isHoneypot) return false;
+  if (query.honeypot === 'only' && !token.isHoneypot) return false;
+
+  // Tokens where Honeypot.is and GoPlus report different values
+  const disputed = (token.providerDisagreements || []).length > 0;
+  if (query.disagreements === 'hide' && disputed) return false;
+  if (query.disagreements === 'only' && !disputed) return false;
+
+  if (query.securityLevels.length < SECURITY_LEVELS.length &&
+      !query.securityLevels.includes(token.securityLevel)) {
+    return false;
+  }
+
+  if (query.search) {
+    const matches = [token.name, token.symbol, token.address]
+      .some(value => value && value.toLowerCase().includes(query.search));
+    if (!matches) return false;
+  }
+
+  return true;
+}
+
+// Position of a token in the sort order: its sort value plus address as tie-breaker
+function sortKey(token, sortBy) {
+  const value = SORT_KEYS[sortBy](token);
+  const missing = value === null || value === undefined || Number.isNaN(value);
+  return { value: missing ? null : value, address: token.address };
+}
+
+// Missing values always sort last, ties break on address so cursors are stable
+function compareKeys(a, b, direction) {
+  const missingA = a.value === null;
+  const missingB = b.value === null;
+
+  if (missingA !== missingB) return missingA ? 1 : -1;
+  if (!missingA && a.value !== b.value) {
+    return direction * (a.value < b.value ? -1 : 1);
+  }
+  return a.address.localeCompare(b.address);
+}
+
+// Apply filters, sort and return the page after the cursor
+function queryTokens(tokens, query) {
+  const direction = query.sortDirection === 'asc' ? 1 : -1;
+  const keyed = tokens
+    .filter(token => matchesQuery(token, query))
+    .map(token => ({ token, key: sortKey(token, query.sortBy) }))
+    .sort((a, b) => compareKeys(a.key, b.key, direction));
+
+  let start = 0;
+  if (query.cursor) {
+    start = keyed.findIndex(entry => compareKeys(entry.key, query.cursor, direction) > 0);
+    if (start === -1) start = keyed.length;
+  }
+
+  const page = keyed.slice(start, start + query.limit);
+  const hasMore = start + query.limit < keyed.length;
+
+  return {
+    tokens: page.map(entry => entry.token),
+    total: keyed.length,
+    nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1].key) : null
+  };
+}
+
+module.exports = {
+  QueryError,
+  parseTokenQuery,
+  matchesQuery,
+  queryTokens
+};
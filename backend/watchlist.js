@@ -0,0 +1,129 @@
+const store = require('./store');
+const { buildToken } = require('./tokenBuilder');
+const { findRemovedToken } = require('./graveyard');
+
+class WatchlistError extends Error {}
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const MAX_NOTE_LENGTH = 2000;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 32;
+
+function parseAddress(address) {
+  if (typeof address !== 'string' || !ADDRESS_PATTERN.test(address)) {
+    throw new WatchlistError('address must be a 0x-prefixed 40 character hex address');
+  }
+  return address;
+}
+
+// Validate { note, tags } from the API. Omitted fields keep their current value.
+function parseEntry(body, existing) {
+  const entry = { note: existing ? existing.note : '', tags: existing ? existing.tags : [] };
+  if (!body || typeof body !== 'object') return entry;
+
+  if (body.note !== undefined) {
+    if (typeof body.note !== 'string' || body.note.length > MAX_NOTE_LENGTH) {
+      throw new WatchlistError(`note must be a string of at most ${MAX_NOTE_LENGTH} characters`);
+    }
+    entry.note = body.note;
+  }
+
+  if (body.tags !== undefined) {
+    if (!Array.isArray(body.tags) || body.tags.some(tag => typeof tag !== 'string')) {
+      throw new WatchlistError('tags must be an array of strings');
+    }
+    const tags = [...new Set(body.tags.map(tag => tag.trim()).filter(Boolean))];
+    if (tags.length > MAX_TAGS || tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+      throw new WatchlistError(`tags must be at most ${MAX_TAGS} tags of at most ${MAX_TAG_LENGTH} characters`);
+    }
+    entry.tags = tags;
+  }
+
+  return entry;
+}
+
+function formatEntry(row) {
+  return {
+    address: row.token_address,
+    note: row.note,
+    tags: JSON.parse(row.tags),
+    addedAt: row.added_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// Watched addresses, lowercased, cached for routing WebSocket events and kept in
+// step with saveEntry and removeEntry
+let watched = new Set();
+
+const loaded = store.all('SELECT token_address FROM watchlist')
+  .then(rows => {
+    watched = new Set(rows.map(row => row.token_address.toLowerCase()));
+  })
+  .catch(err => console.error('Error loading watched addresses:', err));
+
+function isWatched(address) {
+  return Boolean(address) && watched.has(address.toLowerCase());
+}
+
+async function getEntry(address) {
+  const row = await store.get('SELECT * FROM watchlist WHERE token_address = ?', [address]);
+  return row ? formatEntry(row) : null;
+}
+
+// Add a token or update its note and tags. Returns { entry, created }.
+async function saveEntry(address, body) {
+  parseAddress(address);
+  const existing = await getEntry(address);
+  const entry = parseEntry(body, existing);
+  const now = Date.now();
+
+  if (existing) {
+    await store.run('UPDATE watchlist SET note = ?, tags = ?, updated_at = ? WHERE token_address = ?',
+      [entry.note, JSON.stringify(entry.tags), now, address]);
+  } else {
+    await store.run('INSERT INTO watchlist (token_address, note, tags, added_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+      [address, entry.note, JSON.stringify(entry.tags), now, now]);
+  }
+  await loaded;
+  watched.add(address.toLowerCase());
+  return { entry: await getEntry(address), created: !existing };
+}
+
+async function removeEntry(address) {
+  const result = await store.run('DELETE FROM watchlist WHERE token_address = ?', [address]);
+  await loaded;
+  watched.delete(address.toLowerCase());
+  return result.changes > 0;
+}
+
+// Every watched token, most recently added first, with its current Token from
+// the session's scan_records or, once it left them, its graveyard entry
+async function listWatchlist(sessionDb) {
+  const entries = (await store.all('SELECT * FROM watchlist ORDER BY added_at DESC')).map(formatEntry);
+  if (entries.length === 0) return [];
+
+  const placeholders = entries.map(() => '?').join(', ');
+  const rows = await sessionDb.all(
+    `SELECT * FROM scan_records WHERE LOWER(token_address) IN (${placeholders})`,
+    entries.map(entry => entry.address.toLowerCase())
+  );
+  const rowsByAddress = new Map(rows.map(row => [row.token_address.toLowerCase(), row]));
+
+  return Promise.all(entries.map(async entry => {
+    const row = rowsByAddress.get(entry.address.toLowerCase());
+    return {
+      ...entry,
+      token: row ? buildToken(row) : null,
+      removal: row ? null : await findRemovedToken(sessionDb, entry.address)
+    };
+  }));
+}
+
+module.exports = {
+  WatchlistError,
+  saveEntry,
+  removeEntry,
+  listWatchlist,
+  isWatched
+};
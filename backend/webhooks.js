@@ -0,0 +1,351 @@
+const crypto = require('crypto');
+const store = require('./store');
+const { AlertRuleError, parseCondition, conditionsMatch } = require('./alertRules');
+
+class WebhookError extends Error {}
+
+// Events a target can subscribe to. TEST is only sent by the test endpoint.
+const EVENT_TYPES = ['NEW_TOKEN', 'SECURITY_LEVEL_CHANGED', 'RUG_ALERT'];
+const DELIVERY_STATUSES = ['pending', 'delivered', 'failed'];
+
+// A failed attempt n is retried after RETRY_BASE_MS * 2^(n-1), up to MAX_ATTEMPTS attempts
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 5000;
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_FILTER_CONDITIONS = 20;
+
+// Validate a target body from the API. On update, omitted fields keep their current value.
+function parseTarget(body, existing = null) {
+  if (!body || typeof body !== 'object') {
+    throw new WebhookError('body must be a JSON object');
+  }
+  const target = existing
+    ? { url: existing.url, events: existing.events, filter: existing.filter, secret: existing.secret, enabled: existing.enabled }
+    : { url: null, events: null, filter: [], secret: null, enabled: true };
+
+  if (body.url !== undefined || !existing) {
+    let url;
+    try {
+      url = new URL(body.url);
+    } catch (err) {
+      throw new WebhookError('url must be an absolute http or https URL');
+    }
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      throw new WebhookError('url must be an absolute http or https URL');
+    }
+    target.url = url.toString();
+  }
+
+  if (body.events !== undefined || !existing) {
+    if (!Array.isArray(body.events) || body.events.length === 0 ||
+        body.events.some(event => !EVENT_TYPES.includes(event))) {
+      throw new WebhookError(`events must be a non-empty array of ${EVENT_TYPES.join(', ')}`);
+    }
+    target.events = [...new Set(body.events)];
+  }
+
+  // The filter uses the alert rule condition format and is matched against the event's token
+  if (body.filter !== undefined) {
+    if (!Array.isArray(body.filter) || body.filter.length > MAX_FILTER_CONDITIONS) {
+      throw new WebhookError(`filter must be an array of at most ${MAX_FILTER_CONDITIONS} conditions`);
+    }
+    try {
+      target.filter = body.filter.map((condition, index) => parseCondition(condition, `filter[${index}]`));
+    } catch (err) {
+      if (err instanceof AlertRuleError) throw new WebhookError(err.message);
+      throw err;
+    }
+  }
+
+  if (body.secret !== undefined) {
+    if (typeof body.secret !== 'string' || body.secret.length < 16) {
+      throw new WebhookError('secret must be a string of at least 16 characters');
+    }
+    target.secret = body.secret;
+  }
+  if (!target.secret) {
+    target.secret = crypto.randomBytes(32).toString('hex');
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') {
+      throw new WebhookError('enabled must be a boolean');
+    }
+    target.enabled = body.enabled;
+  }
+
+  return target;
+}
+
+function formatTarget(row) {
+  return {
+    id: row.id,
+    url: row.url,
+    events: JSON.parse(row.events),
+    filter: JSON.parse(row.filter),
+    secret: row.secret,
+    enabled: Boolean(row.enabled),
+    createdAt: row.created_at
+  };
+}
+
+// Targets as shown by the API, the secret is only returned when a target is created
+const withoutSecret = ({ secret, ...target }) => target;
+
+// Targets are cached for dispatch and reloaded after every change
+let targets = [];
+
+async function reloadTargets() {
+  targets = (await store.all('SELECT * FROM webhook_targets ORDER BY id ASC')).map(formatTarget);
+  return targets;
+}
+
+const loaded = reloadTargets().then(() => console.log(`Loaded ${targets.length} webhook targets`));
+
+async function listTargets() {
+  await loaded;
+  return targets.map(withoutSecret);
+}
+
+async function createTarget(body) {
+  const target = parseTarget(body);
+  const result = await store.run(`
+    INSERT INTO webhook_targets (url, events, filter, secret, enabled, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `, [target.url, JSON.stringify(target.events), JSON.stringify(target.filter), target.secret, target.enabled ? 1 : 0, Date.now()]);
+  await reloadTargets();
+  return targets.find(existing => existing.id === result.lastID);
+}
+
+// Update a target, returns null if it does not exist
+async function updateTarget(id, body) {
+  await loaded;
+  const existing = targets.find(target => target.id === id);
+  if (!existing) return null;
+
+  const target = parseTarget(body, existing);
+  await store.run(`
+    UPDATE webhook_targets SET url = ?, events = ?, filter = ?, secret = ?, enabled = ? WHERE id = ?
+  `, [target.url, JSON.stringify(target.events), JSON.stringify(target.filter), target.secret, target.enabled ? 1 : 0, id]);
+  await reloadTargets();
+  return withoutSecret(targets.find(updated => updated.id === id));
+}
+
+// Delete a target together with its delivery log
+async function deleteTarget(id) {
+  const result = await store.transaction(async () => {
+    await store.run('DELETE FROM webhook_deliveries WHERE target_id = ?', [id]);
+    return store.run('DELETE FROM webhook_targets WHERE id = ?', [id]);
+  });
+  await reloadTargets();
+  return result.changes > 0;
+}
+
+// Queue one delivery per target. The payload is serialized once so every
+// attempt sends, and signs, the same bytes.
+async function enqueue(event, data, recipients) {
+  if (recipients.length === 0) return [];
+
+  const payload = JSON.stringify({ event, createdAt: new Date().toISOString(), data });
+  const now = Date.now();
+  const ids = await store.transaction(async () => {
+    const inserted = [];
+    for (const target of recipients) {
+      const result = await store.run(`
+        INSERT INTO webhook_deliveries (target_id, event, payload, status, attempts, created_at, next_attempt_at)
+        VALUES (?, ?, ?, 'pending', 0, ?, ?)
+      `, [target.id, event, payload, now, now]);
+      inserted.push(result.lastID);
+    }
+    return inserted;
+  });
+
+  processDue().catch(err => console.error('Error delivering webhooks:', err));
+  return ids;
+}
+
+// Queue an event for every enabled target subscribed to it whose filter matches data.token
+async function dispatch(event, data) {
+  await loaded;
+  const recipients = targets.filter(target => (
+    target.enabled &&
+    target.events.includes(event) &&
+    (target.filter.length === 0 || (data.token && conditionsMatch(target.filter, data.token)))
+  ));
+  return enqueue(event, data, recipients);
+}
+
+// Queue a TEST event for one target regardless of its events and filter.
+// Returns the delivery id, or null if the target does not exist.
+async function sendTest(id) {
+  await loaded;
+  const target = targets.find(existing => existing.id === id);
+  if (!target) return null;
+  const [deliveryId] = await enqueue('TEST', { message: 'Test delivery', targetId: id }, [target]);
+  return deliveryId;
+}
+
+// HMAC-SHA256 over "<timestamp>.<body>" so a captured request can't be replayed with a new timestamp
+function sign(secret, timestamp, body) {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// POST one delivery, returning the HTTP status. Throws on network errors and non-2xx responses.
+async function send(delivery, target) {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const response = await fetch(target.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'token-monitor-webhooks',
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Delivery': String(delivery.id),
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': `sha256=${sign(target.secret, timestamp, delivery.payload)}`
+    },
+    body: delivery.payload,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    const error = new Error(`HTTP ${response.status}`);
+    error.status = response.status;
+    throw error;
+  }
+  return response.status;
+}
+
+async function attempt(delivery, target) {
+  const attempts = delivery.attempts + 1;
+  try {
+    const status = await send(delivery, target);
+    await store.run(`
+      UPDATE webhook_deliveries
+      SET status = 'delivered', attempts = ?, response_status = ?, last_error = NULL, next_attempt_at = NULL, delivered_at = ?
+      WHERE id = ?
+    `, [attempts, status, Date.now(), delivery.id]);
+  } catch (err) {
+    const message = err.name === 'TimeoutError' ? `Timed out after ${REQUEST_TIMEOUT_MS}ms`
+      : err.cause ? `${err.message}: ${err.cause.code || err.cause.message}` : err.message;
+    const giveUp = attempts >= MAX_ATTEMPTS;
+    await store.run(`
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = ?, response_status = ?, last_error = ?, next_attempt_at = ?
+      WHERE id = ?
+    `, [
+      giveUp ? 'failed' : 'pending',
+      attempts,
+      err.status || null,
+      message,
+      giveUp ? null : Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1),
+      delivery.id
+    ]);
+    console.error(`Webhook delivery ${delivery.id} to ${target.url} failed (attempt ${attempts}/${MAX_ATTEMPTS}): ${message}`);
+  }
+}
+
+let processing = null;
+
+// Attempt every pending delivery that is due. Deliveries to disabled targets
+// wait until the target is enabled again. Concurrent callers share one run.
+function processDue() {
+  if (!processing) {
+    processing = (async () => {
+      await loaded;
+      const due = await store.all(`
+        SELECT d.* FROM webhook_deliveries d
+        JOIN webhook_targets t ON t.id = d.target_id
+        WHERE d.status = 'pending' AND d.next_attempt_at <= ? AND t.enabled = 1
+        ORDER BY d.next_attempt_at ASC
+        LIMIT 100
+      `, [Date.now()]);
+
+      for (const delivery of due) {
+        const target = targets.find(existing => existing.id === delivery.target_id);
+        if (target) await attempt(delivery, target);
+      }
+      return due.length;
+    })().finally(() => {
+      processing = null;
+    });
+  }
+  return processing;
+}
+
+// Validate ?targetId=&status=&limit= for the delivery log
+function parseDeliveryQuery(params) {
+  const query = { targetId: null, status: null, limit: 50 };
+
+  if (params.targetId !== undefined) {
+    const targetId = Number(params.targetId);
+    if (!Number.isInteger(targetId)) {
+      throw new WebhookError('targetId must be an integer');
+    }
+    query.targetId = targetId;
+  }
+  if (params.status !== undefined) {
+    if (!DELIVERY_STATUSES.includes(params.status)) {
+      throw new WebhookError(`status must be one of ${DELIVERY_STATUSES.join(', ')}`);
+    }
+    query.status = params.status;
+  }
+  if (params.limit !== undefined) {
+    const limit = Number(params.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+      throw new WebhookError('limit must be an integer between 1 and 500');
+    }
+    query.limit = limit;
+  }
+
+  return query;
+}
+
+// Delivery log, newest first
+async function listDeliveries(query) {
+  const conditions = [];
+  const params = [];
+  if (query.targetId !== null) {
+    conditions.push('target_id = ?');
+    params.push(query.targetId);
+  }
+  if (query.status !== null) {
+    conditions.push('status = ?');
+    params.push(query.status);
+  }
+
+  const rows = await store.all(`
+    SELECT * FROM webhook_deliveries
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY id DESC
+    LIMIT ?
+  `, [...params, query.limit]);
+
+  return rows.map(row => ({
+    id: row.id,
+    targetId: row.target_id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: row.response_status,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    nextAttemptAt: row.next_attempt_at,
+    deliveredAt: row.delivered_at,
+    payload: JSON.parse(row.payload)
+  }));
+}
+
+module.exports = {
+  WebhookError,
+  EVENT_TYPES,
+  MAX_ATTEMPTS,
+  RETRY_BASE_MS,
+  listTargets,
+  createTarget,
+  updateTarget,
+  deleteTarget,
+  dispatch,
+  sendTest,
+  processDue,
+  parseDeliveryQuery,
+  listDeliveries
+};
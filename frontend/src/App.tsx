@@ -1,17 +1,121 @@
 import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import { TokenEventsList } from './components/TokenEventsList';
-import { Token } from './types';
+import { SessionPicker } from './components/SessionPicker';
+import { GraveyardView } from './components/GraveyardView';
+import { RugAlertToasts } from './components/RugAlertToasts';
+import { RugAlertLogView } from './components/RugAlertLogView';
+import { AlertRulesView } from './components/AlertRulesView';
+import { LpUnlockCalendarView } from './components/LpUnlockCalendarView';
+import { notifyAlertMatch, notifyLpUnlock } from './notifications';
+import { appendHistoryPoint, refreshHistories } from './historyStore';
+import { AlertMatch, ClientMessage, LpUnlockWarning, RemovedToken, RugAlert, ServerMessage, SessionInfo, SubscriptionTopic, Token, TokenFilters, WatchedToken, WatchNote } from './types';
+import { placeToken } from './tokenOrder';
+import { activateSession, fetchSessions, fetchTokenPage, fetchWatchlist, removeWatchlistEntry, saveWatchlistEntry, tokenSubscriptionFilter } from './api';
 
 // Add type definitions
 type TimeoutRef = ReturnType<typeof setTimeout>;
 type IntervalRef = ReturnType<typeof setInterval>;
 
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// The dashboard shows every kind of event, so it subscribes to all topics
+const DASHBOARD_TOPICS: SubscriptionTopic[] = ['tokens', 'alerts', 'history', 'watchlist'];
+
+const sendMessage = (ws: WebSocket, message: ClientMessage) => ws.send(JSON.stringify(message));
+
+// Filter token events like the token list; subscribing again replaces the filter
+const subscribeTokens = (ws: WebSocket, filters: TokenFilters) => (
+  sendMessage(ws, { type: 'SUBSCRIBE', topics: ['tokens'], filter: tokenSubscriptionFilter(filters) })
+);
+
+// Add logging wrapper
+const log = {
+  info: (...args: any[]) => {
+    console.log('\n%c[INFO]', 'color: #2563eb; font-weight: bold;', ...args);
+  },
+  warn: (...args: any[]) => {
+    console.log('\n%c[WARN]', 'color: #d97706; font-weight: bold;', ...args);
+  },
+  error: (...args: any[]) => {
+    console.log('\n%c[ERROR]', 'color: #dc2626; font-weight: bold;', ...args);
+  },
+  success: (...args: any[]) => {
+    console.log('\n%c[SUCCESS]', 'color: #059669; font-weight: bold;', ...args);
+  },
+  ws: (...args: any[]) => {
+    console.log('\n%c[WEBSOCKET]', 'color: #7c3aed; font-weight: bold;', ...args);
+  }
+};
+
+// Add server logging
+const serverLog = {
+  info: (...args: any[]) => {
+    console.log('\x1b[34m%s\x1b[0m', `[${new Date().toLocaleTimeString()}] ℹ️`, ...args);
+  },
+  warn: (...args: any[]) => {
+    console.log('\x1b[33m%s\x1b[0m', `[${new Date().toLocaleTimeString()}] ⚠️`, ...args);
+  },
+  error: (...args: any[]) => {
+    console.log('\x1b[31m%s\x1b[0m', `[${new Date().toLocaleTimeString()}] ❌`, ...args);
+  },
+  success: (...args: any[]) => {
+    console.log('\x1b[32m%s\x1b[0m', `[${new Date().toLocaleTimeString()}] ✅`, ...args);
+  },
+  ws: (...args: any[]) => {
+    console.log('\x1b[35m%s\x1b[0m', `[${new Date().toLocaleTimeString()}] 🔌`, ...args);
+  }
+};
+
 function App() {
   const [tokens, setTokens] = useState<Token[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
+  // Bumped when the server can't replay what a reconnect missed, to refetch everything
+  const [resyncCount, setResyncCount] = useState(0);
+  const [filters, setFilters] = useState<TokenFilters>({
+    minHolders: 0,
+    minLiquidity: 0,
+    minSafetyScore: 0,
+    hideHoneypots: false,
+    showOnlyHoneypots: false,
+    showOnlyDisagreements: false,
+    hideDanger: false,
+    hideWarning: false,
+    showOnlySafe: false,
+    searchQuery: '',
+    sortBy: 'age',
+    sortDirection: 'asc',
+    maxRecords: 50
+  });
+  const [totalTokens, setTotalTokens] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [liveSession, setLiveSession] = useState<string | null>(null);
+  // null follows the live session, anything else is a read-only review of an older one
+  const [viewSession, setViewSession] = useState<string | null>(null);
+  const viewingLive = useRef(true);
+  const [view, setView] = useState<'tokens' | 'graveyard' | 'alerts' | 'rules' | 'unlocks'>('tokens');
+  const [demotions, setDemotions] = useState<RemovedToken[]>([]);
+  const [unseenDemotions, setUnseenDemotions] = useState(0);
+  const [rugAlerts, setRugAlerts] = useState<RugAlert[]>([]);
+  const [rugToasts, setRugToasts] = useState<RugAlert[]>([]);
+  const [unseenRugAlerts, setUnseenRugAlerts] = useState(0);
+  const [alertMatches, setAlertMatches] = useState<AlertMatch[]>([]);
+  const [unlockWarnings, setUnlockWarnings] = useState<LpUnlockWarning[]>([]);
+  const [unseenUnlockWarnings, setUnseenUnlockWarnings] = useState(0);
+  const [watchlist, setWatchlist] = useState<WatchedToken[]>([]);
+  // Bumped when another client watches a token this one has no state for
+  const [watchlistStale, setWatchlistStale] = useState(0);
+  const watchlistRef = useRef(watchlist);
+  // The filters the token subscription is sent with on each connect, and pushed
+  // tokens are placed by
+  const filtersRef = useRef(filters);
+  // Whether more pages can be loaded, so pushed tokens past the loaded ones wait for them
+  const hasMoreRef = useRef(false);
+  const viewRef = useRef(view);
   const wsRef = useRef<WebSocket | null>(null);
   const initialLoadDone = useRef(false);
   const reconnectTimeoutRef = useRef<TimeoutRef | null>(null);
@@ -20,49 +124,17 @@ function App() {
   const isReconnecting = useRef(false);
   const lastMessageTime = useRef<string>('Never');
   const lastHeartbeatResponse = useRef<number>(Date.now());
-  const MAX_RETRIES = 5;
-  const RETRY_INTERVAL = 5000;
+  // Read by onclose, which would otherwise see the count of the render that connected
+  const retryCountRef = useRef(0);
+  // Stream and sequence number of the last event received, sent as RESUME on reconnect
+  const streamPosition = useRef<{ streamId: string; lastSeq: number } | null>(null);
+  const MAX_RETRIES = 8;
+  // Reconnects wait RETRY_INTERVAL, then twice as long each attempt up to MAX_RETRY_DELAY
+  const RETRY_INTERVAL = 1000;
+  const MAX_RETRY_DELAY = 30000;
   const HEARTBEAT_INTERVAL = 15000;
   const HEARTBEAT_TIMEOUT = 5000;
 
-  // Add logging wrapper
-  const log = {
-    info: (...args: any[]) => {
-      console.log('\n%c[INFO]', 'color: #2563eb; font-weight: bold;', ...args);
-    },
-    warn: (...args: any[]) => {
-      console.log('\n%c[WARN]', 'color: #d97706; font-weight: bold;', ...args);
-    },
-    error: (...args: any[]) => {
-      console.log('\n%c[ERROR]', 'color: #dc2626; font-weight: bold;', ...args);
-    },
-    success: (...args: any[]) => {
-      console.log('\n%c[SUCCESS]', 'color: #059669; font-weight: bold;', ...args);
-    },
-    ws: (...args: any[]) => {
-      console.log('\n%c[WEBSOCKET]', 'color: #7c3aed; font-weight: bold;', ...args);
-    }
-  };
-
-  // Add server logging
-  const serverLog = {
-    info: (...args: any[]) => {
-      console.log('\x1b[34m%s\x1b[0m', `[${new Date().toLocaleTimeString()}] ℹ️`, ...args);
-    },
-    warn: (...args: any[]) => {
-      console.log('\x1b[33m%s\x1b[0m', `[${new Date().toLocaleTimeString()}] ⚠️`, ...args);
-    },
-    error: (...args: any[]) => {
-      console.log('\x1b[31m%s\x1b[0m', `[${new Date().toLocaleTimeString()}] ❌`, ...args);
-    },
-    success: (...args: any[]) => {
-      console.log('\x1b[32m%s\x1b[0m', `[${new Date().toLocaleTimeString()}] ✅`, ...args);
-    },
-    ws: (...args: any[]) => {
-      console.log('\x1b[35m%s\x1b[0m', `[${new Date().toLocaleTimeString()}] 🔌`, ...args);
-    }
-  };
-
   const clearReconnectTimeout = () => {
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
@@ -86,7 +158,7 @@ function App() {
     
     const sendHeartbeat = () => {
       if (ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify({ type: 'PING', timestamp: Date.now() }));
+        sendMessage(ws, { type: 'PING', timestamp: Date.now() });
         
         // Set timeout for pong response
         heartbeatTimeoutRef.current = setTimeout(() => {
@@ -113,21 +185,17 @@ function App() {
     }
   }, [clearHeartbeatInterval]);
 
+  // Fetch the first page for the current filters
   const fetchTokens = useCallback(async () => {
-    log.info('Fetching tokens from API...');
+    log.info('Fetching tokens from API...', viewSession ? `(session ${viewSession})` : '(live session)');
     try {
-      const response = await fetch('http://localhost:3002/api/tokens');
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      const data = await response.json();
+      const page = await fetchTokenPage(filters, null, viewSession);
       
-      if (!data || !data.tokens || !Array.isArray(data.tokens)) {
-        throw new Error('Invalid API response format');
-      }
-      
-      log.success(`Fetched ${data.tokens.length} tokens from API`);
-      setTokens(data.tokens);
+      log.success(`Fetched ${page.tokens.length} of ${page.total} tokens from API`);
+      setTokens(page.tokens);
+      setTotalTokens(page.total);
+      setNextCursor(page.nextCursor);
+      setError(null);
       if (!initialLoadDone.current) {
         setLoading(false);
         initialLoadDone.current = true;
@@ -140,6 +208,117 @@ function App() {
         initialLoadDone.current = true;
       }
     }
+  }, [filters, viewSession]);
+
+  // Append the page after the current cursor
+  const loadMoreTokens = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchTokenPage(filters, nextCursor, viewSession);
+      log.success(`Fetched ${page.tokens.length} more tokens`);
+      setTokens(prev => {
+        const known = new Set(prev.map(token => token.address));
+        return [...prev, ...page.tokens.filter(token => !known.has(token.address))];
+      });
+      setTotalTokens(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      log.error('Error fetching more tokens:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch tokens');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [filters, nextCursor, loadingMore, viewSession]);
+
+  const loadWatchlist = useCallback(async () => {
+    try {
+      setWatchlist(await fetchWatchlist(viewSession));
+    } catch (err) {
+      log.error('Error fetching watchlist:', err);
+    }
+  }, [viewSession]);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      const data = await fetchSessions();
+      setSessions(data.sessions);
+      setLiveSession(data.active);
+    } catch (err) {
+      log.error('Error fetching sessions:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    viewingLive.current = viewSession === null || viewSession === liveSession;
+  }, [viewSession, liveSession]);
+
+  useEffect(() => {
+    watchlistRef.current = watchlist;
+  }, [watchlist]);
+
+  useEffect(() => {
+    hasMoreRef.current = nextCursor !== null;
+  }, [nextCursor]);
+
+  useEffect(() => {
+    filtersRef.current = filters;
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      subscribeTokens(wsRef.current, filters);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    viewRef.current = view;
+    if (view === 'graveyard') setUnseenDemotions(0);
+    if (view === 'alerts') setUnseenRugAlerts(0);
+    if (view === 'unlocks') setUnseenUnlockWarnings(0);
+  }, [view]);
+
+  // Keep a demoted token for the graveyard view, counting it as unseen while another view is open
+  const addDemotion = useCallback((token: RemovedToken) => {
+    setDemotions(prev => [token, ...prev.filter(existing => existing.address !== token.address)]);
+    if (viewRef.current !== 'graveyard') {
+      setUnseenDemotions(prev => prev + 1);
+    }
+  }, []);
+
+  // Rug alerts are toasted and kept for the alert log, counted as unseen until the log is opened
+  const addRugAlert = useCallback((alert: RugAlert) => {
+    setRugAlerts(prev => [alert, ...prev]);
+    setRugToasts(prev => [alert, ...prev]);
+    if (viewRef.current !== 'alerts') {
+      setUnseenRugAlerts(prev => prev + 1);
+    }
+  }, []);
+
+  const dismissRugToast = useCallback((alert: RugAlert) => {
+    setRugToasts(prev => prev.filter(toast => toast !== alert));
+  }, []);
+
+  // Apply a pushed change to a watched token. Watched tokens skip the subscription's
+  // filters, so they stay current even when the list's filters hide them.
+  const updateWatched = useCallback((address: string, update: (entry: WatchedToken) => WatchedToken) => {
+    setWatchlist(prev => prev.map(entry => (sameAddress(entry.address, address) ? update(entry) : entry)));
+  }, []);
+
+  // Insert a token pushed by the server at its sorted position, replacing any
+  // existing entry with the same address
+  const upsertToken = useCallback((token: Token) => {
+    setTokens(prev => placeToken(prev, token, filtersRef.current, hasMoreRef.current));
+  }, []);
+
+  // Apply a field-level diff to the token with the given address, moving it if
+  // the change affects its position
+  const mergeTokenChanges = useCallback((address: string, changes: Partial<Token>) => {
+    setTokens(prev => {
+      const token = prev.find(existing => existing.address === address);
+      return token ? placeToken(prev, { ...token, ...changes }, filtersRef.current, hasMoreRef.current) : prev;
+    });
+  }, []);
+
+  const removeToken = useCallback((address: string) => {
+    setTokens(prev => prev.filter(token => token.address !== address));
   }, []);
 
   const connectWebSocket = useCallback(() => {
@@ -171,19 +350,40 @@ function App() {
       ws.onopen = () => {
         console.log('WebSocket connection established');
         updateConnectionState(true);
+        retryCountRef.current = 0;
         setRetryCount(0);
         setError(null);
         isReconnecting.current = false;
         startHeartbeat(ws);
+        sendMessage(ws, { type: 'SUBSCRIBE', topics: DASHBOARD_TOPICS });
+        subscribeTokens(ws, filtersRef.current);
+        // Catch up on the events sent while disconnected, or since connecting on the
+        // first connection; the server holds live events until then
+        sendMessage(ws, streamPosition.current ? { type: 'RESUME', ...streamPosition.current } : { type: 'RESUME' });
       };
 
       ws.onmessage = (event) => {
         try {
-          const data = JSON.parse(event.data);
+          const data: ServerMessage = JSON.parse(event.data);
           lastMessageTime.current = new Date().toLocaleTimeString();
           
           // Update last heartbeat response time for any message received
           lastHeartbeatResponse.current = Date.now();
+
+          // CONNECTED reports where the stream is, which only counts as received on the
+          // first connection; a reconnect still has the missed events to replay
+          if (data.type === 'CONNECTED' || data.type === 'RESYNC_REQUIRED') {
+            if (!streamPosition.current || data.type === 'RESYNC_REQUIRED') {
+              streamPosition.current = { streamId: data.streamId, lastSeq: data.seq };
+            }
+          } else if (data.seq !== undefined && streamPosition.current) {
+            // A replay can repeat events already handled; applying them again would
+            // repeat their toasts and notifications and move lastSeq backwards
+            if (data.type !== 'RESUMED' && data.seq <= streamPosition.current.lastSeq) {
+              return;
+            }
+            streamPosition.current.lastSeq = Math.max(streamPosition.current.lastSeq, data.seq);
+          }
           
           switch (data.type) {
             case 'PONG':
@@ -196,31 +396,127 @@ function App() {
               break;
 
             case 'NEW_TOKEN':
-              serverLog.success('New token received:', data.token?.token_address);
+              serverLog.success('New token received:', data.token?.address);
+              if (!viewingLive.current) return;
               
               if (!data.token) {
                 log.warn('No token data in NEW_TOKEN message:', data);
                 return;
               }
 
-              // Trigger a full refresh to get complete token data
-              (async () => {
-                try {
-                  log.info('Refreshing token list after new token notification');
-                  await fetchTokens();
-                  log.success('Token list refreshed successfully');
-                } catch (err) {
-                  log.error('Failed to refresh tokens after new token notification:', err);
-                }
-              })();
+              if (!data.outsideFilter) upsertToken(data.token);
+              updateWatched(data.token.address, entry => ({ ...entry, token: data.token, removal: null }));
+              break;
+
+            case 'TOKEN_UPDATED':
+              log.info(`Token ${data.address} updated:`, Object.keys(data.changes));
+              if (!viewingLive.current) return;
+              if (data.outsideFilter) {
+                removeToken(data.address);
+              } else {
+                mergeTokenChanges(data.address, data.changes);
+              }
+              updateWatched(data.address, entry => (
+                entry.token ? { ...entry, token: { ...entry.token, ...data.changes } } : entry
+              ));
+              break;
+
+            case 'TOKEN_REMOVED':
+              log.info('Token removed:', data.address, data.removal ? `(moved to ${data.removal.table})` : '');
+              if (!viewingLive.current) return;
+              removeToken(data.address);
+              updateWatched(data.address, entry => ({ ...entry, token: null }));
+              break;
+
+            // The tokens subscription is filtered like the list; a watched token
+            // leaving it arrives as a TOKEN_UPDATED marked outsideFilter instead
+            case 'TOKEN_LEFT_FILTER':
+              if (!viewingLive.current) return;
+              removeToken(data.address);
+              break;
+
+            case 'TOKEN_ENTERED_FILTER':
+              if (!viewingLive.current) return;
+              upsertToken(data.token);
+              updateWatched(data.address, entry => ({ ...entry, token: data.token }));
+              break;
+
+            case 'TOKEN_DEMOTED':
+              log.info('Token demoted:', data.token.address, `(${data.token.table}: ${data.token.reason || 'no reason'})`);
+              if (!viewingLive.current) return;
+              addDemotion(data.token);
+              updateWatched(data.token.address, entry => ({ ...entry, token: null, removal: data.token }));
+              break;
+
+            case 'WATCHLIST_CHANGED': {
+              log.info('Watchlist changed:', data.address, data.entry ? 'watched' : 'unwatched');
+              const { entry } = data;
+              if (!entry) {
+                setWatchlist(prev => prev.filter(watched => !sameAddress(watched.address, data.address)));
+              } else if (watchlistRef.current.some(watched => sameAddress(watched.address, entry.address))) {
+                updateWatched(entry.address, watched => ({ ...watched, ...entry }));
+              } else {
+                setWatchlistStale(prev => prev + 1);
+              }
+              break;
+            }
+
+            case 'RUG_ALERT':
+              log.warn('Rug alert:', data.alert.address, data.alert.checks.map(check => check.id));
+              addRugAlert(data.alert);
+              break;
+
+            case 'LP_UNLOCK_WARNING':
+              log.warn(`LP unlock in ${data.warning.minutesLeft} min:`, data.warning.address);
+              setUnlockWarnings(prev => [data.warning, ...prev]);
+              if (viewRef.current !== 'unlocks') {
+                setUnseenUnlockWarnings(prev => prev + 1);
+              }
+              notifyLpUnlock(data.warning);
+              break;
+
+            case 'ALERT_MATCH':
+              log.success(`Alert rule "${data.rule.name}" matched:`, data.token.address);
+              setAlertMatches(prev => [{ rule: data.rule, token: data.token, receivedAt: Date.now() }, ...prev]);
+              notifyAlertMatch(data.rule, data.token);
+              break;
+
+            case 'HISTORY_POINT':
+              appendHistoryPoint(data.address, data.point);
+              break;
+
+            case 'SESSION_CHANGED':
+              log.info('Live session changed:', data.session);
+              setLiveSession(data.session);
+              setDemotions([]);
+              loadSessions();
               break;
 
             case 'CONNECTED':
               log.success('Server confirmed connection');
               break;
 
+            case 'SUBSCRIBED':
+              log.info('Subscribed to:', data.topics.map(subscription => subscription.topic).join(', '));
+              break;
+
+            case 'SUBSCRIPTION_ERROR':
+              serverLog.error('Subscription rejected:', data.error);
+              break;
+
+            case 'RESUMED':
+              log.success(`Resumed stream, ${data.replayed} missed event${data.replayed !== 1 ? 's' : ''} replayed`);
+              break;
+
+            case 'RESYNC_REQUIRED':
+              log.warn('Missed events are no longer available, reloading:', data.reason);
+              setResyncCount(prev => prev + 1);
+              loadSessions();
+              refreshHistories();
+              break;
+
             default:
-              log.warn('Unknown message type:', data.type);
+              log.warn('Unknown message type:', (data as { type: string }).type);
           }
         } catch (err) {
           serverLog.error('Failed to process WebSocket message:', err);
@@ -239,16 +535,19 @@ function App() {
         wsRef.current = null;
         clearHeartbeatInterval();
         
-        if (retryCount < MAX_RETRIES && !isReconnecting.current) {
-          serverLog.warn(`Scheduling reconnection attempt ${retryCount + 1}/${MAX_RETRIES}`);
+        const attempt = retryCountRef.current;
+        if (attempt < MAX_RETRIES && !isReconnecting.current) {
+          const delay = Math.min(RETRY_INTERVAL * 2 ** attempt, MAX_RETRY_DELAY);
+          serverLog.warn(`Scheduling reconnection attempt ${attempt + 1}/${MAX_RETRIES} in ${delay / 1000}s`);
           isReconnecting.current = true;
           clearReconnectTimeout();
           reconnectTimeoutRef.current = setTimeout(() => {
-            setRetryCount(prev => prev + 1);
+            retryCountRef.current = attempt + 1;
+            setRetryCount(attempt + 1);
             isReconnecting.current = false;
             connectWebSocket();
-          }, RETRY_INTERVAL);
-        } else if (retryCount >= MAX_RETRIES) {
+          }, delay);
+        } else if (attempt >= MAX_RETRIES) {
           serverLog.error('Maximum reconnection attempts reached');
           setError('Maximum reconnection attempts reached');
           isReconnecting.current = false;
@@ -262,7 +561,7 @@ function App() {
       isReconnecting.current = false;
       return null;
     }
-  }, [retryCount, startHeartbeat]);
+  }, [startHeartbeat, upsertToken, mergeTokenChanges, removeToken, loadSessions, addDemotion, addRugAlert, updateWatched]);
 
   // Log token state changes
   useEffect(() => {
@@ -285,9 +584,6 @@ function App() {
       serverLog.ws('Initial WebSocket connection created');
     }
     
-    serverLog.info('Fetching initial tokens');
-    fetchTokens();
-
     return () => {
       serverLog.info('Cleaning up application');
       clearReconnectTimeout();
@@ -299,7 +595,26 @@ function App() {
       }
       isReconnecting.current = false;
     };
-  }, [connectWebSocket, fetchTokens]);
+  }, [connectWebSocket]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  // Refetch the first page whenever the filters, the viewed session or the live session change,
+  // debounced for typing in the search box
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      serverLog.info('Fetching tokens for current filters');
+      fetchTokens();
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [fetchTokens, liveSession, resyncCount]);
+
+  // Reload the watchlist for the viewed session; its tokens come from that session
+  useEffect(() => {
+    loadWatchlist();
+  }, [loadWatchlist, liveSession, watchlistStale, resyncCount]);
 
   // Track connection state changes
   useEffect(() => {
@@ -323,6 +638,7 @@ function App() {
 
   const handleReconnectClick = () => {
     log.info('Manual reconnection requested');
+    retryCountRef.current = 0;
     setRetryCount(0);
     connectWebSocket();
   };
@@ -330,6 +646,38 @@ function App() {
   const handleRefreshTokens = () => {
     log.info('Manual token refresh requested');
     fetchTokens();
+    loadSessions();
+  };
+
+  // Watch, re-note or unwatch a token; other clients hear about it via WATCHLIST_CHANGED
+  const handleWatchChange = async (address: string, note: WatchNote | null) => {
+    try {
+      if (note === null) {
+        await removeWatchlistEntry(address);
+        setWatchlist(prev => prev.filter(entry => !sameAddress(entry.address, address)));
+        return;
+      }
+      const saved = await saveWatchlistEntry(address, note);
+      setWatchlist(prev => (prev.some(entry => sameAddress(entry.address, address))
+        ? prev.map(entry => (sameAddress(entry.address, address) ? { ...entry, ...saved } : entry))
+        : [{ ...saved, token: tokens.find(token => sameAddress(token.address, address)) || null, removal: null }, ...prev]));
+    } catch (err) {
+      log.error('Error updating watchlist:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update watchlist');
+    }
+  };
+
+  const handleMakeLive = async (session: string) => {
+    log.info('Switching live session to', session);
+    try {
+      const active = await activateSession(session);
+      setLiveSession(active);
+      setViewSession(null);
+      loadSessions();
+    } catch (err) {
+      log.error('Error switching session:', err);
+      setError(err instanceof Error ? err.message : 'Failed to switch session');
+    }
   };
 
   return (
@@ -363,6 +711,15 @@ function App() {
                   Retry Count: {retryCount}/{MAX_RETRIES}
                 </div>
               </div>
+
+              {/* Session Picker */}
+              <SessionPicker
+                sessions={sessions}
+                liveSession={liveSession}
+                viewSession={viewSession}
+                onViewChange={setViewSession}
+                onMakeLive={handleMakeLive}
+              />
             </div>
 
             {/* Action Buttons */}
@@ -373,6 +730,30 @@ function App() {
               >
                 Reconnect
               </button>
+              <button
+                onClick={() => setView(view === 'graveyard' ? 'tokens' : 'graveyard')}
+                className="px-3 py-1 bg-white/20 hover:bg-white/30 text-white rounded backdrop-blur-sm transition-colors duration-150 text-sm border border-gray-500"
+              >
+                {view === 'graveyard' ? 'Tokens' : `Graveyard${unseenDemotions > 0 ? ` (${unseenDemotions} new)` : ''}`}
+              </button>
+              <button
+                onClick={() => setView(view === 'alerts' ? 'tokens' : 'alerts')}
+                className={`px-3 py-1 ${unseenRugAlerts > 0 ? 'bg-red-600 hover:bg-red-500' : 'bg-white/20 hover:bg-white/30'} text-white rounded backdrop-blur-sm transition-colors duration-150 text-sm border border-gray-500`}
+              >
+                {view === 'alerts' ? 'Tokens' : `Rug Alerts${unseenRugAlerts > 0 ? ` (${unseenRugAlerts} new)` : ''}`}
+              </button>
+              <button
+                onClick={() => setView(view === 'rules' ? 'tokens' : 'rules')}
+                className="px-3 py-1 bg-white/20 hover:bg-white/30 text-white rounded backdrop-blur-sm transition-colors duration-150 text-sm border border-gray-500"
+              >
+                {view === 'rules' ? 'Tokens' : 'Alert Rules'}
+              </button>
+              <button
+                onClick={() => setView(view === 'unlocks' ? 'tokens' : 'unlocks')}
+                className={`px-3 py-1 ${unseenUnlockWarnings > 0 ? 'bg-orange-600 hover:bg-orange-500' : 'bg-white/20 hover:bg-white/30'} text-white rounded backdrop-blur-sm transition-colors duration-150 text-sm border border-gray-500`}
+              >
+                {view === 'unlocks' ? 'Tokens' : `LP Unlocks${unseenUnlockWarnings > 0 ? ` (${unseenUnlockWarnings} soon)` : ''}`}
+              </button>
               <button
                 onClick={handleRefreshTokens}
                 className="px-3 py-1 bg-white/20 hover:bg-white/30 text-white rounded backdrop-blur-sm transition-colors duration-150 text-sm border border-gray-500"
@@ -384,10 +765,37 @@ function App() {
         </div>
       </div>
       
+      <RugAlertToasts alerts={rugToasts} onDismiss={dismissRugToast} onOpenLog={() => setView('alerts')} />
+
       {/* Main Content - Starts below fixed top section */}
       <div className="pt-24 relative z-0">
         {loading && <div className="p-4 border border-gray-600">Loading tokens...</div>}
-        {!loading && <TokenEventsList tokens={tokens} />}
+        {!loading && view === 'graveyard' && (
+          <GraveyardView session={viewSession} demotions={demotions} />
+        )}
+        {!loading && view === 'alerts' && (
+          <RugAlertLogView alerts={rugAlerts} />
+        )}
+        {!loading && view === 'rules' && (
+          <AlertRulesView matches={alertMatches} />
+        )}
+        {!loading && view === 'unlocks' && (
+          <LpUnlockCalendarView warnings={unlockWarnings} />
+        )}
+        {!loading && view === 'tokens' && (
+          <TokenEventsList
+            tokens={tokens}
+            total={totalTokens}
+            filters={filters}
+            onFiltersChange={setFilters}
+            hasMore={nextCursor !== null}
+            loadingMore={loadingMore}
+            onLoadMore={loadMoreTokens}
+            session={viewSession}
+            watchlist={watchlist}
+            onWatchChange={handleWatchChange}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,233 @@
+import { AlertRule, AlertRuleDraft, AlertRuleField, CreatorReport, GraveyardPage, HistoryMetric, HistoryPoint, LpUnlock, RugAlertLog, SecurityHistory, SessionInfo, TokenFilters, TokenPage, TokenQueryFilter, TokenRemoval, WatchedToken, WatchlistEntry, WatchNote } from './types';
+
+export const API_BASE = 'http://localhost:3002';
+
+// Translate the filter panel state into GET /api/tokens query parameters.
+// Without a session the server answers from the live one.
+export const buildTokenQuery = (filters: TokenFilters, cursor?: string | null, session?: string | null) => {
+  const params = new URLSearchParams({
+    sortBy: filters.sortBy,
+    sortDirection: filters.sortDirection,
+    limit: String(filters.maxRecords)
+  });
+
+  if (filters.minHolders > 0) params.set('minHolders', String(filters.minHolders));
+  if (filters.minLiquidity > 0) params.set('minLiquidity', String(filters.minLiquidity));
+  if (filters.minSafetyScore > 0) params.set('minSafetyScore', String(filters.minSafetyScore));
+  if (filters.searchQuery.trim()) params.set('q', filters.searchQuery.trim());
+
+  if (filters.showOnlyHoneypots) {
+    params.set('honeypot', 'only');
+  } else if (filters.hideHoneypots) {
+    params.set('honeypot', 'hide');
+  }
+
+  if (filters.showOnlyDisagreements) params.set('disagreements', 'only');
+
+  const levels = filters.showOnlySafe
+    ? ['safe']
+    : ['danger', 'warning', 'safe'].filter(level => (
+      !(level === 'danger' && filters.hideDanger) && !(level === 'warning' && filters.hideWarning)
+    ));
+  if (levels.length < 3) params.set('securityLevels', levels.join(','));
+
+  if (cursor) params.set('cursor', cursor);
+  if (session) params.set('session', session);
+  return params;
+};
+
+// The filter panel as a SUBSCRIBE filter, so pushed tokens match the fetched list
+export const tokenSubscriptionFilter = (filters: TokenFilters): TokenQueryFilter => (
+  Object.fromEntries(buildTokenQuery(filters))
+);
+
+export const fetchTokenPage = async (
+  filters: TokenFilters,
+  cursor?: string | null,
+  session?: string | null
+): Promise<TokenPage> => {
+  const response = await fetch(`${API_BASE}/api/tokens?${buildTokenQuery(filters, cursor, session)}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (!data || !Array.isArray(data.tokens)) {
+    throw new Error('Invalid API response format');
+  }
+  return data;
+};
+
+export const fetchSessions = async (): Promise<{ active: string; sessions: SessionInfo[] }> => {
+  const response = await fetch(`${API_BASE}/api/sessions`);
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+};
+
+// Make a session the live one the server polls and pushes updates for
+export const activateSession = async (name: string): Promise<string> => {
+  const response = await fetch(`${API_BASE}/api/sessions/active`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name })
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.active;
+};
+
+export interface GraveyardQuery {
+  table?: TokenRemoval['table'];
+  q?: string;
+  limit?: number;
+  before?: string;
+}
+
+// Removed tokens, most recently removed first. Pass the last entry's removalTimestamp as `before` for the next page.
+export const fetchGraveyard = async (query: GraveyardQuery, session?: string | null): Promise<GraveyardPage> => {
+  const params = new URLSearchParams();
+  if (query.table) params.set('table', query.table);
+  if (query.q && query.q.trim()) params.set('q', query.q.trim());
+  if (query.limit) params.set('limit', String(query.limit));
+  if (query.before) params.set('before', query.before);
+  if (session) params.set('session', session);
+
+  const response = await fetch(`${API_BASE}/api/graveyard?${params}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+};
+
+export const fetchRugAlerts = async (limit = 100): Promise<RugAlertLog> => {
+  const response = await fetch(`${API_BASE}/api/rug-alerts?limit=${limit}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+};
+
+export const fetchLpUnlocks = async (limit = 500): Promise<{ unlocks: LpUnlock[]; leadTimesMinutes: number[] }> => {
+  const response = await fetch(`${API_BASE}/api/lp-unlocks?limit=${limit}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+};
+
+export const fetchCreatorReport = async (address: string): Promise<CreatorReport> => {
+  const response = await fetch(`${API_BASE}/api/creators/${address}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+};
+
+// Security classification changes over every stored scan of a token. Without a
+// session every session that scanned it is included.
+export const fetchSecurityHistory = async (address: string, session?: string | null): Promise<SecurityHistory> => {
+  const params = new URLSearchParams();
+  if (session) params.set('session', session);
+
+  const response = await fetch(`${API_BASE}/api/tokens/${address}/security-history?${params}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+};
+
+// History points of many tokens in one request, keyed by the requested address.
+// With since (unix ms) only later points are returned.
+export const fetchHistories = async (
+  addresses: string[],
+  metrics: HistoryMetric[],
+  since?: number | null,
+  session?: string | null
+): Promise<Record<string, HistoryPoint[]>> => {
+  const response = await fetch(`${API_BASE}/api/history`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ addresses, metrics, since: since ?? undefined, session: session ?? undefined })
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+  return (await response.json()).histories;
+};
+
+export const fetchAlertRules = async (): Promise<{ rules: AlertRule[]; fields: AlertRuleField[] }> => {
+  const response = await fetch(`${API_BASE}/api/alert-rules`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+};
+
+// Create a rule, or replace the rule with the given id
+export const saveAlertRule = async (rule: AlertRuleDraft, id?: number): Promise<AlertRule> => {
+  const response = await fetch(`${API_BASE}/api/alert-rules${id === undefined ? '' : `/${id}`}`, {
+    method: id === undefined ? 'POST' : 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(rule)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+export const deleteAlertRule = async (id: number): Promise<void> => {
+  const response = await fetch(`${API_BASE}/api/alert-rules/${id}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+};
+
+export const fetchWatchlist = async (session?: string | null): Promise<WatchedToken[]> => {
+  const params = new URLSearchParams();
+  if (session) params.set('session', session);
+
+  const response = await fetch(`${API_BASE}/api/watchlist?${params}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+  const data = await response.json();
+  return data.entries;
+};
+
+// Watch a token, or update the note and tags of a watched one
+export const saveWatchlistEntry = async (address: string, note: Partial<WatchNote>): Promise<WatchlistEntry> => {
+  const response = await fetch(`${API_BASE}/api/watchlist/${address}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(note)
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+export const removeWatchlistEntry = async (address: string): Promise<void> => {
+  const response = await fetch(`${API_BASE}/api/watchlist/${address}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+};
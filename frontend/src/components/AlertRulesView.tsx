@@ -0,0 +1,307 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Bell, BellOff, AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import { AlertCondition, AlertMatch, AlertRule, AlertRuleDraft, AlertRuleField } from '../types';
+import { deleteAlertRule, fetchAlertRules, saveAlertRule } from '../api';
+import { enableAlertNotifications, notificationsSupported, playAlertCue } from '../notifications';
+
+interface AlertRulesViewProps {
+  // Matches pushed over the WebSocket since the app loaded, newest first
+  matches: AlertMatch[];
+}
+
+const emptyDraft = (): AlertRuleDraft => ({
+  name: '',
+  conditions: [{ field: 'securityLevel', op: '=', value: 'safe' }],
+  enabled: true
+});
+
+const defaultValue = (field: AlertRuleField): AlertCondition['value'] => (
+  field.kind === 'number' ? 0 : field.kind === 'boolean' ? true : ''
+);
+
+const describeCondition = (condition: AlertCondition) => `${condition.field} ${condition.op} ${String(condition.value)}`;
+
+// Saved alert rules over Token fields. The backend evaluates them on every new or
+// updated token and pushes ALERT_MATCH when a token starts matching.
+export const AlertRulesView: React.FC<AlertRulesViewProps> = ({ matches }) => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [fields, setFields] = useState<AlertRuleField[]>([]);
+  const [draft, setDraft] = useState<AlertRuleDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<number | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    notificationsSupported() ? Notification.permission : 'unsupported'
+  );
+
+  const loadRules = useCallback(async () => {
+    try {
+      const data = await fetchAlertRules();
+      setRules(data.rules);
+      setFields(data.fields);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching alert rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch alert rules');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const fieldFor = (name: string) => fields.find(field => field.field === name);
+
+  const updateCondition = (index: number, changes: Partial<AlertCondition>) => {
+    setDraft(prev => ({
+      ...prev,
+      conditions: prev.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition))
+    }));
+  };
+
+  // Switching field resets the operator and value to ones its kind accepts
+  const changeField = (index: number, name: string) => {
+    const field = fieldFor(name);
+    if (!field) return;
+    updateCondition(index, { field: name, op: field.operators[0], value: defaultValue(field) });
+  };
+
+  const handleSave = async (rule: AlertRuleDraft, id?: number) => {
+    try {
+      await saveAlertRule(rule, id);
+      if (id === editingId) {
+        setDraft(emptyDraft());
+        setEditingId(undefined);
+      }
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save alert rule');
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await deleteAlertRule(id);
+      if (id === editingId) {
+        setDraft(emptyDraft());
+        setEditingId(undefined);
+      }
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete alert rule');
+    }
+  };
+
+  const handleEnableNotifications = async () => {
+    setPermission(await enableAlertNotifications());
+    playAlertCue();
+  };
+
+  return (
+    <div className="w-[90%] mx-auto px-4 pt-8 pb-8 space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="p-6 bg-white rounded-lg shadow-lg border border-gray-200 space-y-4"
+      >
+        <div className="flex items-center justify-between border-b border-gray-200 pb-2">
+          <div className="flex items-center space-x-2">
+            <Bell className="w-5 h-5" />
+            <h4 className="text-lg font-semibold text-gray-800">Alert Rules</h4>
+          </div>
+          <div className="flex items-center gap-2 text-sm">
+            {permission === 'granted' ? (
+              <span className="flex items-center text-green-700"><Bell className="w-4 h-4 mr-1" />Notifications on</span>
+            ) : (
+              <span className="flex items-center text-gray-500">
+                <BellOff className="w-4 h-4 mr-1" />
+                {permission === 'denied' ? 'Notifications blocked by the browser' :
+                  permission === 'unsupported' ? 'Notifications not supported' : 'Notifications off'}
+              </span>
+            )}
+            <button
+              onClick={handleEnableNotifications}
+              className="px-3 py-1 rounded text-sm border bg-gray-800 text-white border-gray-800 hover:bg-gray-700"
+            >
+              Enable notifications &amp; sound
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center text-red-700 text-sm">
+            <AlertTriangle className="w-4 h-4 mr-1" />
+            {error}
+          </div>
+        )}
+
+        {/* Rule editor */}
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+          <div className="flex items-center gap-4">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Rule name, e.g. Safe with deep liquidity"
+              className="flex-1 rounded-md border-gray-300 text-sm shadow-sm"
+            />
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => setDraft(prev => ({ ...prev, enabled: e.target.checked }))}
+                className="mr-2 rounded border-gray-300"
+              />
+              Enabled
+            </label>
+          </div>
+
+          {draft.conditions.map((condition, index) => {
+            const field = fieldFor(condition.field);
+            return (
+              <div key={index} className="flex items-center gap-2">
+                <select
+                  value={condition.field}
+                  onChange={(e) => changeField(index, e.target.value)}
+                  className="rounded-md border-gray-300 text-sm shadow-sm"
+                >
+                  {fields.map(option => (
+                    <option key={option.field} value={option.field}>{option.field}</option>
+                  ))}
+                </select>
+                <select
+                  value={condition.op}
+                  onChange={(e) => updateCondition(index, { op: e.target.value })}
+                  className="rounded-md border-gray-300 text-sm shadow-sm"
+                >
+                  {(field?.operators || [condition.op]).map(op => (
+                    <option key={op} value={op}>{op}</option>
+                  ))}
+                </select>
+                {field?.kind === 'boolean' ? (
+                  <select
+                    value={String(condition.value)}
+                    onChange={(e) => updateCondition(index, { value: e.target.value === 'true' })}
+                    className="rounded-md border-gray-300 text-sm shadow-sm"
+                  >
+                    <option value="true">true</option>
+                    <option value="false">false</option>
+                  </select>
+                ) : (
+                  <input
+                    type={field?.kind === 'number' ? 'number' : 'text'}
+                    value={String(condition.value)}
+                    onChange={(e) => updateCondition(index, {
+                      value: field?.kind === 'number' ? Number(e.target.value) : e.target.value
+                    })}
+                    className="rounded-md border-gray-300 text-sm shadow-sm"
+                  />
+                )}
+                <button
+                  onClick={() => setDraft(prev => ({ ...prev, conditions: prev.conditions.filter((_, i) => i !== index) }))}
+                  disabled={draft.conditions.length === 1}
+                  className="text-gray-500 hover:text-red-600 disabled:opacity-30"
+                  title="Remove condition"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setDraft(prev => ({
+                ...prev,
+                conditions: [...prev.conditions, { field: 'gpHolderCount', op: '>', value: 0 }]
+              }))}
+              className="flex items-center px-3 py-1 rounded text-sm border bg-white text-gray-700 border-gray-300 hover:bg-gray-100"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Condition
+            </button>
+            <button
+              onClick={() => handleSave(draft, editingId)}
+              className="px-3 py-1 rounded text-sm border bg-pink-600 text-white border-pink-600 hover:bg-pink-500"
+            >
+              {editingId === undefined ? 'Save Rule' : 'Update Rule'}
+            </button>
+            {editingId !== undefined && (
+              <button
+                onClick={() => {
+                  setDraft(emptyDraft());
+                  setEditingId(undefined);
+                }}
+                className="px-3 py-1 rounded text-sm border bg-white text-gray-700 border-gray-300 hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Saved rules */}
+        <ul className="divide-y divide-gray-100 text-sm">
+          {rules.map(rule => (
+            <li key={rule.id} className="py-2 flex items-center justify-between">
+              <div className={rule.enabled ? '' : 'opacity-50'}>
+                <div className="font-medium text-gray-800">{rule.name}</div>
+                <div className="text-xs text-gray-500 font-mono">{rule.conditions.map(describeCondition).join(' AND ')}</div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => handleSave({ name: rule.name, conditions: rule.conditions, enabled: !rule.enabled }, rule.id)}
+                  className="px-2 py-0.5 rounded text-xs border bg-white text-gray-700 border-gray-300 hover:bg-gray-100"
+                >
+                  {rule.enabled ? 'Disable' : 'Enable'}
+                </button>
+                <button
+                  onClick={() => {
+                    setDraft({ name: rule.name, conditions: rule.conditions, enabled: rule.enabled });
+                    setEditingId(rule.id);
+                  }}
+                  className="px-2 py-0.5 rounded text-xs border bg-white text-gray-700 border-gray-300 hover:bg-gray-100"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(rule.id)}
+                  className="text-gray-500 hover:text-red-600"
+                  title="Delete rule"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+          {rules.length === 0 && (
+            <li className="py-4 text-center text-gray-500">No alert rules yet</li>
+          )}
+        </ul>
+      </motion.div>
+
+      {/* Matches pushed since the page loaded */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="p-6 bg-white rounded-lg shadow-lg border border-gray-200 space-y-2"
+      >
+        <h4 className="text-lg font-semibold text-gray-800 border-b border-gray-200 pb-2">Recent Matches</h4>
+        <ul className="divide-y divide-gray-100 text-sm">
+          {matches.map(match => (
+            <li key={`${match.rule.id}-${match.token.address}-${match.receivedAt}`} className="py-2">
+              <span className="font-medium text-gray-800">{match.token.name} ({match.token.symbol})</span>
+              <span className="ml-2 text-xs text-gray-500 font-mono">{match.token.address}</span>
+              <div className="text-xs text-gray-500">
+                {match.rule.name} · {new Date(match.receivedAt).toLocaleTimeString()}
+              </div>
+            </li>
+          ))}
+          {matches.length === 0 && (
+            <li className="py-4 text-center text-gray-500">No matches since the page loaded</li>
+          )}
+        </ul>
+      </motion.div>
+    </div>
+  );
+};
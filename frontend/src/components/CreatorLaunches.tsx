@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { CreatorLaunch, CreatorReport } from '../types';
+import { fetchCreatorReport } from '../api';
+
+interface CreatorLaunchesProps {
+  wallet: string;
+  currentToken: string;
+}
+
+const outcomeStyles: Record<CreatorLaunch['outcome'], string> = {
+  survivor: 'bg-green-100 text-green-800 border border-green-200',
+  rugged: 'bg-yellow-100 text-yellow-800 border border-yellow-200',
+  honeypot: 'bg-red-100 text-red-800 border border-red-200',
+};
+
+// Other launches by the wallet behind a token, across every session
+export const CreatorLaunches: React.FC<CreatorLaunchesProps> = ({ wallet, currentToken }) => {
+  const [report, setReport] = useState<CreatorReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCreatorReport(wallet)
+      .then(data => {
+        setReport(data);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error fetching creator report:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load launches');
+      });
+  }, [wallet]);
+
+  if (error) {
+    return <div className="text-sm text-red-700">{error}</div>;
+  }
+
+  if (!report) {
+    return <div className="text-sm text-gray-500">Loading launches...</div>;
+  }
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-gray-200 space-y-2">
+      <div className="text-sm text-gray-700">
+        <span className="font-medium">Wallet:</span> <span className="font-mono">{report.address}</span>
+      </div>
+      <div className="text-sm text-gray-700">
+        {report.launches} launches: {report.honeypots} honeypots, {report.rugs} rugs, {report.survivors} survivors
+      </div>
+      <ul className="divide-y divide-gray-100 text-sm">
+        {report.tokens.map(launch => (
+          <li key={launch.address} className="py-1 flex items-center justify-between">
+            <div>
+              <span className={`font-medium ${launch.address.toLowerCase() === currentToken.toLowerCase() ? 'text-pink-600' : 'text-gray-800'}`}>
+                {launch.name || 'Unknown'} ({launch.symbol || 'UNKNOWN'})
+              </span>
+              <span className="ml-2 text-xs text-gray-500 font-mono">{launch.address}</span>
+              <div className="text-xs text-gray-500">
+                {launch.firstSeen || 'N/A'} · {launch.roles.join(' & ')} · {launch.sessions.join(', ')}
+              </div>
+            </div>
+            <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${outcomeStyles[launch.outcome]}`}>
+              {launch.outcome.toUpperCase()}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
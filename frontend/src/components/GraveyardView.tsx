@@ -0,0 +1,191 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Skull, AlertTriangle } from 'lucide-react';
+import { RemovedToken, TokenRemoval } from '../types';
+import { fetchGraveyard } from '../api';
+
+interface GraveyardViewProps {
+  session: string | null;
+  // Demotions pushed over the WebSocket since the app loaded, newest first
+  demotions: RemovedToken[];
+}
+
+const PAGE_SIZE = 100;
+
+const tableLabels: Record<TokenRemoval['table'], string> = {
+  HONEYPOTS: 'Honeypots',
+  xHoneypot_removed: 'Removed',
+};
+
+const tableStyles: Record<TokenRemoval['table'], string> = {
+  HONEYPOTS: 'bg-red-100 text-red-800 border border-red-200',
+  xHoneypot_removed: 'bg-yellow-100 text-yellow-800 border border-yellow-200',
+};
+
+const formatNumber = (value: number | null, suffix = '') => {
+  if (value === null) return 'N/A';
+  return `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}${suffix}`;
+};
+
+const matchesSearch = (token: RemovedToken, q: string) => {
+  const query = q.trim().toLowerCase();
+  if (!query) return true;
+  return token.address.toLowerCase().includes(query) ||
+    token.name.toLowerCase().includes(query) ||
+    token.symbol.toLowerCase().includes(query);
+};
+
+// Tokens the monitor demoted out of scan_records, read from HONEYPOTS and xHoneypot_removed
+export const GraveyardView: React.FC<GraveyardViewProps> = ({ session, demotions }) => {
+  const [table, setTable] = useState<TokenRemoval['table'] | null>(null);
+  const [search, setSearch] = useState('');
+  const [tokens, setTokens] = useState<RemovedToken[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async (before?: string) => {
+    setLoading(true);
+    try {
+      const page = await fetchGraveyard({ table: table ?? undefined, q: search, limit: PAGE_SIZE, before }, session);
+      setTokens(prev => (before ? [...prev, ...page.tokens] : page.tokens));
+      setTotal(page.total);
+      setHasMore(page.tokens.length === PAGE_SIZE);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching graveyard:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch graveyard');
+    } finally {
+      setLoading(false);
+    }
+  }, [table, search, session]);
+
+  // Reload the first page when the filters change, debounced for typing in the search box
+  useEffect(() => {
+    const timeout = setTimeout(() => loadPage(), 300);
+    return () => clearTimeout(timeout);
+  }, [loadPage]);
+
+  // Live demotions go on top until the next reload includes them. Pushes
+  // belong to the live session, so they are only merged when viewing it.
+  const rows = useMemo(() => {
+    const pushed = session === null
+      ? demotions.filter(token => (!table || token.table === table) && matchesSearch(token, search))
+      : [];
+    const known = new Set(tokens.map(token => token.address));
+    return [...pushed.filter(token => !known.has(token.address)), ...tokens];
+  }, [demotions, tokens, table, search, session]);
+
+  const newCount = rows.length - tokens.length;
+
+  return (
+    <div className="w-[90%] mx-auto px-4 pt-8 pb-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="p-6 bg-white rounded-lg shadow-lg border border-gray-200 space-y-4"
+      >
+        <div className="flex items-center justify-between border-b border-gray-200 pb-2">
+          <div className="flex items-center space-x-2">
+            <Skull className="w-5 h-5" />
+            <h4 className="text-lg font-semibold text-gray-800">Honeypot Graveyard</h4>
+            <span className="text-sm text-gray-500">
+              {total + newCount} token{total + newCount !== 1 ? 's' : ''}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            {([null, 'HONEYPOTS', 'xHoneypot_removed'] as const).map(option => (
+              <button
+                key={option ?? 'all'}
+                onClick={() => setTable(option)}
+                className={`px-3 py-1 rounded text-sm border ${table === option ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`}
+              >
+                {option ? tableLabels[option] : 'All'}
+              </button>
+            ))}
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search name, symbol or address..."
+              className="ml-2 rounded-md border-gray-300 text-sm shadow-sm"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center text-red-700 text-sm">
+            <AlertTriangle className="w-4 h-4 mr-1" />
+            {error}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Token</th>
+                <th className="py-2 pr-4 font-medium">Table</th>
+                <th className="py-2 pr-4 font-medium">Removed</th>
+                <th className="py-2 pr-4 font-medium">Original Scan</th>
+                <th className="py-2 pr-4 font-medium">Reason</th>
+                <th className="py-2 pr-4 font-medium">Buy / Sell Tax</th>
+                <th className="py-2 pr-4 font-medium">Liquidity</th>
+                <th className="py-2 pr-4 font-medium">Scans / Failures</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((token, index) => (
+                <tr
+                  key={`${token.table}-${token.address}`}
+                  className={`border-b border-gray-100 align-top ${index < newCount ? 'bg-pink-50' : ''}`}
+                >
+                  <td className="py-2 pr-4">
+                    <div className="font-medium text-gray-800">{token.name} ({token.symbol})</div>
+                    <div className="text-xs text-gray-500 font-mono">{token.address}</div>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${tableStyles[token.table]}`}>
+                      {tableLabels[token.table]}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-800 whitespace-nowrap">{token.removalTimestamp}</td>
+                  <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">{token.originalScanTimestamp || 'N/A'}</td>
+                  <td className="py-2 pr-4 text-gray-800">
+                    {token.reason || 'N/A'}
+                    {token.lastError && <div className="text-xs text-gray-500">Last error: {token.lastError}</div>}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-800 whitespace-nowrap">
+                    {formatNumber(token.buyTax, '%')} / {formatNumber(token.sellTax, '%')}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-800 whitespace-nowrap">
+                    {token.liquidity === null ? 'N/A' : `$${formatNumber(token.liquidity)}`}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-800 whitespace-nowrap">
+                    {formatNumber(token.totalScans)} / {formatNumber(token.honeypotFailures)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length === 0 && !loading && (
+            <div className="text-center text-gray-500 py-4">No removed tokens</div>
+          )}
+        </div>
+
+        {hasMore && (
+          <div className="flex justify-center">
+            <button
+              onClick={() => loadPage(tokens[tokens.length - 1]?.removalTimestamp)}
+              disabled={loading}
+              className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white rounded transition-colors duration-150 text-sm disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Load More'}
+            </button>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
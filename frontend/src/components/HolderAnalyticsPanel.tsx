@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ArrowDown, ArrowUp, Users } from 'lucide-react';
+import { Token } from '../types';
+import { UnlockCountdown } from './UnlockCountdown';
+
+interface HolderAnalyticsPanelProps {
+  token: Token;
+}
+
+interface HolderRow {
+  address: string;
+  tag: string;
+  percent: number;
+  balance: number;
+  isContract: boolean;
+  isLocked: boolean;
+}
+
+type SortKey = 'percent' | 'balance' | 'address' | 'isContract' | 'isLocked';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'address', label: 'Address' },
+  { key: 'percent', label: '% Supply' },
+  { key: 'balance', label: 'Balance' },
+  { key: 'isContract', label: 'Contract' },
+  { key: 'isLocked', label: 'Locked' },
+];
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+const Stat: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className }) => (
+  <div className="text-center">
+    <div className={`text-xl font-bold ${className || 'text-gray-800'}`}>{value}</div>
+    <div className="text-xs text-gray-600">{label}</div>
+  </div>
+);
+
+// Holder concentration metrics from the backend, a distribution chart and a sortable
+// table of the holders GoPlus lists
+export const HolderAnalyticsPanel: React.FC<HolderAnalyticsPanelProps> = ({ token }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('percent');
+  const [sortAscending, setSortAscending] = useState(false);
+  const analytics = token.holderAnalytics;
+
+  const rows: HolderRow[] = (token.gpHolders || []).map(holder => ({
+    address: holder.address,
+    tag: holder.tag,
+    percent: (Number(holder.percent) || 0) * 100,
+    balance: Number(holder.balance) || 0,
+    isContract: Boolean(holder.is_contract),
+    isLocked: Boolean(holder.is_locked),
+  }));
+
+  const sortedRows = [...rows].sort((a, b) => {
+    const left = a[sortKey];
+    const right = b[sortKey];
+    const order = typeof left === 'string' ? left.localeCompare(String(right)) : Number(left) - Number(right);
+    return sortAscending ? order : -order;
+  });
+
+  const chartData = [...rows]
+    .sort((a, b) => b.percent - a.percent)
+    .map((row, index) => ({ rank: index + 1, percent: row.percent, isContract: row.isContract }));
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(key === 'address');
+    }
+  };
+
+  if (!analytics || rows.length === 0) {
+    return <div className="text-sm text-gray-500">No holder list reported by GoPlus</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2 border-b border-gray-200 pb-2">
+        <Users className="w-5 h-5" />
+        <h4 className="text-lg font-semibold text-gray-800">Holder Concentration</h4>
+        <span className="text-xs text-gray-500">top {analytics.listedHolders} holders listed by GoPlus</span>
+      </div>
+
+      <div className="grid grid-cols-4 gap-4">
+        <Stat
+          label="Top 10 Hold"
+          value={formatPercent(analytics.top10Percent)}
+          className={analytics.top10Percent > 50 ? 'text-red-600' : 'text-gray-800'}
+        />
+        <Stat label="Gini" value={analytics.gini.toFixed(2)} />
+        <Stat
+          label={`Contracts (${analytics.contractHolders}) / EOAs`}
+          value={`${formatPercent(analytics.contractPercent)} / ${formatPercent(analytics.eoaPercent)}`}
+        />
+        <Stat
+          label="LP Locked / Burned"
+          value={`${formatPercent(analytics.lpLockedPercent)} / ${formatPercent(analytics.lpBurnedPercent)}`}
+          className={analytics.lpLockedPercent + analytics.lpBurnedPercent < 50 ? 'text-red-600' : 'text-green-600'}
+        />
+      </div>
+      <div className="text-sm text-gray-700">
+        <span className="font-medium">Next LP unlock:</span>{' '}
+        {analytics.nextLpUnlockAt !== null
+          ? <>{new Date(analytics.nextLpUnlockAt).toLocaleString()} (<UnlockCountdown unlockAt={analytics.nextLpUnlockAt} />)</>
+          : 'None scheduled'}
+      </div>
+
+      {/* Share of supply by holder rank, contracts in purple */}
+      <div className="w-full h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="rank" />
+            <YAxis tickFormatter={formatPercent} />
+            <Tooltip
+              formatter={(value: number) => formatPercent(value)}
+              labelFormatter={(label: number) => `Holder #${label}`}
+              contentStyle={{ backgroundColor: 'white', border: '1px solid #E5E7EB' }}
+            />
+            <Bar dataKey="percent" name="% Supply" isAnimationActive={false}>
+              {chartData.map(entry => (
+                <Cell key={entry.rank} fill={entry.isContract ? '#8b5cf6' : '#3b82f6'} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-left text-gray-600">
+            {COLUMNS.map(column => (
+              <th key={column.key} className="py-1 pr-2 font-medium">
+                <button onClick={() => handleSort(column.key)} className="flex items-center hover:text-gray-900">
+                  {column.label}
+                  {sortKey === column.key && (sortAscending
+                    ? <ArrowUp className="w-3 h-3 ml-1" />
+                    : <ArrowDown className="w-3 h-3 ml-1" />)}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {sortedRows.map(row => (
+            <tr key={row.address}>
+              <td className="py-1 pr-2 font-mono text-xs">
+                {row.address}
+                {row.tag && <span className="ml-1 text-gray-500 font-sans">({row.tag})</span>}
+              </td>
+              <td className="py-1 pr-2">{formatPercent(row.percent)}</td>
+              <td className="py-1 pr-2">{row.balance.toLocaleString()}</td>
+              <td className="py-1 pr-2">{row.isContract ? 'Yes' : 'No'}</td>
+              <td className="py-1 pr-2">{row.isLocked ? 'Yes' : 'No'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+import { useInView } from 'react-intersection-observer';
+
+interface LazyMountProps {
+  // Height reserved until the children mount, close to their real height so rows don't jump
+  placeholderHeight: number;
+  children: React.ReactNode;
+}
+
+// Mount children the first time they come near the viewport. Keeps charts and
+// their history fetches out of cards that are rendered but never looked at.
+export const LazyMount: React.FC<LazyMountProps> = ({ placeholderHeight, children }) => {
+  const { ref, inView } = useInView({ triggerOnce: true, rootMargin: '200px 0px' });
+
+  if (inView) {
+    return <>{children}</>;
+  }
+  return <div ref={ref} style={{ height: placeholderHeight }} className="rounded bg-gray-50" />;
+};
@@ -0,0 +1,109 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { CalendarClock, AlertTriangle } from 'lucide-react';
+import { LpUnlock, LpUnlockWarning } from '../types';
+import { fetchLpUnlocks } from '../api';
+import { UnlockCountdown } from './UnlockCountdown';
+
+interface LpUnlockCalendarViewProps {
+  // Warnings pushed over the WebSocket since the app loaded, newest first
+  warnings: LpUnlockWarning[];
+}
+
+const unlockKey = (unlock: LpUnlock) => `${unlock.address}-${unlock.holder}-${unlock.unlockAt}`;
+
+// Upcoming LP lock expiries of the tracked tokens, grouped by day
+export const LpUnlockCalendarView: React.FC<LpUnlockCalendarViewProps> = ({ warnings }) => {
+  const [unlocks, setUnlocks] = useState<LpUnlock[]>([]);
+  const [leadTimes, setLeadTimes] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // A warning means the tracked set is current enough to be worth refetching
+  useEffect(() => {
+    fetchLpUnlocks()
+      .then(data => {
+        setUnlocks(data.unlocks);
+        setLeadTimes(data.leadTimesMinutes);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error fetching LP unlocks:', err);
+        setError(err instanceof Error ? err.message : 'Failed to fetch LP unlocks');
+      });
+  }, [warnings.length]);
+
+  const warned = useMemo(() => new Set(warnings.map(unlockKey)), [warnings]);
+
+  const days = useMemo(() => {
+    const groups = new Map<string, LpUnlock[]>();
+    unlocks.forEach(unlock => {
+      const day = new Date(unlock.unlockAt).toLocaleDateString(undefined, {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric'
+      });
+      groups.set(day, [...(groups.get(day) || []), unlock]);
+    });
+    return [...groups.entries()];
+  }, [unlocks]);
+
+  return (
+    <div className="w-[90%] mx-auto px-4 pt-8 pb-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="p-6 bg-white rounded-lg shadow-lg border border-gray-200 space-y-4"
+      >
+        <div className="flex items-center justify-between border-b border-gray-200 pb-2">
+          <div className="flex items-center space-x-2">
+            <CalendarClock className="w-5 h-5" />
+            <h4 className="text-lg font-semibold text-gray-800">LP Unlock Calendar</h4>
+          </div>
+          {leadTimes.length > 0 && (
+            <span className="text-xs text-gray-500">
+              Warnings {leadTimes.map(lead => (lead >= 60 ? `${lead / 60}h` : `${lead}m`)).join(', ')} before an unlock
+            </span>
+          )}
+        </div>
+
+        {error && (
+          <div className="flex items-center text-red-700 text-sm">
+            <AlertTriangle className="w-4 h-4 mr-1" />
+            {error}
+          </div>
+        )}
+
+        {days.map(([day, dayUnlocks]) => (
+          <div key={day}>
+            <h5 className="font-medium mb-2 text-gray-700 border-b pb-1">{day}</h5>
+            <ul className="divide-y divide-gray-100 text-sm">
+              {dayUnlocks.map(unlock => (
+                <li
+                  key={unlockKey(unlock)}
+                  className={`py-2 px-2 flex items-center justify-between ${warned.has(unlockKey(unlock)) ? 'bg-red-50' : ''}`}
+                >
+                  <div>
+                    <span className="font-mono text-gray-700 mr-3">
+                      {new Date(unlock.unlockAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                    <span className="font-medium text-gray-800">{unlock.name} ({unlock.symbol})</span>
+                    <span className="ml-2 text-xs text-gray-500 font-mono">{unlock.address}</span>
+                    <div className="text-xs text-gray-500">
+                      {unlock.holderPercent.toFixed(2)}% of LP held by <span className="font-mono">{unlock.holder}</span>
+                    </div>
+                  </div>
+                  <UnlockCountdown unlockAt={unlock.unlockAt} badge />
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+
+        {!error && unlocks.length === 0 && (
+          <div className="py-4 text-center text-gray-500">No upcoming LP unlocks among the tracked tokens</div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
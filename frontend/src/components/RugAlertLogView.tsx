@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Siren, AlertTriangle } from 'lucide-react';
+import { RugAlert, RugAlertLog } from '../types';
+import { fetchRugAlerts } from '../api';
+
+interface RugAlertLogViewProps {
+  // Alerts pushed over the WebSocket since the app loaded, newest first
+  alerts: RugAlert[];
+}
+
+const alertKey = (alert: RugAlert) => `${alert.session}-${alert.address}-${alert.scanTimestamp}`;
+
+const checkLabels: Record<RugAlert['checks'][number]['id'], string> = {
+  liquidity_drop: 'Liquidity drop',
+  lp_holder_collapse: 'LP holder collapse',
+  owner_spike: 'Owner spike',
+};
+
+// Every rug alert the backend has stored, across sessions
+export const RugAlertLogView: React.FC<RugAlertLogViewProps> = ({ alerts }) => {
+  const [log, setLog] = useState<RugAlertLog | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRugAlerts(500)
+      .then(data => {
+        setLog(data);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error fetching rug alerts:', err);
+        setError(err instanceof Error ? err.message : 'Failed to fetch rug alerts');
+      });
+  }, []);
+
+  // Pushed alerts go on top until the next fetch includes them
+  const rows = useMemo(() => {
+    const stored = log?.alerts || [];
+    const known = new Set(stored.map(alertKey));
+    return [...alerts.filter(alert => !known.has(alertKey(alert))), ...stored];
+  }, [alerts, log]);
+
+  return (
+    <div className="w-[90%] mx-auto px-4 pt-8 pb-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="p-6 bg-white rounded-lg shadow-lg border border-gray-200 space-y-4"
+      >
+        <div className="flex items-center justify-between border-b border-gray-200 pb-2">
+          <div className="flex items-center space-x-2">
+            <Siren className="w-5 h-5" />
+            <h4 className="text-lg font-semibold text-gray-800">Rug Alerts</h4>
+            <span className="text-sm text-gray-500">
+              {rows.length} alert{rows.length !== 1 ? 's' : ''}
+            </span>
+          </div>
+          {log && (
+            <div className="text-xs text-gray-500">
+              Active checks: {log.checks.map(check => (
+                `${checkLabels[check.id]} (${Object.entries(check.params).map(([name, value]) => `${name} ${value}`).join(', ')})`
+              )).join(' · ') || 'none'}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="flex items-center text-red-700 text-sm">
+            <AlertTriangle className="w-4 h-4 mr-1" />
+            {error}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Token</th>
+                <th className="py-2 pr-4 font-medium">Scan</th>
+                <th className="py-2 pr-4 font-medium">Previous Scan</th>
+                <th className="py-2 pr-4 font-medium">Session</th>
+                <th className="py-2 pr-4 font-medium">Checks</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(alert => (
+                <tr key={alertKey(alert)} className="border-b border-gray-100 align-top">
+                  <td className="py-2 pr-4">
+                    <div className="font-medium text-gray-800">{alert.name} ({alert.symbol})</div>
+                    <div className="text-xs text-gray-500 font-mono">{alert.address}</div>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-800 whitespace-nowrap">{alert.scanTimestamp}</td>
+                  <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">{alert.previousScanTimestamp}</td>
+                  <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">{alert.session}</td>
+                  <td className="py-2 pr-4 text-gray-800">
+                    {alert.checks.map(check => (
+                      <div key={check.id}>
+                        <span className="text-xs font-medium px-2 py-0.5 mr-2 rounded-full bg-red-100 text-red-800 border border-red-200">
+                          {checkLabels[check.id]}
+                        </span>
+                        {check.description}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length === 0 && log && (
+            <div className="text-center text-gray-500 py-4">No rug alerts</div>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useEffect } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { AlertTriangle, X } from 'lucide-react';
+import { RugAlert } from '../types';
+
+interface RugAlertToastsProps {
+  alerts: RugAlert[];
+  onDismiss: (alert: RugAlert) => void;
+  onOpenLog: () => void;
+}
+
+// Toasts stay up this long unless dismissed, the alert log keeps them after that
+const TOAST_DURATION = 20000;
+
+const alertKey = (alert: RugAlert) => `${alert.session}-${alert.address}-${alert.scanTimestamp}`;
+
+const RugAlertToast: React.FC<{ alert: RugAlert } & Omit<RugAlertToastsProps, 'alerts'>> = ({ alert, onDismiss, onOpenLog }) => {
+  useEffect(() => {
+    const timeout = setTimeout(() => onDismiss(alert), TOAST_DURATION);
+    return () => clearTimeout(timeout);
+  }, [alert, onDismiss]);
+
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, x: 80 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 80 }}
+      className="w-96 p-4 bg-red-600 text-white rounded-lg shadow-2xl border-2 border-red-300"
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex items-center font-bold">
+          <AlertTriangle className="w-5 h-5 mr-2" />
+          RUG ALERT: {alert.name} ({alert.symbol})
+        </div>
+        <button onClick={() => onDismiss(alert)} className="text-white/80 hover:text-white" title="Dismiss">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="text-xs font-mono text-white/80 mt-1 truncate">{alert.address}</div>
+      <ul className="text-sm mt-2 space-y-1 list-disc pl-4">
+        {alert.checks.map(check => (
+          <li key={check.id}>{check.description}</li>
+        ))}
+      </ul>
+      <div className="flex items-center justify-between mt-2 text-xs text-white/80">
+        <span>{alert.scanTimestamp}</span>
+        <button onClick={onOpenLog} className="underline hover:text-white">View alert log</button>
+      </div>
+    </motion.div>
+  );
+};
+
+// Live rug alerts stacked in the top right corner, newest first
+export const RugAlertToasts: React.FC<RugAlertToastsProps> = ({ alerts, onDismiss, onOpenLog }) => (
+  <div className="fixed top-28 right-4 z-50 space-y-2">
+    <AnimatePresence>
+      {alerts.map(alert => (
+        <RugAlertToast
+          key={alertKey(alert)}
+          alert={alert}
+          onDismiss={onDismiss}
+          onOpenLog={onOpenLog}
+        />
+      ))}
+    </AnimatePresence>
+  </div>
+);
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { History, TrendingDown } from 'lucide-react';
+import { SecurityHistory, SecurityLevel } from '../types';
+import { fetchSecurityHistory } from '../api';
+
+interface SecurityTimelineProps {
+  address: string;
+  session?: string | null;
+  // Current level, a change means a new scan may have added an entry
+  securityLevel: SecurityLevel;
+}
+
+const levelStyles: Record<SecurityLevel, string> = {
+  safe: 'bg-green-100 text-green-800 border border-green-200',
+  warning: 'bg-yellow-100 text-yellow-800 border border-yellow-200',
+  danger: 'bg-red-100 text-red-800 border border-red-200',
+};
+
+const LevelBadge: React.FC<{ level: SecurityLevel }> = ({ level }) => (
+  <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${levelStyles[level]}`}>
+    {level.toUpperCase()}
+  </span>
+);
+
+// Scans where the token's security classification changed, newest first.
+// Regressions (a worse level or a newly fired rule) are highlighted in red.
+export const SecurityTimeline: React.FC<SecurityTimelineProps> = ({ address, session, securityLevel }) => {
+  const [history, setHistory] = useState<SecurityHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSecurityHistory(address, session)
+      .then(data => {
+        setHistory(data);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error fetching security history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load security history');
+      });
+  }, [address, session, securityLevel]);
+
+  const entries = history ? [...history.timeline].reverse() : [];
+  const regressions = entries.filter(entry => entry.regression).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between border-b border-gray-200 pb-2">
+        <div className="flex items-center space-x-2">
+          <History className="w-5 h-5" />
+          <h4 className="text-lg font-semibold text-gray-800">Security Timeline</h4>
+        </div>
+        {history && (
+          <span className="text-xs text-gray-500">
+            {Math.max(entries.length - 1, 0)} changes over {history.scanCount} scans
+            {regressions > 0 && <span className="ml-1 text-red-700 font-medium">· {regressions} regressions</span>}
+          </span>
+        )}
+      </div>
+
+      {error && <div className="text-sm text-red-700">{error}</div>}
+      {!error && !history && <div className="text-sm text-gray-500">Loading security history...</div>}
+
+      <ul className="space-y-2 text-sm">
+        {entries.map(entry => (
+          <li
+            key={`${entry.session}-${entry.scanTimestamp}`}
+            className={`p-2 rounded border-l-4 ${entry.regression ? 'border-red-500 bg-red-50' : 'border-gray-200 bg-gray-50'}`}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-1">
+                {entry.previousLevel && entry.previousLevel !== entry.securityLevel && (
+                  <>
+                    <LevelBadge level={entry.previousLevel} />
+                    <span className="text-gray-400">→</span>
+                  </>
+                )}
+                <LevelBadge level={entry.securityLevel} />
+                {entry.regression && (
+                  <span className="flex items-center text-xs font-medium text-red-700 ml-1">
+                    <TrendingDown className="w-4 h-4 mr-1" />
+                    REGRESSION
+                  </span>
+                )}
+              </div>
+              <span className="text-xs text-gray-500">{entry.scanTimestamp} · {entry.session}</span>
+            </div>
+            {entry.previousLevel === null && (
+              <div className="text-xs text-gray-500 mt-1">First scan</div>
+            )}
+            {entry.added.map(reason => (
+              <div key={`added-${reason.id}`} className={`text-xs mt-1 ${entry.previousLevel === null ? 'text-gray-700' : 'text-red-700'}`}>
+                + {reason.description}
+              </div>
+            ))}
+            {entry.removed.map(reason => (
+              <div key={`removed-${reason.id}`} className="text-xs mt-1 text-green-700">
+                − {reason.description}
+              </div>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
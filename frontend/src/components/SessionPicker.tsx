@@ -0,0 +1,60 @@
+import React from 'react';
+import { SessionInfo } from '../types';
+
+interface SessionPickerProps {
+  sessions: SessionInfo[];
+  liveSession: string | null;
+  viewSession: string | null;
+  onViewChange: (session: string | null) => void;
+  onMakeLive: (session: string) => void;
+}
+
+const describeSession = (session: SessionInfo) => {
+  if (session.error) return `${session.name} (unreadable)`;
+  const range = session.firstScan && session.lastScan
+    ? `, ${session.firstScan.slice(11, 16)}–${session.lastScan.slice(11, 16)}`
+    : '';
+  return `${session.name} (${session.tokenCount ?? 0} tokens${range})`;
+};
+
+// Choose which monitor session the list shows. Sessions other than the live
+// one are read from the server read-only and do not receive pushed updates.
+export const SessionPicker: React.FC<SessionPickerProps> = ({
+  sessions,
+  liveSession,
+  viewSession,
+  onViewChange,
+  onMakeLive
+}) => {
+  const reviewing = viewSession !== null && viewSession !== liveSession;
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={viewSession ?? ''}
+        onChange={(e) => onViewChange(e.target.value || null)}
+        className="rounded-md bg-gray-800 border-gray-500 text-white text-sm shadow-sm focus:border-white/30 focus:ring-white/30"
+      >
+        <option value="" className="bg-gray-800">Live session{liveSession ? ` (${liveSession})` : ''}</option>
+        {sessions.filter(session => session.name !== liveSession).map(session => (
+          <option key={session.name} value={session.name} disabled={!!session.error} className="bg-gray-800">
+            {describeSession(session)}
+          </option>
+        ))}
+      </select>
+      {reviewing && (
+        <>
+          <span className="text-xs font-medium bg-yellow-100 text-yellow-800 border border-yellow-200 px-2 py-0.5 rounded-full">
+            READ-ONLY
+          </span>
+          <button
+            onClick={() => onMakeLive(viewSession)}
+            className="px-3 py-1 bg-white/20 hover:bg-white/30 text-white rounded backdrop-blur-sm transition-colors duration-150 text-sm border border-gray-500"
+          >
+            Make Live
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Network } from 'lucide-react';
+import { ScoreHistoryPoint, ScoringModelId, Token } from '../types';
+import { API_BASE } from '../api';
+
+interface TokenAnalysisModelsProps {
+  token: Token;
+}
+
+const MODEL_ORDER: ScoringModelId[] = ['market', 'security', 'liquidity', 'growth'];
+
+const modelColors: Record<ScoringModelId, { text: string; stroke: string }> = {
+  market: { text: 'text-blue-600', stroke: '#2563eb' },
+  security: { text: 'text-green-600', stroke: '#16a34a' },
+  liquidity: { text: 'text-purple-600', stroke: '#9333ea' },
+  growth: { text: 'text-orange-600', stroke: '#ea580c' },
+};
+
+const formatTimestamp = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export const TokenAnalysisModels: React.FC<TokenAnalysisModelsProps> = ({ token }) => {
+  const [history, setHistory] = useState<ScoreHistoryPoint[]>([]);
+
+  useEffect(() => {
+    const fetchScores = async () => {
+      try {
+        const response = await fetch(`${API_BASE}/api/tokens/${token.address}/scores`);
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        const data = await response.json();
+        setHistory(data.history || []);
+      } catch (err) {
+        console.error('Error fetching score history:', err);
+      }
+    };
+
+    if (token.address) {
+      fetchScores();
+    }
+  }, [token.address, token.scanTimestamp]);
+
+  if (!token.scores) {
+    return null;
+  }
+
+  const { models, combined, weights } = token.scores;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-lg flex-grow">
+      <div className="flex items-center space-x-2 mb-4 border-b border-gray-200 pb-2">
+        <Network className="w-5 h-5" />
+        <h4 className="text-lg font-semibold text-gray-800">Token Analysis Models</h4>
+      </div>
+
+      {/* Individual Models Grid */}
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        {MODEL_ORDER.map((id) => (
+          <div key={id} className="bg-white p-4 rounded-lg border border-gray-200">
+            <h5 className="font-medium text-sm text-gray-700 mb-2">{models[id].label} Model</h5>
+            <div className={`text-base font-bold ${modelColors[id].text}`}>
+              Score: {models[id].score.toFixed(1)}%
+            </div>
+            <ul className="mt-2 space-y-1 text-xs text-gray-600">
+              {models[id].factors.map((factor) => (
+                <li key={factor.id} className="flex justify-between">
+                  <span>{factor.label}</span>
+                  <span className="font-medium">{factor.points.toFixed(1)}/{factor.maxPoints}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {/* Combined Analysis Model - Prominent Box */}
+      <div className="bg-gradient-to-r from-gray-50 to-gray-100 p-6 rounded-lg border border-gray-200 shadow-sm">
+        <h5 className="font-semibold text-lg text-gray-800 mb-4">Combined Analysis Model</h5>
+        <div className="space-y-4">
+          <div className="text-2xl font-bold text-gray-800 pb-4 border-b border-gray-200">
+            Combined Score: {combined.toFixed(1)}%
+          </div>
+          <div className="grid grid-cols-2 gap-6">
+            <div className="space-y-3">
+              {MODEL_ORDER.map((id) => (
+                <div key={id} className="flex justify-between items-center bg-white/50 p-2 rounded">
+                  <span className={`text-sm ${modelColors[id].text}`}>
+                    {models[id].label} ({Math.round(weights[id] * 100)}%):
+                  </span>
+                  <span className="font-medium">{(models[id].score * weights[id]).toFixed(1)}%</span>
+                </div>
+              ))}
+            </div>
+            <div className="bg-white/80 p-4 rounded-lg text-sm space-y-2">
+              <div className="font-medium text-gray-700 mb-2">Score Breakdown:</div>
+              {MODEL_ORDER.map((id) => (
+                <div key={id} className={modelColors[id].text}>
+                  {models[id].label}: {models[id].score.toFixed(1)}% × {weights[id].toFixed(2)}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Stored scores per scan */}
+      {history.length > 1 && (
+        <div className="w-full h-64 mt-6">
+          <h5 className="font-semibold text-gray-800 mb-2">Score History</h5>
+          <ResponsiveContainer width="100%" height="85%">
+            <LineChart data={history}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="timestamp"
+                tickFormatter={formatTimestamp}
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                scale="time"
+              />
+              <YAxis domain={[0, 100]} />
+              <Tooltip
+                formatter={(value: number) => `${value.toFixed(1)}%`}
+                labelFormatter={(label: number) => formatTimestamp(label)}
+                contentStyle={{ backgroundColor: 'white', border: '1px solid #E5E7EB' }}
+              />
+              <Legend />
+              <Line type="monotone" dataKey="combined" stroke="#111827" name="Combined" dot={false} strokeWidth={2} isAnimationActive={false} />
+              {MODEL_ORDER.map((id) => (
+                <Line
+                  key={id}
+                  type="monotone"
+                  dataKey={id}
+                  stroke={modelColors[id].stroke}
+                  name={models[id].label}
+                  dot={false}
+                  strokeWidth={1}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
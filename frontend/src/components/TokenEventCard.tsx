@@ -1,11 +1,23 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Shield, Info, Activity, FileText, Lock, Users, AlertTriangle, DollarSign, Network, Clock } from 'lucide-react';
-import { Token } from '../types';
+import { Shield, Info, Activity, FileText, Lock, Users, AlertTriangle, DollarSign, Clock, UserX, Star } from 'lucide-react';
+import { Token, WatchNote } from '../types';
 import { TokenLiquidityChart } from './TokenLiquidityChart';
+import { TokenAnalysisModels } from './TokenAnalysisModels';
+import { CreatorLaunches } from './CreatorLaunches';
+import { WatchNotesEditor } from './WatchNotesEditor';
+import { SecurityTimeline } from './SecurityTimeline';
+import { HolderAnalyticsPanel } from './HolderAnalyticsPanel';
+import { UnlockCountdown } from './UnlockCountdown';
+import { LazyMount } from './LazyMount';
 
 interface TokenEventCardProps {
   token: Token;
+  session?: string | null;
+  // Note and tags when the token is on the watchlist
+  watch?: WatchNote | null;
+  // Watch or update the token with a note, or unwatch it with null
+  onWatchChange?: (address: string, note: WatchNote | null) => void;
 }
 
 const securityStatus = {
@@ -14,6 +26,10 @@ const securityStatus = {
   danger: 'bg-red-100 text-red-800 border border-red-200',
 };
 
+const formatProviderValue = (value: boolean | number | string) => (
+  typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value)
+);
+
 const SectionHeader: React.FC<{ icon: React.ReactNode; title: string }> = ({ icon, title }) => (
   <div className="flex items-center space-x-2 mb-4 border-b border-gray-200 pb-2">
     {icon}
@@ -30,46 +46,12 @@ const Field: React.FC<{ label: string; value: any; truncate?: boolean }> = ({ la
   </div>
 );
 
-export const TokenEventCard: React.FC<TokenEventCardProps> = ({ token }) => {
-  const getWarningReasons = () => {
-    const reasons = [];
-    
-    // Danger level warnings
-    if (token.isHoneypot) reasons.push('TOKEN IS A HONEYPOT - Cannot sell tokens');
-    if (token.gpIsBlacklisted && !token.gpIsAntiWhale) reasons.push('Token is blacklisted (not anti-whale)');
-    
-    // Contract security warnings
-    if (!token.gpIsOpenSource) reasons.push('Contract is not open source');
-    if (token.gpIsProxy) reasons.push('Contract uses proxy pattern');
-    if (token.gpIsMintable) reasons.push('Token is mintable');
-    if (token.gpExternalCall) reasons.push('Contract has external calls');
-    
-    // Trading restrictions warnings
-    if (token.gpCannotBuy) reasons.push('Buying is restricted');
-    if (token.gpCannotSellAll) reasons.push('Cannot sell all tokens');
-    if (token.gpTradingCooldown) reasons.push('Trading cooldown enabled');
-    if (token.gpTransferPausable) reasons.push('Transfers can be paused');
-    
-    // Ownership warnings
-    if (token.gpHiddenOwner) reasons.push('Hidden owner detected');
-    if (token.gpCanTakeBackOwnership) reasons.push('Ownership can be taken back');
-    if (token.gpOwnerChangeBalance) reasons.push('Owner can change balances');
-    
-    // Tax warnings
-    if (token.gpBuyTax > 10) reasons.push(`High buy tax: ${token.gpBuyTax}%`);
-    if (token.gpSellTax > 10) reasons.push(`High sell tax: ${token.gpSellTax}%`);
-    
-    // Anti-whale warnings
-    if (token.gpIsAntiWhale && token.gpAntiWhaleModifiable) reasons.push('Modifiable anti-whale mechanism');
-    if (token.gpSlippageModifiable) reasons.push('Modifiable slippage settings');
-    
-    return reasons;
-  };
-
-  const warningReasons = getWarningReasons();
-  const isDangerousBlacklist = token.gpIsBlacklisted && !token.gpIsAntiWhale;
-  const securityLevel = token.isHoneypot || isDangerousBlacklist ? 'danger' : 
-                       warningReasons.length > 0 ? 'warning' : 'safe';
+export const TokenEventCard: React.FC<TokenEventCardProps> = ({ token, session, watch, onWatchChange }) => {
+  // Classification comes from the backend security rule engine
+  const securityLevel = token.securityLevel || 'safe';
+  const warningReasons = token.reasons || [];
+  const reputation = token.creatorReputation;
+  const [showLaunches, setShowLaunches] = useState(false);
 
   // Helper function to safely convert values to string
   const safeToString = (value: any) => {
@@ -135,6 +117,15 @@ export const TokenEventCard: React.FC<TokenEventCardProps> = ({ token }) => {
               {token.name} ({token.symbol})
             </h3>
             <div className="flex items-center space-x-4">
+              {onWatchChange && (
+                <button
+                  onClick={() => onWatchChange(token.address, watch ? null : { note: '', tags: [] })}
+                  title={watch ? 'Remove from watchlist' : 'Add to watchlist'}
+                  className={watch ? 'text-yellow-500 hover:text-yellow-400' : 'text-gray-400 hover:text-yellow-500'}
+                >
+                  <Star className="w-5 h-5" fill={watch ? 'currentColor' : 'none'} />
+                </button>
+              )}
               <span className={`text-sm font-medium ${securityStatus[securityLevel]} px-3 py-1 rounded-full`}>
                 {securityLevel.toUpperCase()}
               </span>
@@ -144,6 +135,21 @@ export const TokenEventCard: React.FC<TokenEventCardProps> = ({ token }) => {
                   {token.gpIsAntiWhale ? 'ANTI-WHALE' : 'BLACKLISTED'}
                 </span>
               )}
+              {/* Wallet behind the token has launched before, see backend/reputation.js */}
+              {reputation?.serialDeployer && (
+                <button
+                  onClick={() => setShowLaunches(!showLaunches)}
+                  title="Show this wallet's other launches"
+                  className="text-sm font-medium bg-purple-100 text-purple-800 border border-purple-200 hover:bg-purple-200 flex items-center px-3 py-1 rounded-full"
+                >
+                  <UserX className="w-4 h-4 mr-1" />
+                  SERIAL DEPLOYER: {reputation.launches} launches, {reputation.honeypots} honeypots, {reputation.rugs} rugs
+                </button>
+              )}
+              {/* Earliest upcoming LP lock expiry, see backend/lpUnlocks.js */}
+              {token.holderAnalytics?.nextLpUnlockAt && (
+                <UnlockCountdown unlockAt={token.holderAnalytics.nextLpUnlockAt} badge />
+              )}
               {/* Token Age from Creation Time */}
               {(() => {
                 if (!token.creationTime) return null;
@@ -174,6 +180,17 @@ export const TokenEventCard: React.FC<TokenEventCardProps> = ({ token }) => {
             </div>
           </div>
 
+          {watch && onWatchChange && (
+            <WatchNotesEditor value={watch} onSave={(note) => onWatchChange(token.address, note)} />
+          )}
+
+          {/* Other launches by the same creator or deployer */}
+          {showLaunches && reputation && (
+            <div className="mb-6">
+              <CreatorLaunches wallet={reputation.address} currentToken={token.address} />
+            </div>
+          )}
+
           {/* Warning/Danger Reasons Panel */}
           {(securityLevel === 'warning' || securityLevel === 'danger') && (
             <div className={`mb-6 p-4 ${
@@ -189,8 +206,35 @@ export const TokenEventCard: React.FC<TokenEventCardProps> = ({ token }) => {
               <ul className={`text-sm ${
                 securityLevel === 'danger' ? 'text-red-700' : 'text-yellow-700'
               } space-y-1 list-disc pl-4`}>
-                {warningReasons.map((reason, index) => (
-                  <li key={index}>{reason}</li>
+                {warningReasons.map((reason) => (
+                  <li key={reason.id}>{reason.description}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Fields where Honeypot.is and GoPlus disagree, see backend/reconciliation.js */}
+          {token.providerDisagreements && token.providerDisagreements.length > 0 && (
+            <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+              <h4 className="text-sm font-semibold text-orange-800 mb-2">Provider Disagreements:</h4>
+              <ul className="text-sm text-orange-700 space-y-1 list-disc pl-4">
+                {token.providerDisagreements.map((disagreement) => (
+                  <li key={disagreement.field}>
+                    {disagreement.label}: Honeypot.is {formatProviderValue(disagreement.hpValue)}, GoPlus {formatProviderValue(disagreement.gpValue)}
+                    {disagreement.tolerance > 0 && ` (tolerance ${disagreement.tolerance})`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Field parse errors reported by the backend mapper */}
+          {token.parseErrors && token.parseErrors.length > 0 && (
+            <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">Data Issues:</h4>
+              <ul className="text-sm text-gray-600 space-y-1 list-disc pl-4">
+                {token.parseErrors.map((parseError) => (
+                  <li key={parseError.field}>{parseError.field}: {parseError.message}</li>
                 ))}
               </ul>
             </div>
@@ -272,6 +316,13 @@ export const TokenEventCard: React.FC<TokenEventCardProps> = ({ token }) => {
               <Field label="Snipers Success" value="0" />
             </div>
 
+            {/* Holder Concentration */}
+            <div className="bg-white p-4 rounded-lg shadow-lg col-span-2">
+              <LazyMount placeholderHeight={480}>
+                <HolderAnalyticsPanel token={token} />
+              </LazyMount>
+            </div>
+
             {/* GoPlus Security Analysis */}
             <div className="bg-white p-4 rounded-lg shadow-lg col-span-2">
               <SectionHeader icon={<Shield className="w-5 h-5" />} title="GoPlus Security Analysis" />
@@ -368,174 +419,13 @@ export const TokenEventCard: React.FC<TokenEventCardProps> = ({ token }) => {
           exit={{ opacity: 0, scale: 0.95 }}
           className="h-full w-full p-6 bg-white rounded-lg shadow-lg border border-gray-200 hover:shadow-xl transition-shadow duration-200 space-y-4"
         >
-          <TokenLiquidityChart token={token} />
-          
-          {/* Additional Analysis Box */}
-          <div className="bg-white p-4 rounded-lg shadow-lg flex-grow">
-            <SectionHeader icon={<Network className="w-5 h-5" />} title="Token Analysis Models" />
-            
-            {/* Individual Models Grid */}
-            <div className="grid grid-cols-2 gap-4 mb-6">
-              {/* Market Behavior Model */}
-              <div className="bg-white p-4 rounded-lg border border-gray-200">
-                <h5 className="font-medium text-sm text-gray-700 mb-2">Market Behavior Model</h5>
-                {(() => {
-                  const txSuccessScore = ((token.totalScans - token.honeypotFailures) / Math.max(token.totalScans, 1)) * 25;
-                  const gasScore = token.buyGas && token.sellGas ? 
-                    (Math.abs(token.buyGas - token.sellGas) < 50000 ? 25 : 0) : 0;
-                  const distributionScore = token.gpHolderCount > 100 ? 25 : 
-                    token.gpHolderCount > 50 ? 15 : 
-                    token.gpHolderCount > 20 ? 10 : 5;
-                  const patternScore = token.gpBuyTax === token.gpSellTax ? 25 : 
-                    Math.abs(token.gpBuyTax - token.gpSellTax) < 2 ? 15 : 5;
-                  const totalScore = txSuccessScore + gasScore + distributionScore + patternScore;
-                  
-                  return (
-                    <div className="text-base font-bold text-blue-600">
-                      Score: {totalScore.toFixed(1)}%
-                    </div>
-                  );
-                })()}
-              </div>
-
-              {/* Smart Contract Security Model */}
-              <div className="bg-white p-4 rounded-lg border border-gray-200">
-                <h5 className="font-medium text-sm text-gray-700 mb-2">Smart Contract Security Model</h5>
-                {(() => {
-                  const verificationScore = token.gpIsOpenSource ? 25 : 0;
-                  const ownershipScore = (!token.gpHiddenOwner && !token.gpCanTakeBackOwnership) ? 25 : 0;
-                  const mintingScore = !token.gpIsMintable ? 25 : 0;
-                  const externalScore = !token.gpExternalCall ? 25 : 0;
-                  const totalScore = verificationScore + ownershipScore + mintingScore + externalScore;
-                  
-                  return (
-                    <div className="text-base font-bold text-green-600">
-                      Score: {totalScore.toFixed(1)}%
-                    </div>
-                  );
-                })()}
-              </div>
-
-              {/* Liquidity Risk Model */}
-              <div className="bg-white p-4 rounded-lg border border-gray-200">
-                <h5 className="font-medium text-sm text-gray-700 mb-2">Liquidity Risk Model</h5>
-                {(() => {
-                  const liquidityScore = token.liq30 > 50000 ? 25 :
-                    token.liq30 > 10000 ? 20 :
-                    token.liq30 > 5000 ? 15 :
-                    token.liq30 > 1000 ? 10 : 5;
-                  const lpHolderScore = token.gpLpHolderCount > 2 ? 25 :
-                    token.gpLpHolderCount === 2 ? 15 : 5;
-                  const sellImpactScore = !token.gpCannotSellAll ? 25 : 0;
-                  const lockScore = token.gpLpHolderCount > 1 ? 25 : 0;
-                  const totalScore = liquidityScore + lpHolderScore + sellImpactScore + lockScore;
-                  
-                  return (
-                    <div className="text-base font-bold text-purple-600">
-                      Score: {totalScore.toFixed(1)}%
-                    </div>
-                  );
-                })()}
-              </div>
+          <LazyMount placeholderHeight={1200}>
+            <TokenLiquidityChart token={token} session={session} />
 
-              {/* Growth Momentum Model */}
-              <div className="bg-white p-4 rounded-lg border border-gray-200">
-                <h5 className="font-medium text-sm text-gray-700 mb-2">Growth Momentum Model</h5>
-                {(() => {
-                  const holderScore = token.gpHolderCount > 100 ? 25 :
-                    token.gpHolderCount > 50 ? 20 :
-                    token.gpHolderCount > 20 ? 15 : 10;
-                  const liquidityTrendScore = token.liq30 > 10000 ? 25 :
-                    token.liq30 > 5000 ? 20 :
-                    token.liq30 > 1000 ? 15 : 10;
-                  const volumeScore = token.totalScans > 100 ? 25 :
-                    token.totalScans > 50 ? 20 :
-                    token.totalScans > 20 ? 15 : 10;
-                  const distributionScore = token.gpOwnerPercent < 5 ? 25 :
-                    token.gpOwnerPercent < 10 ? 20 :
-                    token.gpOwnerPercent < 20 ? 15 : 5;
-                  const totalScore = holderScore + liquidityTrendScore + volumeScore + distributionScore;
-                  
-                  return (
-                    <div className="text-base font-bold text-orange-600">
-                      Score: {totalScore.toFixed(1)}%
-                    </div>
-                  );
-                })()}
-              </div>
-            </div>
+            <TokenAnalysisModels token={token} />
 
-            {/* Combined Analysis Model - Prominent Box */}
-            <div className="bg-gradient-to-r from-gray-50 to-gray-100 p-6 rounded-lg border border-gray-200 shadow-sm">
-              <h5 className="font-semibold text-lg text-gray-800 mb-4">Combined Analysis Model</h5>
-              {(() => {
-                // Get individual model scores
-                const marketScore = ((token.totalScans - token.honeypotFailures) / Math.max(token.totalScans, 1)) * 25 +
-                  (token.buyGas && token.sellGas ? (Math.abs(token.buyGas - token.sellGas) < 50000 ? 25 : 0) : 0) +
-                  (token.gpHolderCount > 100 ? 25 : token.gpHolderCount > 50 ? 15 : token.gpHolderCount > 20 ? 10 : 5) +
-                  (token.gpBuyTax === token.gpSellTax ? 25 : Math.abs(token.gpBuyTax - token.gpSellTax) < 2 ? 15 : 5);
-
-                const securityScore = (token.gpIsOpenSource ? 25 : 0) +
-                  (!token.gpHiddenOwner && !token.gpCanTakeBackOwnership ? 25 : 0) +
-                  (!token.gpIsMintable ? 25 : 0) +
-                  (!token.gpExternalCall ? 25 : 0);
-
-                const liquidityScore = (token.liq30 > 50000 ? 25 : token.liq30 > 10000 ? 20 : token.liq30 > 5000 ? 15 : token.liq30 > 1000 ? 10 : 5) +
-                  (token.gpLpHolderCount > 2 ? 25 : token.gpLpHolderCount === 2 ? 15 : 5) +
-                  (!token.gpCannotSellAll ? 25 : 0) +
-                  (token.gpLpHolderCount > 1 ? 25 : 0);
-
-                const growthScore = (token.gpHolderCount > 100 ? 25 : token.gpHolderCount > 50 ? 20 : token.gpHolderCount > 20 ? 15 : 10) +
-                  (token.liq30 > 10000 ? 25 : token.liq30 > 5000 ? 20 : token.liq30 > 1000 ? 15 : 10) +
-                  (token.totalScans > 100 ? 25 : token.totalScans > 50 ? 20 : token.totalScans > 20 ? 15 : 10) +
-                  (token.gpOwnerPercent < 5 ? 25 : token.gpOwnerPercent < 10 ? 20 : token.gpOwnerPercent < 20 ? 15 : 5);
-
-                // Calculate weighted scores
-                const marketWeighted = (marketScore * 0.15);
-                const securityWeighted = (securityScore * 0.40);
-                const liquidityWeighted = (liquidityScore * 0.25);
-                const growthWeighted = (growthScore * 0.20);
-
-                // Calculate total score
-                const totalScore = marketWeighted + securityWeighted + liquidityWeighted + growthWeighted;
-
-                return (
-                  <div className="space-y-4">
-                    <div className="text-2xl font-bold text-gray-800 pb-4 border-b border-gray-200">
-                      Combined Score: {totalScore.toFixed(1)}%
-                    </div>
-                    <div className="grid grid-cols-2 gap-6">
-                      <div className="space-y-3">
-                        <div className="flex justify-between items-center bg-white/50 p-2 rounded">
-                          <span className="text-sm text-blue-600">Market Behavior (15%):</span>
-                          <span className="font-medium">{marketWeighted.toFixed(1)}%</span>
-                        </div>
-                        <div className="flex justify-between items-center bg-white/50 p-2 rounded">
-                          <span className="text-sm text-green-600">Contract Security (40%):</span>
-                          <span className="font-medium">{securityWeighted.toFixed(1)}%</span>
-                        </div>
-                        <div className="flex justify-between items-center bg-white/50 p-2 rounded">
-                          <span className="text-sm text-purple-600">Liquidity Risk (25%):</span>
-                          <span className="font-medium">{liquidityWeighted.toFixed(1)}%</span>
-                        </div>
-                        <div className="flex justify-between items-center bg-white/50 p-2 rounded">
-                          <span className="text-sm text-orange-600">Growth Momentum (20%):</span>
-                          <span className="font-medium">{growthWeighted.toFixed(1)}%</span>
-                        </div>
-                      </div>
-                      <div className="bg-white/80 p-4 rounded-lg text-sm space-y-2">
-                        <div className="font-medium text-gray-700 mb-2">Score Breakdown:</div>
-                        <div className="text-blue-600">Market: {marketScore.toFixed(1)}% × 0.15</div>
-                        <div className="text-green-600">Security: {securityScore.toFixed(1)}% × 0.40</div>
-                        <div className="text-purple-600">Liquidity: {liquidityScore.toFixed(1)}% × 0.25</div>
-                        <div className="text-orange-600">Growth: {growthScore.toFixed(1)}% × 0.20</div>
-                      </div>
-                    </div>
-                  </div>
-                );
-              })()}
-            </div>
-          </div>
+            <SecurityTimeline address={token.address} session={session} securityLevel={securityLevel} />
+          </LazyMount>
         </motion.div>
       </div>
     </div>
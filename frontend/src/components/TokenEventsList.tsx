@@ -1,145 +1,114 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useCallback, useMemo } from 'react';
+import { Star } from 'lucide-react';
 import { TokenEventCard } from './TokenEventCard';
-import { Token } from '../types';
+import { VirtualTokenList, TokenListRow } from './VirtualTokenList';
+import { Token, TokenFilters, WatchedToken, WatchNote } from '../types';
 
 interface TokenEventsListProps {
   tokens: Token[];
+  total: number;
+  filters: TokenFilters;
+  onFiltersChange: (filters: TokenFilters) => void;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+  session?: string | null;
+  // Watched tokens, pinned above the filtered list
+  watchlist: WatchedToken[];
+  onWatchChange: (address: string, note: WatchNote | null) => void;
 }
 
-interface FilterState {
-  minHolders: number;
-  minLiquidity: number;
-  hideHoneypots: boolean;
-  showOnlyHoneypots: boolean;
-  hideDanger: boolean;
-  hideWarning: boolean;
-  showOnlySafe: boolean;
-  searchQuery: string;
-  sortBy: 'creationTime' | 'holders' | 'liquidity' | 'safetyScore' | 'age';
-  sortDirection: 'asc' | 'desc';
-  maxRecords: number;
-}
-
-export const TokenEventsList: React.FC<TokenEventsListProps> = ({ tokens }) => {
-  const [filteredTokens, setFilteredTokens] = useState<Token[]>([]);
-  const [filters, setFilters] = useState<FilterState>({
-    minHolders: 0,
-    minLiquidity: 0,
-    hideHoneypots: false,
-    showOnlyHoneypots: false,
-    hideDanger: false,
-    hideWarning: false,
-    showOnlySafe: false,
-    searchQuery: '',
-    sortBy: 'age',
-    sortDirection: 'asc',
-    maxRecords: 50
-  });
-
-  // Memoize the filter function
-  const filterTokens = useCallback((tokensToFilter: Token[]) => {
-    if (!tokensToFilter || !Array.isArray(tokensToFilter)) {
-      return [];
-    }
-
-    return tokensToFilter.filter(token => {
-      const holderCount = token.gpHolderCount || 0;
-      const liquidity = token.liq30 || 0;
-      const isHoneypot = token.isHoneypot || false;
-      const isDangerousBlacklist = token.gpIsBlacklisted && !token.gpIsAntiWhale;
-      const isDangerous = isHoneypot || isDangerousBlacklist;
-      const hasWarnings = !isDangerous && (
-        !token.gpIsOpenSource ||
-        token.gpIsProxy ||
-        token.gpIsMintable ||
-        token.gpExternalCall ||
-        token.gpCannotBuy ||
-        token.gpCannotSellAll ||
-        token.gpTradingCooldown ||
-        token.gpTransferPausable ||
-        token.gpHiddenOwner ||
-        token.gpCanTakeBackOwnership ||
-        token.gpOwnerChangeBalance ||
-        token.gpBuyTax > 10 ||
-        token.gpSellTax > 10 ||
-        (token.gpIsAntiWhale && token.gpAntiWhaleModifiable) ||
-        token.gpSlippageModifiable
-      );
-      const isSafe = !isDangerous && !hasWarnings;
-
-      // Search filter
-      if (filters.searchQuery) {
-        const searchLower = filters.searchQuery.toLowerCase();
-        const nameMatch = token.name?.toLowerCase().includes(searchLower);
-        const symbolMatch = token.symbol?.toLowerCase().includes(searchLower);
-        if (!nameMatch && !symbolMatch) return false;
-      }
-
-      // Basic filters
-      if (holderCount < filters.minHolders) return false;
-      if (liquidity < filters.minLiquidity) return false;
-      
-      // Honeypot filters
-      if (filters.hideHoneypots && isHoneypot) return false;
-      if (filters.showOnlyHoneypots && !isHoneypot) return false;
-
-      // Security level filters
-      if (filters.hideDanger && isDangerous) return false;
-      if (filters.hideWarning && hasWarnings) return false;
-      if (filters.showOnlySafe && !isSafe) return false;
-
-      return true;
-    }).slice(0, filters.maxRecords);
-  }, [filters]);
-
-  // Add sorting function
-  const sortTokens = useCallback((tokensToSort: Token[]) => {
-    return [...tokensToSort].sort((a, b) => {
-      const direction = filters.sortDirection === 'asc' ? 1 : -1;
-      
-      switch (filters.sortBy) {
-        case 'age':
-          return direction * ((a.ageHours || 0) - (b.ageHours || 0));
-        case 'creationTime':
-          const timeA = a.creationTime || 0;
-          const timeB = b.creationTime || 0;
-          return direction * (timeA - timeB);
-        case 'holders':
-          return direction * ((a.gpHolderCount || 0) - (b.gpHolderCount || 0));
-        case 'liquidity':
-          return direction * ((a.liq30 || 0) - (b.liq30 || 0));
-        case 'safetyScore':
-          const scoreA = a.isHoneypot ? 0 : (a.safetyScore || 0);
-          const scoreB = b.isHoneypot ? 0 : (b.safetyScore || 0);
-          return direction * (scoreA - scoreB);
-        default:
-          return 0;
-      }
+// Filtering, sorting and paging happen on the server. The pages loaded so far are
+// windowed, and scrolling to the end loads the next one.
+export const TokenEventsList: React.FC<TokenEventsListProps> = ({
+  tokens,
+  total,
+  filters,
+  onFiltersChange,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  session,
+  watchlist,
+  onWatchChange
+}) => {
+  const handleFilterChange = useCallback(<K extends keyof TokenFilters>(key: K, value: TokenFilters[K]) => {
+    onFiltersChange({
+      ...filters,
+      [key]: value
     });
-  }, [filters.sortBy, filters.sortDirection]);
+  }, [filters, onFiltersChange]);
 
-  // Update the useEffect to include sorting
-  useEffect(() => {
-    const filtered = filterTokens(tokens);
-    const sorted = sortTokens(filtered);
-    setFilteredTokens(sorted);
-  }, [tokens, filterTokens, sortTokens]);
+  // Watched tokens are shown in the pinned section only
+  const watchedAddresses = useMemo(
+    () => new Set(watchlist.map(entry => entry.address.toLowerCase())),
+    [watchlist]
+  );
+  const unpinnedTokens = useMemo(
+    () => tokens.filter(token => !watchedAddresses.has(token.address.toLowerCase())),
+    [tokens, watchedAddresses]
+  );
 
-  const handleFilterChange = useCallback((key: keyof FilterState, value: number | boolean) => {
-    setFilters(prev => ({
-      ...prev,
-      [key]: value
-    }));
-  }, []);
+  const renderToken = useCallback((token: Token) => (
+    <TokenEventCard token={token} session={session} onWatchChange={onWatchChange} />
+  ), [session, onWatchChange]);
+
+  // Pinned watchlist first, then the filtered pages and a trailing row that loads the next one
+  const rows = useMemo(() => {
+    const list: TokenListRow[] = [];
+    if (watchlist.length > 0) {
+      list.push({
+        kind: 'header',
+        key: 'watchlist',
+        content: (
+          <div className="space-y-4 pb-8 border-b border-gray-500">
+            <h2 className="text-lg font-normal font-['Bebas_Neue'] text-white tracking-wide flex items-center">
+              <Star className="w-5 h-5 mr-2 text-yellow-400" fill="currentColor" />
+              Watchlist ({watchlist.length})
+            </h2>
+            {watchlist.map(entry => (
+              <div key={entry.address} className="p-8 bg-transparent rounded-xl border-2 border-yellow-400/70">
+                {entry.token ? (
+                  <TokenEventCard token={entry.token} session={session} watch={entry} onWatchChange={onWatchChange} />
+                ) : (
+                  <div className="p-4 bg-white rounded-lg flex items-center justify-between text-sm">
+                    <div>
+                      <div className="font-mono text-gray-800">{entry.address}</div>
+                      <div className="text-gray-500">
+                        {entry.removal
+                          ? `${entry.removal.name} (${entry.removal.symbol}) moved to ${entry.removal.table} at ${entry.removal.removalTimestamp}${entry.removal.reason ? `: ${entry.removal.reason}` : ''}`
+                          : 'Not in this session'}
+                      </div>
+                      {entry.note && <div className="text-gray-700 mt-1">{entry.note}</div>}
+                    </div>
+                    <button
+                      onClick={() => onWatchChange(entry.address, null)}
+                      className="px-3 py-1 rounded text-sm border bg-white text-gray-700 border-gray-300 hover:bg-gray-100"
+                    >
+                      Unwatch
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )
+      });
+    }
+    if (unpinnedTokens.length === 0 && !hasMore) {
+      list.push({ kind: 'message', key: 'empty', text: 'No tokens match the current filters' });
+    }
+    unpinnedTokens.forEach(token => list.push({ kind: 'token', key: token.address, token }));
+    if (hasMore) {
+      list.push({ kind: 'loading', key: 'loading' });
+    }
+    return list;
+  }, [watchlist, unpinnedTokens, hasMore, session, onWatchChange]);
 
   if (!tokens || !Array.isArray(tokens)) {
     return <div className="text-center text-red-500">No tokens data available</div>;
   }
 
-  if (tokens.length === 0) {
-    return <div className="text-center text-gray-500">No tokens found</div>;
-  }
-
   return (
     <div className="min-h-screen w-full relative flex flex-col bg-gradient-to-br from-gray-900 via-gray-800 to-gray-700">
       <div className="flex flex-1">
@@ -169,7 +138,7 @@ export const TokenEventsList: React.FC<TokenEventsListProps> = ({ tokens }) => {
                   {/* Add the new filter before the sorting controls */}
                   <div className="border border-gray-500 rounded-lg p-2">
                     <label className="block text-sm font-medium text-white/90">
-                      Maximum Results to Show
+                      Results Per Page
                     </label>
                     <input
                       type="number"
@@ -188,7 +157,7 @@ export const TokenEventsList: React.FC<TokenEventsListProps> = ({ tokens }) => {
                     </label>
                     <select
                       value={filters.sortBy}
-                      onChange={(e) => handleFilterChange('sortBy', e.target.value)}
+                      onChange={(e) => handleFilterChange('sortBy', e.target.value as TokenFilters['sortBy'])}
                       className="mt-1 block w-full rounded-md bg-gray-800 border-gray-500 text-white shadow-sm focus:border-white/30 focus:ring-white/30"
                     >
                       <option value="age" className="bg-gray-800">Token Age</option>
@@ -206,7 +175,7 @@ export const TokenEventsList: React.FC<TokenEventsListProps> = ({ tokens }) => {
                     </label>
                     <select
                       value={filters.sortDirection}
-                      onChange={(e) => handleFilterChange('sortDirection', e.target.value)}
+                      onChange={(e) => handleFilterChange('sortDirection', e.target.value as TokenFilters['sortDirection'])}
                       className="mt-1 block w-full rounded-md bg-gray-800 border-gray-500 text-white shadow-sm focus:border-white/30 focus:ring-white/30"
                     >
                       <option value="desc" className="bg-gray-800">Highest First</option>
@@ -242,6 +211,21 @@ export const TokenEventsList: React.FC<TokenEventsListProps> = ({ tokens }) => {
                     />
                   </div>
 
+                  {/* Minimum Safety Score */}
+                  <div className="border border-gray-500 rounded-lg p-2">
+                    <label className="block text-sm font-medium text-white/90">
+                      Minimum Safety Score (%)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={filters.minSafetyScore}
+                      onChange={(e) => handleFilterChange('minSafetyScore', parseInt(e.target.value) || 0)}
+                      className="mt-1 block w-full rounded-md bg-gray-800 border-gray-500 text-white shadow-sm focus:border-white/30 focus:ring-white/30"
+                    />
+                  </div>
+
                   {/* Security Level Filters */}
                   <div className="border border-gray-500 rounded-lg p-2 space-y-2">
                     <h3 className="text-sm font-medium text-white/90 mb-2">Security Filters</h3>
@@ -275,6 +259,16 @@ export const TokenEventsList: React.FC<TokenEventsListProps> = ({ tokens }) => {
                       />
                       <span className="ml-2 text-sm text-white/90">Show Only Safe Tokens</span>
                     </label>
+
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={filters.showOnlyDisagreements}
+                        onChange={(e) => handleFilterChange('showOnlyDisagreements', e.target.checked)}
+                        className="rounded border-gray-500 bg-gray-800 text-pink-600 shadow-sm focus:border-white/30 focus:ring-white/30"
+                      />
+                      <span className="ml-2 text-sm text-white/90">Only Provider Disagreements</span>
+                    </label>
                   </div>
 
                   {/* Honeypot Controls */}
@@ -304,7 +298,7 @@ export const TokenEventsList: React.FC<TokenEventsListProps> = ({ tokens }) => {
 
                   <div className="pt-4 border-t border-gray-500">
                     <p className="text-sm text-white/80">
-                      Showing {filteredTokens.length} of {tokens.length} tokens
+                      Showing {tokens.length} of {total} tokens
                     </p>
                   </div>
                 </div>
@@ -314,19 +308,15 @@ export const TokenEventsList: React.FC<TokenEventsListProps> = ({ tokens }) => {
         </div>
 
         {/* Main Content */}
-        <div className="flex-1 pl-4 pb-8 border-l border-gray-600">
+        <div className="flex-1 pl-4 border-l border-gray-600">
           <div className="w-[90%] mx-auto px-4 mt-[5.5rem]">
-            <div className="space-y-8">
-              {filteredTokens.map((token, index) => (
-                <div key={token.token_address} className="w-full">
-                  <div className="w-full">
-                    <div className="p-8 bg-transparent rounded-xl border border-gray-500">
-                      <TokenEventCard token={token} />
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
+            <VirtualTokenList
+              rows={rows}
+              renderToken={renderToken}
+              filters={filters}
+              loadingMore={loadingMore}
+              onLoadMore={onLoadMore}
+            />
           </div>
         </div>
       </div>
@@ -1,74 +1,31 @@
-import React, { useEffect, useState } from 'react';
+import React, { useMemo } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Token } from '../types';
+import { useTokenHistory } from '../historyStore';
 
 interface TokenLiquidityChartProps {
   token: Token;
+  session?: string | null;
 }
 
-interface LiquidityRecord {
-  timestamp: string;
-  hpLiquidity: number;
-  gpLiquidity: number;
-  totalLiquidity: number;
-  holderCount: number;
-  lpHolderCount: number;
-}
-
-interface ChartDebugInfo {
-  tableName: string;
-  recordCount: number;
-  highestLiquidity: number;
-  lowestLiquidity: number;
-  timeRange: {
-    start: string;
-    end: string;
-  };
-}
+export const TokenLiquidityChart: React.FC<TokenLiquidityChartProps> = ({ token, session }) => {
+  // Cached per token; HISTORY_POINT pushes append each new scan to every panel
+  const { points: historyData, loaded, error } = useTokenHistory(token.address, session);
 
-export const TokenLiquidityChart: React.FC<TokenLiquidityChartProps> = ({ token }) => {
-  const [historyData, setHistoryData] = useState<LiquidityRecord[]>([]);
-  const [debugInfo, setDebugInfo] = useState<ChartDebugInfo | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchHistory = async () => {
-      try {
-        setIsLoading(true);
-        setError(null);
-        const response = await fetch(`http://localhost:3002/api/tokens/${token.address}/history`);
-        
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || 'Failed to fetch history');
-        }
-        
-        const data = await response.json();
-        
-        if (!data.history || data.history.length === 0) {
-          throw new Error('No liquidity history available');
-        }
-
-        setDebugInfo(data.debug);
-        setHistoryData(data.history);
-        console.log('Chart data received:', data);
-      } catch (err) {
-        console.error('Error fetching history:', err);
-        if (err instanceof Error) {
-          setError(err.message);
-        } else {
-          setError('Failed to load liquidity history');
-        }
-      } finally {
-        setIsLoading(false);
+  const debugInfo = useMemo(() => {
+    if (historyData.length === 0) return null;
+    const liquidity = historyData.map(point => point.totalLiquidity);
+    return {
+      sessions: [...new Set(historyData.map(point => point.session))],
+      recordCount: historyData.length,
+      highestLiquidity: Math.max(...liquidity),
+      lowestLiquidity: Math.min(...liquidity),
+      timeRange: {
+        start: new Date(historyData[0].timestamp).toLocaleString(),
+        end: new Date(historyData[historyData.length - 1].timestamp).toLocaleString()
       }
     };
-
-    if (token.address) {
-      fetchHistory();
-    }
-  }, [token.address]);
+  }, [historyData]);
 
   // Format numbers for tooltip
   const formatLiquidity = (value: number) => {
@@ -85,12 +42,25 @@ export const TokenLiquidityChart: React.FC<TokenLiquidityChartProps> = ({ token
     });
   };
 
+  // Format tax percentages for axis and tooltip
+  const formatTax = (value: number) => {
+    return `${value.toFixed(1)}%`;
+  };
+
+  // Format gas units for axis and tooltip
+  const formatGas = (value: number) => {
+    return value.toLocaleString();
+  };
+
   // Format holder counts for tooltip
   const formatHolders = (value: number) => {
     return value.toLocaleString();
   };
 
-  if (isLoading) {
+  // Every history panel shares one time cursor
+  const syncId = `history-${token.address}`;
+
+  if (!loaded) {
     return (
       <div className="w-full h-64 bg-white rounded-lg shadow-lg p-4 flex items-center justify-center">
         <div className="text-gray-500">Loading liquidity history...</div>
@@ -98,10 +68,10 @@ export const TokenLiquidityChart: React.FC<TokenLiquidityChartProps> = ({ token
     );
   }
 
-  if (error) {
+  if (historyData.length === 0) {
     return (
       <div className="w-full h-64 bg-white rounded-lg shadow-lg p-4 flex items-center justify-center">
-        <div className="text-red-500">{error}</div>
+        <div className="text-red-500">{error || 'No liquidity history available'}</div>
       </div>
     );
   }
@@ -113,7 +83,9 @@ export const TokenLiquidityChart: React.FC<TokenLiquidityChartProps> = ({ token
         <h3 className="text-lg font-semibold mb-2">Chart Debug Info</h3>
         {debugInfo ? (
           <div className="text-sm space-y-1">
-            <p><span className="font-medium">Table:</span> {debugInfo.tableName}</p>
+            {debugInfo.sessions.length > 1 && (
+              <p><span className="font-medium">Sessions:</span> {debugInfo.sessions.join(', ')}</p>
+            )}
             <p><span className="font-medium">Records:</span> {debugInfo.recordCount}</p>
             <p><span className="font-medium">Highest Liquidity:</span> ${debugInfo.highestLiquidity.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
             <p><span className="font-medium">Lowest Liquidity:</span> ${debugInfo.lowestLiquidity.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
@@ -128,7 +100,7 @@ export const TokenLiquidityChart: React.FC<TokenLiquidityChartProps> = ({ token
       <div className="w-full h-96 bg-white rounded-lg shadow-lg p-4">
         <h3 className="text-lg font-semibold mb-4">Liquidity History</h3>
         <ResponsiveContainer width="100%" height="85%">
-          <LineChart data={historyData}>
+          <LineChart data={historyData} syncId={syncId}>
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis 
               dataKey="timestamp" 
@@ -181,11 +153,125 @@ export const TokenLiquidityChart: React.FC<TokenLiquidityChartProps> = ({ token
         </ResponsiveContainer>
       </div>
 
+      {/* Tax History Chart, a sell tax hike shows up as a step */}
+      <div className="w-full h-96 bg-white rounded-lg shadow-lg p-4">
+        <h3 className="text-lg font-semibold mb-4">Tax History</h3>
+        <ResponsiveContainer width="100%" height="85%">
+          <LineChart data={historyData} syncId={syncId}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis 
+              dataKey="timestamp" 
+              tickFormatter={formatTimestamp}
+              angle={-45}
+              textAnchor="end"
+              height={60}
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              scale="time"
+            />
+            <YAxis 
+              tickFormatter={formatTax}
+              domain={['auto', 'auto']}
+            />
+            <Tooltip 
+              formatter={(value: number) => formatTax(value)}
+              labelFormatter={(label: number) => formatTimestamp(label)}
+              contentStyle={{ backgroundColor: 'white', border: '1px solid #E5E7EB' }}
+            />
+            <Legend />
+            <Line 
+              type="monotone" 
+              dataKey="buyTax" 
+              stroke="#8884d8" 
+              name="Honeypot API Buy Tax"
+              dot={false}
+              strokeWidth={2}
+              isAnimationActive={false}
+            />
+            <Line 
+              type="monotone" 
+              dataKey="sellTax" 
+              stroke="#ff0000" 
+              name="Honeypot API Sell Tax"
+              dot={false}
+              strokeWidth={2}
+              isAnimationActive={false}
+            />
+            <Line 
+              type="monotone" 
+              dataKey="gpBuyTax" 
+              stroke="#82ca9d" 
+              name="GoPlus Buy Tax"
+              dot={false}
+              strokeWidth={2}
+              isAnimationActive={false}
+            />
+            <Line 
+              type="monotone" 
+              dataKey="gpSellTax" 
+              stroke="#ff7300" 
+              name="GoPlus Sell Tax"
+              dot={false}
+              strokeWidth={2}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Gas History Chart */}
+      <div className="w-full h-96 bg-white rounded-lg shadow-lg p-4">
+        <h3 className="text-lg font-semibold mb-4">Gas History</h3>
+        <ResponsiveContainer width="100%" height="85%">
+          <LineChart data={historyData} syncId={syncId}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis 
+              dataKey="timestamp" 
+              tickFormatter={formatTimestamp}
+              angle={-45}
+              textAnchor="end"
+              height={60}
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              scale="time"
+            />
+            <YAxis 
+              tickFormatter={formatGas}
+              domain={['auto', 'auto']}
+            />
+            <Tooltip 
+              formatter={(value: number) => formatGas(value)}
+              labelFormatter={(label: number) => formatTimestamp(label)}
+              contentStyle={{ backgroundColor: 'white', border: '1px solid #E5E7EB' }}
+            />
+            <Legend />
+            <Line 
+              type="monotone" 
+              dataKey="buyGas" 
+              stroke="#8884d8" 
+              name="Buy Gas"
+              dot={false}
+              strokeWidth={2}
+              isAnimationActive={false}
+            />
+            <Line 
+              type="monotone" 
+              dataKey="sellGas" 
+              stroke="#ff7300" 
+              name="Sell Gas"
+              dot={false}
+              strokeWidth={2}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
       {/* Holder History Chart */}
       <div className="w-full h-96 bg-white rounded-lg shadow-lg p-4">
         <h3 className="text-lg font-semibold mb-4">Holder History</h3>
         <ResponsiveContainer width="100%" height="85%">
-          <LineChart data={historyData}>
+          <LineChart data={historyData} syncId={syncId}>
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis 
               dataKey="timestamp" 
@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { Unlock } from 'lucide-react';
+
+interface UnlockCountdownProps {
+  // Unix ms of the LP unlock
+  unlockAt: number;
+  // Badge for card headers, plain text otherwise
+  badge?: boolean;
+}
+
+// Time left until an unlock, e.g. "3d 4h" or "12m 5s" in the last hour
+const formatTimeUntil = (timestamp: number, now = Date.now()) => {
+  const seconds = Math.max(0, Math.floor((timestamp - now) / 1000));
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+// Live countdown to an LP unlock, red inside the last day
+export const UnlockCountdown: React.FC<UnlockCountdownProps> = ({ unlockAt, badge }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const unlocked = unlockAt <= now;
+
+  if (!badge) {
+    return <span>{unlocked ? 'unlocked' : `in ${formatTimeUntil(unlockAt, now)}`}</span>;
+  }
+
+  const urgent = unlockAt - now < 86400000;
+  return (
+    <span
+      title={`LP lock ends ${new Date(unlockAt).toLocaleString()}`}
+      className={`text-sm font-medium ${urgent ? 'bg-red-100 text-red-800 border border-red-200' : 'bg-orange-100 text-orange-800 border border-orange-200'} flex items-center px-3 py-1 rounded-full`}
+    >
+      <Unlock className="w-4 h-4 mr-1" />
+      {unlocked ? 'LP UNLOCKED' : `LP UNLOCK in ${formatTimeUntil(unlockAt, now)}`}
+    </span>
+  );
+};
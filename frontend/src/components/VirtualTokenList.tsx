@@ -0,0 +1,151 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { VariableSizeList, ListChildComponentProps, areEqual } from 'react-window';
+import InfiniteLoader from 'react-window-infinite-loader';
+import { Token, TokenFilters } from '../types';
+
+// What one row of the windowed list shows. The watchlist and the messages
+// scroll with the tokens, so they are rows too.
+export type TokenListRow =
+  | { kind: 'header'; key: string; content: React.ReactNode }
+  | { kind: 'token'; key: string; token: Token }
+  | { kind: 'message'; key: string; text: string }
+  | { kind: 'loading'; key: string };
+
+interface VirtualTokenListProps {
+  rows: TokenListRow[];
+  renderToken: (token: Token) => React.ReactNode;
+  filters: TokenFilters;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+}
+
+interface RowData {
+  rows: TokenListRow[];
+  renderToken: (token: Token) => React.ReactNode;
+  onMeasure: (key: string, height: number) => void;
+}
+
+// Rows start at this height until they are measured
+const ESTIMATED_ROW_HEIGHT = 1400;
+// Space between cards, part of each row's measured height
+const ROW_GAP = 32;
+
+const Row = React.memo(({ index, style, data }: ListChildComponentProps<RowData>) => {
+  const row = data.rows[index];
+  const contentRef = useRef<HTMLDivElement>(null);
+  const { onMeasure } = data;
+
+  // Cards grow after mounting (charts, expanded sections), so keep measuring
+  useEffect(() => {
+    const element = contentRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => onMeasure(row.key, element.getBoundingClientRect().height));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [row.key, onMeasure]);
+
+  return (
+    <div style={style}>
+      <div ref={contentRef} style={{ paddingBottom: ROW_GAP }}>
+        {row.kind === 'header' && row.content}
+        {row.kind === 'token' && (
+          <div className="p-8 bg-transparent rounded-xl border border-gray-500">
+            {data.renderToken(row.token)}
+          </div>
+        )}
+        {row.kind === 'message' && <div className="text-center text-gray-500">{row.text}</div>}
+        {row.kind === 'loading' && <div className="text-center text-white/80 text-sm">Loading more tokens...</div>}
+      </div>
+    </div>
+  );
+}, areEqual);
+
+// Windowed list of variable-height rows filling the viewport below it. A trailing
+// 'loading' row asks for the next page once it scrolls into range.
+export const VirtualTokenList: React.FC<VirtualTokenListProps> = ({
+  rows,
+  renderToken,
+  filters,
+  loadingMore,
+  onLoadMore
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<VariableSizeList | null>(null);
+  const loaderRef = useRef<InfiniteLoader | null>(null);
+  const sizes = useRef(new Map<string, number>());
+  const [height, setHeight] = useState(window.innerHeight);
+
+  useLayoutEffect(() => {
+    const updateHeight = () => {
+      if (!containerRef.current) return;
+      setHeight(Math.max(200, window.innerHeight - containerRef.current.getBoundingClientRect().top));
+    };
+    updateHeight();
+    window.addEventListener('resize', updateHeight);
+    return () => window.removeEventListener('resize', updateHeight);
+  }, []);
+
+  // Sizes are cached by row key, offsets by index, so any reorder drops the offsets
+  useEffect(() => {
+    listRef.current?.resetAfterIndex(0);
+  }, [rows]);
+
+  // A new filter starts from the first page again
+  useEffect(() => {
+    loaderRef.current?.resetloadMoreItemsCache();
+    listRef.current?.scrollToItem(0);
+  }, [filters]);
+
+  // A request made while a page was loading was dropped, ask again once it arrives
+  useEffect(() => {
+    if (!loadingMore) loaderRef.current?.resetloadMoreItemsCache(true);
+  }, [loadingMore]);
+
+  // Read through a ref so a new page doesn't re-subscribe every row's observer
+  const rowsRef = useRef(rows);
+  rowsRef.current = rows;
+
+  const onMeasure = useCallback((key: string, measured: number) => {
+    if (sizes.current.get(key) === measured) return;
+    sizes.current.set(key, measured);
+    const index = rowsRef.current.findIndex(row => row.key === key);
+    if (index !== -1) listRef.current?.resetAfterIndex(index);
+  }, []);
+
+  const itemData = useMemo<RowData>(() => ({ rows, renderToken, onMeasure }), [rows, renderToken, onMeasure]);
+
+  const loadMoreItems = useCallback(() => {
+    if (!loadingMore) onLoadMore();
+  }, [loadingMore, onLoadMore]);
+
+  return (
+    <div ref={containerRef}>
+      <InfiniteLoader
+        ref={loaderRef}
+        itemCount={rows.length}
+        isItemLoaded={index => rows[index].kind !== 'loading'}
+        loadMoreItems={loadMoreItems}
+      >
+        {({ onItemsRendered, ref }) => (
+          <VariableSizeList
+            ref={list => {
+              ref(list);
+              listRef.current = list;
+            }}
+            height={height}
+            width="100%"
+            itemCount={rows.length}
+            itemData={itemData}
+            itemKey={(index, data) => data.rows[index].key}
+            itemSize={index => sizes.current.get(rows[index].key) ?? ESTIMATED_ROW_HEIGHT}
+            estimatedItemSize={ESTIMATED_ROW_HEIGHT}
+            onItemsRendered={onItemsRendered}
+            overscanCount={1}
+          >
+            {Row}
+          </VariableSizeList>
+        )}
+      </InfiniteLoader>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { StickyNote } from 'lucide-react';
+import { WatchNote } from '../types';
+
+interface WatchNotesEditorProps {
+  value: WatchNote;
+  onSave: (note: WatchNote) => void;
+}
+
+const parseTags = (text: string) => text.split(',').map(tag => tag.trim()).filter(Boolean);
+
+// Free-text note and comma-separated tags of a watched token
+export const WatchNotesEditor: React.FC<WatchNotesEditorProps> = ({ value, onSave }) => {
+  const [note, setNote] = useState(value.note);
+  const [tags, setTags] = useState(value.tags.join(', '));
+
+  // Pick up edits made elsewhere, e.g. in another tab. Keyed on the saved text, not the
+  // entry object, which changes on every pushed token update.
+  const savedTags = value.tags.join(', ');
+  useEffect(() => {
+    setNote(value.note);
+    setTags(savedTags);
+  }, [value.note, savedTags]);
+
+  const dirty = note !== value.note || parseTags(tags).join(', ') !== savedTags;
+
+  return (
+    <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg space-y-2">
+      <h4 className="text-sm font-semibold text-yellow-800 flex items-center">
+        <StickyNote className="w-4 h-4 mr-1" />
+        Watchlist Notes
+      </h4>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        rows={2}
+        maxLength={2000}
+        placeholder="Why are we watching this token?"
+        className="block w-full rounded-md border-gray-300 text-sm shadow-sm"
+      />
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags, comma separated"
+          className="flex-1 rounded-md border-gray-300 text-sm shadow-sm"
+        />
+        <button
+          onClick={() => onSave({ note, tags: parseTags(tags) })}
+          disabled={!dirty}
+          className="px-3 py-1 rounded text-sm border bg-yellow-500 text-white border-yellow-500 hover:bg-yellow-400 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+      {value.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.tags.map(tag => (
+            <span key={tag} className="text-xs font-medium px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 border border-yellow-200">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { fetchHistories } from './api';
+import { HistoryMetric, HistoryPoint } from './types';
+
+// Every chart reads the same metric groups, so one cache entry serves all of them
+const HISTORY_METRICS: HistoryMetric[] = ['liquidity', 'holders', 'tax', 'gas'];
+// Requests made within this window go out together as one POST /api/history
+const BATCH_DELAY_MS = 50;
+const MAX_BATCH_ADDRESSES = 200;
+
+export interface HistoryEntry {
+  points: HistoryPoint[];
+  loaded: boolean;
+  error: string | null;
+}
+
+const EMPTY_ENTRY: HistoryEntry = { points: [], loaded: false, error: null };
+
+// Entries are replaced, never mutated, so subscribers can compare by reference
+const entries = new Map<string, HistoryEntry>();
+const listeners = new Map<string, Set<() => void>>();
+// Addresses waiting for the next batch, per session ('' is the live one)
+const pending = new Map<string, Set<string>>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const entryKey = (session: string, address: string) => `${session}|${address.toLowerCase()}`;
+
+const setEntry = (key: string, entry: HistoryEntry) => {
+  entries.set(key, entry);
+  listeners.get(key)?.forEach(listener => listener());
+};
+
+// Append the points after the last one already held; a top-up can overlap it
+const mergePoints = (held: HistoryPoint[], received: HistoryPoint[]) => {
+  const last = held.length > 0 ? held[held.length - 1].timestamp : -Infinity;
+  const newer = received.filter(point => point.timestamp > last);
+  return newer.length > 0 ? [...held, ...newer] : held;
+};
+
+async function fetchBatch(session: string, addresses: string[], since: number | null) {
+  try {
+    const histories = await fetchHistories(addresses, HISTORY_METRICS, since, session || null);
+    addresses.forEach(address => {
+      const key = entryKey(session, address);
+      const held = entries.get(key) || EMPTY_ENTRY;
+      setEntry(key, { points: mergePoints(held.points, histories[address] || []), loaded: true, error: null });
+    });
+  } catch (err) {
+    console.error('Error fetching token histories:', err);
+    const message = err instanceof Error ? err.message : 'Failed to load history';
+    addresses.forEach(address => {
+      const key = entryKey(session, address);
+      setEntry(key, { ...(entries.get(key) || EMPTY_ENTRY), loaded: true, error: message });
+    });
+  }
+}
+
+// Tokens without points get their whole history in one batch, the others only
+// what was scanned after the oldest of their last points
+function flush() {
+  flushTimer = null;
+  const batches = [...pending.entries()];
+  pending.clear();
+
+  batches.forEach(([session, addressSet]) => {
+    const addresses = [...addressSet];
+    const lastTimestamp = (address: string) => {
+      const points = entries.get(entryKey(session, address))?.points || [];
+      return points.length > 0 ? points[points.length - 1].timestamp : null;
+    };
+    const fresh = addresses.filter(address => lastTimestamp(address) === null);
+    const known = addresses.filter(address => lastTimestamp(address) !== null);
+
+    for (let i = 0; i < fresh.length; i += MAX_BATCH_ADDRESSES) {
+      fetchBatch(session, fresh.slice(i, i + MAX_BATCH_ADDRESSES), null);
+    }
+    for (let i = 0; i < known.length; i += MAX_BATCH_ADDRESSES) {
+      const chunk = known.slice(i, i + MAX_BATCH_ADDRESSES);
+      fetchBatch(session, chunk, Math.min(...chunk.map(address => lastTimestamp(address) as number)));
+    }
+  });
+}
+
+// Queue a token for the next batch: its full history the first time, new points after that
+export function requestHistory(address: string, session?: string | null) {
+  const sessionKey = session || '';
+  if (!pending.has(sessionKey)) pending.set(sessionKey, new Set());
+  pending.get(sessionKey)!.add(address);
+  if (!flushTimer) flushTimer = setTimeout(flush, BATCH_DELAY_MS);
+}
+
+// Apply a pushed HISTORY_POINT to the cached histories holding the token: the live
+// view's and the one of the point's session
+export function appendHistoryPoint(address: string, point: HistoryPoint) {
+  ['', point.session].forEach(session => {
+    const key = entryKey(session, address);
+    const held = entries.get(key);
+    if (held?.loaded) {
+      setEntry(key, { ...held, points: mergePoints(held.points, [point]) });
+    }
+  });
+}
+
+// Top up every loaded history, for points pushed while the WebSocket was down
+export function refreshHistories() {
+  entries.forEach((entry, key) => {
+    if (!entry.loaded) return;
+    const [session, address] = key.split('|');
+    requestHistory(address, session || null);
+  });
+}
+
+// Cached history of a token, kept current by HISTORY_POINT pushes
+export function useTokenHistory(address: string, session?: string | null): HistoryEntry {
+  const key = entryKey(session || '', address);
+  const [entry, setLocalEntry] = useState<HistoryEntry>(() => entries.get(key) || EMPTY_ENTRY);
+
+  useEffect(() => {
+    const listener = () => setLocalEntry(entries.get(key) || EMPTY_ENTRY);
+    if (!listeners.has(key)) listeners.set(key, new Set());
+    listeners.get(key)!.add(listener);
+    listener();
+    return () => {
+      listeners.get(key)?.delete(listener);
+    };
+  }, [key]);
+
+  // Only the first mount fetches, later mounts read the cache
+  useEffect(() => {
+    if (address && !entries.get(key)?.loaded) requestHistory(address, session);
+  }, [address, session, key]);
+
+  return entry;
+}
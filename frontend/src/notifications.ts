@@ -0,0 +1,72 @@
+import { AlertRule, LpUnlockWarning, Token } from './types';
+
+// Browsers only let a page start audio after a user gesture, so the context is
+// created (or resumed) from a click and reused for cues fired in the background
+let audioContext: AudioContext | null = null;
+
+export const notificationsSupported = () => typeof Notification !== 'undefined';
+
+// Ask for notification permission and unlock audio; call from a click handler
+export const enableAlertNotifications = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!audioContext) {
+    audioContext = new AudioContext();
+  }
+  if (audioContext.state === 'suspended') {
+    await audioContext.resume();
+  }
+  if (!notificationsSupported()) return 'unsupported';
+  if (Notification.permission === 'default') {
+    return Notification.requestPermission();
+  }
+  return Notification.permission;
+};
+
+// Two short rising beeps
+export const playAlertCue = () => {
+  const context = audioContext;
+  if (!context || context.state !== 'running') return;
+
+  [880, 1320].forEach((frequency, index) => {
+    const start = context.currentTime + index * 0.2;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.18);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.18);
+  });
+};
+
+// Desktop notification for a token that started matching a rule
+export const notifyAlertMatch = (rule: AlertRule, token: Token) => {
+  playAlertCue();
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+
+  const notification = new Notification(`${rule.name}: ${token.name} (${token.symbol})`, {
+    body: rule.conditions.map(condition => `${condition.field} ${condition.op} ${condition.value}`).join(', ') +
+      `\n${token.address}`,
+    tag: `${rule.id}-${token.address}`
+  });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
+
+// Desktop notification for an LP lock about to expire
+export const notifyLpUnlock = (warning: LpUnlockWarning) => {
+  playAlertCue();
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+
+  const notification = new Notification(`LP unlock in ${warning.minutesLeft} min: ${warning.name} (${warning.symbol})`, {
+    body: `${warning.holderPercent.toFixed(2)}% of LP held by ${warning.holder}\n${warning.address}`,
+    tag: `unlock-${warning.address}-${warning.holder}-${warning.unlockAt}`
+  });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
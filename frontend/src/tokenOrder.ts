@@ -0,0 +1,39 @@
+import { Token, TokenFilters } from './types';
+
+// The token list's order, as backend/tokenQuery.js sorts GET /api/tokens, so a
+// pushed token lands where a refetch would put it
+
+const SORT_VALUES: Record<TokenFilters['sortBy'], (token: Token) => number | undefined> = {
+  age: token => token.ageHours,
+  creationTime: token => Number(token.creationTime),
+  holders: token => token.gpHolderCount,
+  liquidity: token => token.liq30,
+  safetyScore: token => (token.isHoneypot ? 0 : token.safetyScore)
+};
+
+const sortValue = (token: Token, sortBy: TokenFilters['sortBy']) => {
+  const value = SORT_VALUES[sortBy](token);
+  return value === undefined || value === null || Number.isNaN(value) ? null : value;
+};
+
+// Missing values always sort last, ties break on address
+export const compareTokens = (a: Token, b: Token, filters: TokenFilters) => {
+  const valueA = sortValue(a, filters.sortBy);
+  const valueB = sortValue(b, filters.sortBy);
+
+  if ((valueA === null) !== (valueB === null)) return valueA === null ? 1 : -1;
+  if (valueA !== null && valueB !== null && valueA !== valueB) {
+    const direction = filters.sortDirection === 'asc' ? 1 : -1;
+    return direction * (valueA < valueB ? -1 : 1);
+  }
+  return a.address.localeCompare(b.address);
+};
+
+// Put a token at its sorted position, replacing any entry with its address. When
+// more pages can be loaded, a token sorting after the loaded ones is left to them.
+export const placeToken = (tokens: Token[], token: Token, filters: TokenFilters, hasMore: boolean) => {
+  const rest = tokens.filter(existing => existing.address !== token.address);
+  const index = rest.findIndex(existing => compareTokens(token, existing, filters) < 0);
+  if (index === -1) return hasMore ? rest : [...rest, token];
+  return [...rest.slice(0, index), token, ...rest.slice(index)];
+};
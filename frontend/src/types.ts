@@ -142,4 +142,363 @@ export interface Token {
   
   // Scan info
   scanTimestamp: string;
+
+  // Combined analysis score (0-100), higher is safer
+  safetyScore?: number;
+  scores?: TokenScores;
+
+  // Output of the backend security rule engine
+  securityLevel: SecurityLevel;
+  reasons: SecurityReason[];
+
+  // Track record of the creator or deployer wallet across every session
+  creatorReputation?: WalletReputation | null;
+
+  // Concentration and LP lock metrics over the GoPlus holder lists
+  holderAnalytics?: HolderAnalytics;
+
+  // Fields where Honeypot.is and GoPlus report different values
+  providerDisagreements?: ProviderDisagreement[];
+
+  // Columns that failed to parse, the affected fields hold defaults
+  parseErrors?: TokenFieldError[];
 }
+
+// Filter panel state, sent to GET /api/tokens as query parameters
+export interface TokenFilters {
+  minHolders: number;
+  minLiquidity: number;
+  minSafetyScore: number;
+  hideHoneypots: boolean;
+  showOnlyHoneypots: boolean;
+  showOnlyDisagreements: boolean;
+  hideDanger: boolean;
+  hideWarning: boolean;
+  showOnlySafe: boolean;
+  searchQuery: string;
+  sortBy: 'creationTime' | 'holders' | 'liquidity' | 'safetyScore' | 'age';
+  sortDirection: 'asc' | 'desc';
+  maxRecords: number;
+}
+
+// GET /api/tokens query parameters, also accepted as a SUBSCRIBE filter
+export type TokenQueryFilter = Record<string, string>;
+
+// One page of GET /api/tokens
+export interface TokenPage {
+  tokens: Token[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// Derived by backend/holderAnalytics.js from gpHolders and gpLpHolders. GoPlus only
+// lists the largest holders; percentages are of total supply (0-100).
+export interface HolderAnalytics {
+  listedHolders: number;
+  top10Percent: number;
+  // 0 for equal balances, towards 1 when one holder has everything
+  gini: number;
+  contractPercent: number;
+  eoaPercent: number;
+  contractHolders: number;
+  lpLockedPercent: number;
+  lpBurnedPercent: number;
+  // Unix ms of the earliest upcoming LP unlock
+  nextLpUnlockAt: number | null;
+}
+
+// A Honeypot.is field and its GoPlus twin that differ by more than the tolerance
+export interface ProviderDisagreement {
+  field: keyof Token;
+  gpField: keyof Token;
+  label: string;
+  hpValue: boolean | number | string;
+  gpValue: boolean | number | string;
+  tolerance: number;
+}
+
+// Launch counts for one creator/deployer wallet
+export interface WalletReputation {
+  address: string;
+  launches: number;
+  honeypots: number;
+  rugs: number;
+  survivors: number;
+  serialDeployer: boolean;
+}
+
+// One token launched by a wallet, as returned by GET /api/creators/:address
+export interface CreatorLaunch {
+  address: string;
+  name: string | null;
+  symbol: string | null;
+  firstSeen: string | null;
+  lastSeen: string | null;
+  outcome: 'survivor' | 'rugged' | 'honeypot';
+  roles: ('creator' | 'deployer')[];
+  sessions: string[];
+}
+
+export interface CreatorReport extends WalletReputation {
+  tokens: CreatorLaunch[];
+}
+
+// A monitor session folder as listed by GET /api/sessions
+export interface SessionInfo {
+  name: string;
+  active: boolean;
+  modifiedAt: number;
+  tokenCount: number | null;
+  firstScan: string | null;
+  lastScan: string | null;
+  error: string | null;
+}
+
+export type ScoringModelId = 'market' | 'security' | 'liquidity' | 'growth';
+
+// One factor of a scoring model, every factor is worth up to maxPoints
+export interface ScoreFactor {
+  id: string;
+  label: string;
+  points: number;
+  maxPoints: number;
+}
+
+// Output of the backend scoring library
+export interface TokenScores {
+  models: Record<ScoringModelId, { label: string; score: number; factors: ScoreFactor[] }>;
+  combined: number;
+  weights: Record<ScoringModelId, number>;
+}
+
+// Stored scores of one scan, from GET /api/tokens/:address/scores
+export interface ScoreHistoryPoint {
+  session: string;
+  scanTimestamp: string;
+  timestamp: number;
+  market: number;
+  security: number;
+  liquidity: number;
+  growth: number;
+  combined: number;
+}
+
+// One history scan as a chart point, from POST /api/history. Only the fields of the
+// requested metric groups are present; tax and gas are null for scans that did not report them.
+export interface HistoryPoint {
+  timestamp: number;
+  session: string;
+  hpLiquidity: number;
+  gpLiquidity: number;
+  totalLiquidity: number;
+  holderCount: number;
+  lpHolderCount: number;
+  buyTax: number | null;
+  sellTax: number | null;
+  gpBuyTax: number | null;
+  gpSellTax: number | null;
+  buyGas: number | null;
+  sellGas: number | null;
+}
+
+export type HistoryMetric = 'liquidity' | 'holders' | 'tax' | 'gas';
+
+export type SecurityLevel = 'danger' | 'warning' | 'safe';
+
+// One security rule that fired for a token
+export interface SecurityReason {
+  id: string;
+  severity: Exclude<SecurityLevel, 'safe'>;
+  description: string;
+}
+
+// A scan where a token's security classification changed, from
+// GET /api/tokens/:address/security-history. The first entry is the first scan.
+export interface SecurityTimelineEntry {
+  scanTimestamp: string;
+  session: string;
+  securityLevel: SecurityLevel;
+  previousLevel: SecurityLevel | null;
+  added: SecurityReason[];
+  removed: SecurityReason[];
+  // Worse level or a newly fired rule
+  regression: boolean;
+}
+
+export interface SecurityHistory {
+  timeline: SecurityTimelineEntry[];
+  scanCount: number;
+  sessions: string[];
+}
+
+// Per-field problem reported by the backend token mapper
+export interface TokenFieldError {
+  field: keyof Token;
+  column: string;
+  message: string;
+}
+
+
+// Where a token went when it left scan_records
+export interface TokenRemoval {
+  table: 'HONEYPOTS' | 'xHoneypot_removed';
+  removalTimestamp: string;
+  originalScanTimestamp: string | null;
+  reason: string | null;
+}
+
+// A token in the HONEYPOTS or xHoneypot_removed table
+export interface RemovedToken extends TokenRemoval {
+  address: string;
+  name: string;
+  symbol: string;
+  honeypotReason: string | null;
+  pairAddress: string | null;
+  ageHours: number | null;
+  buyTax: number | null;
+  sellTax: number | null;
+  liquidity: number | null;
+  holderCount: number | null;
+  totalScans: number | null;
+  honeypotFailures: number | null;
+  lastError: string | null;
+}
+
+export interface GraveyardPage {
+  tokens: RemovedToken[];
+  total: number;
+  counts: Partial<Record<TokenRemoval['table'], number>>;
+}
+
+// One rug detector check that fired, comparing a history row with the scan before it
+export interface RugCheck {
+  id: 'liquidity_drop' | 'lp_holder_collapse' | 'owner_spike';
+  description: string;
+  previous: number;
+  current: number;
+}
+
+export interface RugAlert {
+  session: string;
+  address: string;
+  name: string;
+  symbol: string;
+  scanTimestamp: string;
+  previousScanTimestamp: string;
+  checks: RugCheck[];
+  createdAt: number;
+}
+
+// An upcoming LP lock expiry from GET /api/lp-unlocks
+export interface LpUnlock {
+  address: string;
+  name: string;
+  symbol: string;
+  holder: string;
+  // Share of the LP supply the locked holder has (0-100)
+  holderPercent: number;
+  amount: string;
+  unlockAt: number;
+}
+
+// Pushed when an unlock enters one of the configured lead time windows
+export interface LpUnlockWarning extends LpUnlock {
+  leadMinutes: number;
+  minutesLeft: number;
+}
+
+export interface RugAlertLog {
+  alerts: RugAlert[];
+  checks: { id: RugCheck['id']; params: Record<string, number> }[];
+}
+
+// One { field, op, value } test of a saved alert rule against a Token field
+export interface AlertCondition {
+  field: string;
+  op: string;
+  value: number | string | boolean;
+}
+
+export interface AlertRule {
+  id: number;
+  name: string;
+  conditions: AlertCondition[];
+  enabled: boolean;
+  createdAt: number;
+}
+
+// An ALERT_MATCH as kept by the frontend
+export interface AlertMatch {
+  rule: AlertRule;
+  token: Token;
+  receivedAt: number;
+}
+
+export type AlertRuleDraft = Omit<AlertRule, 'id' | 'createdAt'>;
+
+// A Token field the rule editor offers, with the operators its kind supports
+export interface AlertRuleField {
+  field: string;
+  kind: 'string' | 'number' | 'boolean';
+  operators: string[];
+}
+
+// A watched token's note and tags
+export interface WatchNote {
+  note: string;
+  tags: string[];
+}
+
+export interface WatchlistEntry extends WatchNote {
+  address: string;
+  addedAt: number;
+  updatedAt: number;
+}
+
+// A watchlist entry with the token's current state in the viewed session.
+// token is null once it left scan_records; removal says where it went, if known.
+export interface WatchedToken extends WatchlistEntry {
+  token: Token | null;
+  removal: RemovedToken | null;
+}
+
+// WebSocket topics; token:<address> carries every event about one token
+export type SubscriptionTopic = 'tokens' | 'alerts' | 'history' | 'watchlist' | `token:${string}`;
+
+// A subscribed topic. Events about tokens failing the filter are not sent.
+export interface Subscription {
+  topic: SubscriptionTopic;
+  filter: AlertCondition[];
+}
+
+// WebSocket messages sent by the frontend
+export type ClientMessage =
+  | { type: 'PING'; timestamp: number }
+  | { type: 'SUBSCRIBE'; topics: SubscriptionTopic[]; filter?: AlertCondition[] | TokenQueryFilter }
+  | { type: 'UNSUBSCRIBE'; topics: SubscriptionTopic[] }
+  | { type: 'RESUME'; streamId: string; lastSeq: number }
+  | { type: 'RESUME' };
+
+// WebSocket messages sent by the backend. Broadcast events also carry seq, their
+// position in the stream a reconnecting client resumes from.
+export type ServerMessage = (
+  | { type: 'CONNECTED'; timestamp: number; streamId: string; seq: number }
+  | { type: 'PONG'; timestamp: number }
+  // outsideFilter: a watched token the subscription's filter doesn't match
+  | { type: 'NEW_TOKEN'; token: Token; outsideFilter?: boolean }
+  | { type: 'TOKEN_UPDATED'; address: string; changes: Partial<Token>; scanTimestamp: string; outsideFilter?: boolean }
+  | { type: 'TOKEN_REMOVED'; address: string; removal: TokenRemoval | null }
+  | { type: 'TOKEN_LEFT_FILTER'; address: string }
+  | { type: 'TOKEN_ENTERED_FILTER'; address: string; token: Token }
+  | { type: 'TOKEN_DEMOTED'; token: RemovedToken }
+  | { type: 'RUG_ALERT'; alert: RugAlert }
+  | { type: 'ALERT_MATCH'; rule: AlertRule; token: Token }
+  | { type: 'LP_UNLOCK_WARNING'; warning: LpUnlockWarning }
+  | { type: 'WATCHLIST_CHANGED'; address: string; entry: WatchlistEntry | null }
+  | { type: 'HISTORY_POINT'; address: string; point: HistoryPoint }
+  | { type: 'SESSION_CHANGED'; session: string }
+  | { type: 'SUBSCRIBED'; topics: Subscription[] }
+  | { type: 'SUBSCRIPTION_ERROR'; error: string }
+  | { type: 'RESUMED'; streamId: string; seq: number; replayed: number }
+  | { type: 'RESYNC_REQUIRED'; streamId: string; seq: number; reason: string }
+) & { seq?: number };